@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "TestPlan" (
+    "id" TEXT NOT NULL,
+    "testSuiteId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "goal" TEXT NOT NULL,
+    "steps" JSONB NOT NULL,
+    "reasoning" TEXT,
+    "model" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TestPlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TestPlan_testSuiteId_idx" ON "TestPlan"("testSuiteId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TestPlan_testSuiteId_version_key" ON "TestPlan"("testSuiteId", "version");
+
+-- AddForeignKey
+ALTER TABLE "TestPlan" ADD CONSTRAINT "TestPlan_testSuiteId_fkey" FOREIGN KEY ("testSuiteId") REFERENCES "TestSuite"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TestPlan" ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'PLANNER';
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "PlanRevision" (
+    "id" TEXT NOT NULL,
+    "testSuiteId" TEXT NOT NULL,
+    "planVersion" INTEGER,
+    "atStep" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "pageUrl" TEXT NOT NULL,
+    "previousSteps" JSONB NOT NULL,
+    "revisedSteps" JSONB NOT NULL,
+    "reasoning" TEXT,
+    "model" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PlanRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PlanRevision_testSuiteId_idx" ON "PlanRevision"("testSuiteId");
+
+-- CreateIndex
+CREATE INDEX "PlanRevision_createdAt_idx" ON "PlanRevision"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "PlanRevision" ADD CONSTRAINT "PlanRevision_testSuiteId_fkey" FOREIGN KEY ("testSuiteId") REFERENCES "TestSuite"("id") ON DELETE CASCADE ON UPDATE CASCADE;
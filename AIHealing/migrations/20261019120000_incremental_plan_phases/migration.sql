@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "TestPlan" ADD COLUMN     "complete" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "phases" JSONB;
+
+-- AlterTable
+ALTER TABLE "TestSuite" ADD COLUMN     "maxPlanSteps" INTEGER NOT NULL DEFAULT 20;
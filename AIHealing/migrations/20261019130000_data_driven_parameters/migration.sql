@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "TestSuite" ADD COLUMN     "parameters" JSONB;
+
+-- AlterTable
+ALTER TABLE "Step" ADD COLUMN     "iteration" INTEGER;
+
+-- CreateTable
+CREATE TABLE "TestIteration" (
+    "id" TEXT NOT NULL,
+    "testSuiteId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "parameters" JSONB NOT NULL,
+    "status" TEXT NOT NULL,
+    "totalSteps" INTEGER NOT NULL DEFAULT 0,
+    "successSteps" INTEGER NOT NULL DEFAULT 0,
+    "failedSteps" INTEGER NOT NULL DEFAULT 0,
+    "healedSteps" INTEGER NOT NULL DEFAULT 0,
+    "skippedSteps" INTEGER NOT NULL DEFAULT 0,
+    "errorMessage" TEXT,
+    "executionTime" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TestIteration_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TestIteration_testSuiteId_idx" ON "TestIteration"("testSuiteId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TestIteration_testSuiteId_index_key" ON "TestIteration"("testSuiteId", "index");
+
+-- AddForeignKey
+ALTER TABLE "TestIteration" ADD CONSTRAINT "TestIteration_testSuiteId_fkey" FOREIGN KEY ("testSuiteId") REFERENCES "TestSuite"("id") ON DELETE CASCADE ON UPDATE CASCADE;
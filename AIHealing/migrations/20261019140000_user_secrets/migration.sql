@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "UserSecret" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "encryptedValue" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UserSecret_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UserSecret_userId_idx" ON "UserSecret"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserSecret_userId_name_key" ON "UserSecret"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "UserSecret" ADD CONSTRAINT "UserSecret_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
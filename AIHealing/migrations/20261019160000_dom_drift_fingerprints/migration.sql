@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "StepFingerprint" (
+    "id" TEXT NOT NULL,
+    "testSuiteId" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "runPassed" BOOLEAN NOT NULL DEFAULT false,
+    "stepNumber" INTEGER NOT NULL,
+    "iteration" INTEGER,
+    "descriptor" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "elements" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StepFingerprint_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StepFingerprint_testSuiteId_idx" ON "StepFingerprint"("testSuiteId");
+
+-- CreateIndex
+CREATE INDEX "StepFingerprint_runId_idx" ON "StepFingerprint"("runId");
+
+-- AddForeignKey
+ALTER TABLE "StepFingerprint" ADD CONSTRAINT "StepFingerprint_testSuiteId_fkey" FOREIGN KEY ("testSuiteId") REFERENCES "TestSuite"("id") ON DELETE CASCADE ON UPDATE CASCADE;
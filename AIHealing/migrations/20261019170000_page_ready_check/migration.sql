@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TestSuite" ADD COLUMN     "readyCheck" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TestSuite" ADD COLUMN     "promptTokenBudget" INTEGER NOT NULL DEFAULT 2500;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TestSuite" ADD COLUMN     "locatorStrategies" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Step" ADD COLUMN     "effect" JSONB;
+
+-- AlterTable
+ALTER TABLE "TestIteration" ADD COLUMN     "suspiciousSteps" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "TestSuite" ADD COLUMN     "suspiciousSteps" INTEGER NOT NULL DEFAULT 0;
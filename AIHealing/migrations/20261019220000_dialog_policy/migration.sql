@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "TestSuite" ADD COLUMN     "dialogAnswer" TEXT,
+ADD COLUMN     "dialogPolicy" TEXT NOT NULL DEFAULT 'accept';
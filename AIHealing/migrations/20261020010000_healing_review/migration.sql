@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "TestSuite" ADD COLUMN     "reviewThreshold" DOUBLE PRECISION NOT NULL DEFAULT 0.7;
+
+-- AlterTable
+ALTER TABLE "HealingEvent" ADD COLUMN     "reviewStatus" TEXT,
+ADD COLUMN     "reviewedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "HealingBlock" (
+    "id" TEXT NOT NULL,
+    "testSuiteId" TEXT NOT NULL,
+    "scope" TEXT NOT NULL,
+    "descriptor" TEXT NOT NULL,
+    "selector" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "HealingBlock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "HealingEvent_reviewStatus_idx" ON "HealingEvent"("reviewStatus");
+
+-- CreateIndex
+CREATE INDEX "HealingBlock_testSuiteId_idx" ON "HealingBlock"("testSuiteId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HealingBlock_scope_descriptor_selector_key" ON "HealingBlock"("scope", "descriptor", "selector");
+
+-- AddForeignKey
+ALTER TABLE "HealingBlock" ADD CONSTRAINT "HealingBlock_testSuiteId_fkey" FOREIGN KEY ("testSuiteId") REFERENCES "TestSuite"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,258 @@
+import { useParams, Link } from "react-router";
+import { useState } from "react";
+import { useQuery, useAction } from "wasp/client/operations";
+import { getHealingReviews, getTestSuite, approveHeal, rejectHeal } from "wasp/client/operations";
+import { Button } from "../shared/components/ui/button";
+import { Badge } from "../shared/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "../shared/components/ui/card";
+import { ArrowLeft, Eye, Loader2, CheckCircle2, XCircle, ImageOff } from "lucide-react";
+import { cn } from "../lib/utils";
+
+type ReviewElement = {
+  selector: string;
+  selectorType: string;
+  tagName: string;
+  text?: string;
+  attributes: Record<string, string>;
+  crop: string | null;
+};
+
+type HealingReview = {
+  id: string;
+  stepNumber: number;
+  iteration: number | null;
+  descriptor: string;
+  action: string;
+  confidence: number;
+  strategy: string;
+  timestamp: Date;
+  previous: ReviewElement;
+  next: ReviewElement;
+};
+
+// Attributes worth comparing; the rest (classes, styles, ids of frameworks) is noise
+const SHOWN_ATTRIBUTES = ["role", "type", "name", "placeholder", "aria-label", "data-testid", "href", "title"];
+// The only attributes a golden state records — others are unknown on the old side
+const RECORDED_ATTRIBUTES = ["role", "type", "placeholder"];
+
+export function HealingReviewPage() {
+  const { id } = useParams<{ id: string }>();
+  const { data: suite, refetch: refetchSuite } = useQuery(getTestSuite, { testSuiteId: id! });
+  const { data: reviews, isLoading, refetch: refetchReviews } = useQuery(getHealingReviews, { testSuiteId: id! });
+
+  const approveAction = useAction(approveHeal);
+  const rejectAction = useAction(rejectHeal);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handleDecision = async (review: HealingReview, approve: boolean) => {
+    if (
+      !approve &&
+      !confirm(`Reject this heal? "${review.next.selector}" will never be picked for this step again.`)
+    ) {
+      return;
+    }
+    setBusyId(review.id);
+    try {
+      if (approve) await approveAction({ healingEventId: review.id });
+      else await rejectAction({ healingEventId: review.id });
+      await refetchReviews();
+      await refetchSuite();
+    } catch (e: any) {
+      alert(`Error ${approve ? "approving" : "rejecting"} heal: ` + e.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 flex flex-col">
+      <header className="border-b border-gray-800 bg-slate-900/90 backdrop-blur shadow-sm flex-none">
+        <div className="container mx-auto px-4 py-3 flex items-center gap-3">
+          <Link to={`/test-suites/${id}`}>
+            <Button variant="ghost" size="sm" className="gap-2 text-gray-300 hover:text-white hover:bg-gray-800">
+              <ArrowLeft className="h-4 w-4" />
+              Mission Control
+            </Button>
+          </Link>
+          <div className="h-6 w-px bg-gray-700 hidden md:block" />
+          <div className="flex items-center gap-2 min-w-0">
+            <Eye className="h-4 w-4 text-purple-400 flex-none" />
+            <h1 className="text-sm font-bold text-white tracking-widest uppercase">Healing Review</h1>
+            {suite && <span className="text-xs text-gray-500 truncate">{suite.goal}</span>}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-4 space-y-4">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading reviews...
+          </div>
+        ) : !reviews || reviews.length === 0 ? (
+          <Card className="bg-slate-900/60 border-gray-800">
+            <CardContent className="py-10 text-center text-sm text-gray-400">
+              No heals are waiting for review.
+              {suite?.status === "PASSED" && " The suite passed with every heal confirmed."}
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <p className="text-xs text-gray-400">
+              {reviews.length} heal{reviews.length === 1 ? "" : "s"} below the review threshold of{" "}
+              {Math.round((suite?.reviewThreshold ?? 0) * 100)}%. Approve to make the new element the golden
+              state; reject to keep the old selector and never pick the new element for this step again.
+            </p>
+            {reviews.map((review) => (
+              <ReviewCard
+                key={review.id}
+                review={review}
+                busy={busyId === review.id}
+                disabled={busyId !== null || suite?.status === "RUNNING"}
+                onApprove={() => handleDecision(review, true)}
+                onReject={() => handleDecision(review, false)}
+              />
+            ))}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+function ReviewCard({
+  review,
+  busy,
+  disabled,
+  onApprove,
+  onReject,
+}: {
+  review: HealingReview;
+  busy: boolean;
+  disabled: boolean;
+  onApprove: () => void;
+  onReject: () => void;
+}) {
+  const confidencePct = Math.round(review.confidence * 100);
+
+  return (
+    <Card className="bg-slate-900/60 border-gray-800 overflow-hidden">
+      <CardHeader className="py-3 px-4 border-b border-gray-800 flex flex-row items-center justify-between space-y-0 gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <span className="text-[11px] font-mono text-gray-500 uppercase flex-none">
+            Step {review.stepNumber}
+            {review.iteration !== null && ` · row ${review.iteration}`}
+          </span>
+          <CardTitle className="text-sm text-white truncate">{review.descriptor}</CardTitle>
+          <Badge
+            variant="outline"
+            className="bg-purple-500/15 border-purple-400/40 text-purple-200 font-mono text-[10px] uppercase tracking-wider flex-none"
+          >
+            {review.strategy.toLowerCase().replace(/_/g, " ")}
+          </Badge>
+          <span className="font-mono text-xs font-bold text-orange-300 flex-none">{confidencePct}%</span>
+        </div>
+
+        <div className="flex items-center gap-2 flex-none">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onReject}
+            disabled={disabled}
+            className="h-8 gap-1.5 text-xs text-red-300 hover:text-red-200 hover:bg-red-950/50"
+          >
+            <XCircle className="h-3.5 w-3.5" />
+            Reject
+          </Button>
+          <Button
+            size="sm"
+            onClick={onApprove}
+            disabled={disabled}
+            className="h-8 gap-1.5 text-xs bg-green-600 hover:bg-green-700 text-white"
+          >
+            {busy ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <CheckCircle2 className="h-3.5 w-3.5" />}
+            Approve
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-0 grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-gray-800">
+        <ElementColumn label="Before" tone="old" element={review.previous} compareTo={review.next} />
+        <ElementColumn label="Healed to" tone="new" element={review.next} compareTo={review.previous} />
+      </CardContent>
+    </Card>
+  );
+}
+
+function ElementColumn({
+  label,
+  tone,
+  element,
+  compareTo,
+}: {
+  label: string;
+  tone: "old" | "new";
+  element: ReviewElement;
+  compareTo: ReviewElement;
+}) {
+  const attributes = SHOWN_ATTRIBUTES.filter(
+    (key) => element.attributes[key] !== undefined || compareTo.attributes[key] !== undefined
+  );
+  const rows: [string, string | undefined, boolean][] = [
+    ["tag", element.tagName, element.tagName !== compareTo.tagName],
+    ["text", element.text, (element.text ?? "") !== (compareTo.text ?? "")],
+    ...attributes.map(
+      (key): [string, string | undefined, boolean] => [
+        key,
+        element.attributes[key],
+        element.attributes[key] !== compareTo.attributes[key] &&
+          (RECORDED_ATTRIBUTES.includes(key) ||
+            (element.attributes[key] !== undefined && compareTo.attributes[key] !== undefined)),
+      ]
+    ),
+  ];
+
+  return (
+    <div className="p-4 space-y-3 min-w-0">
+      <p
+        className={cn(
+          "text-[11px] uppercase tracking-wider font-semibold",
+          tone === "old" ? "text-red-300" : "text-green-300"
+        )}
+      >
+        {label}
+      </p>
+
+      <div className="flex items-center justify-center h-32 rounded-md border border-gray-800 bg-[#0c0c0c] overflow-hidden">
+        {element.crop ? (
+          <img src={element.crop} alt={`${label} element`} className="max-h-full max-w-full object-contain" />
+        ) : (
+          <span className="flex items-center gap-1.5 text-xs text-gray-600">
+            <ImageOff className="h-3.5 w-3.5" />
+            No picture recorded
+          </span>
+        )}
+      </div>
+
+      <code
+        className={cn("block text-xs font-mono break-all", tone === "old" ? "text-red-200" : "text-green-200")}
+        title={element.selectorType}
+      >
+        {element.selector || "—"}
+      </code>
+
+      <table className="w-full text-xs">
+        <tbody className="divide-y divide-gray-800">
+          {rows.map(([key, value, differs]) => (
+            <tr key={key}>
+              <td className="py-1 pr-3 font-mono text-gray-500 w-28 align-top">{key}</td>
+              <td className={cn("py-1 break-all", differs ? "text-amber-200" : "text-gray-300")}>
+                {value ?? <span className="text-gray-600">—</span>}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -35,8 +35,12 @@ import {
   Zap,
   AlertTriangle,
   Eye,
+  KeyRound,
+  Workflow,
 } from "lucide-react";
 import { CreateTestSuiteDialog } from "./components/CreateTestSuiteDialog";
+import { SecretsDialog } from "./components/SecretsDialog";
+import { FlowsDialog } from "./components/FlowsDialog";
 import { cn } from "../lib/utils";
 
 type StatusFilter = "ALL" | "IDLE" | "RUNNING" | "PASSED" | "FAILED" | "STOPPED";
@@ -52,6 +56,8 @@ const STATUS_FILTERS: { label: string; value: StatusFilter }[] = [
 
 export function TasksPage({ user }: { user: User }) {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isSecretsDialogOpen, setIsSecretsDialogOpen] = useState(false);
+  const [isFlowsDialogOpen, setIsFlowsDialogOpen] = useState(false);
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("ALL");
   const [search, setSearch] = useState("");
 
@@ -114,6 +120,24 @@ export function TasksPage({ user }: { user: User }) {
             <span className="hidden md:inline text-sm text-muted-foreground">
               {user.username}
             </span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setIsFlowsDialogOpen(true)}
+              className="gap-2"
+            >
+              <Workflow className="h-4 w-4" />
+              Flows
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setIsSecretsDialogOpen(true)}
+              className="gap-2"
+            >
+              <KeyRound className="h-4 w-4" />
+              Secrets
+            </Button>
             <Button
               size="sm"
               onClick={() => setIsCreateDialogOpen(true)}
@@ -366,6 +390,14 @@ export function TasksPage({ user }: { user: User }) {
         open={isCreateDialogOpen}
         onOpenChange={setIsCreateDialogOpen}
       />
+      <SecretsDialog
+        open={isSecretsDialogOpen}
+        onOpenChange={setIsSecretsDialogOpen}
+      />
+      <FlowsDialog
+        open={isFlowsDialogOpen}
+        onOpenChange={setIsFlowsDialogOpen}
+      />
     </div>
   );
 }
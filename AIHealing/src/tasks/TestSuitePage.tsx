@@ -5,6 +5,11 @@ import {
   getExecutionLogs,
   getTestSuite,
   getHealingEvents,
+  getTestPlan,
+  getPlanRevisions,
+  getTestIterations,
+  getDriftReport,
+  getRunArchives,
   runTestSuite,
   stopTestSuite,
 } from "wasp/client/operations";
@@ -35,7 +40,17 @@ import {
   Globe,
   Cpu,
   Sparkles,
+  ListOrdered,
+  RefreshCw,
+  GitBranch,
+  AlertTriangle,
+  Eye,
 } from "lucide-react";
+import { PlanEditor } from "./components/PlanEditor";
+import { ParameterTable } from "./components/ParameterTable";
+import { RequestRulesPanel } from "./components/RequestRulesPanel";
+import { DriftReportPanel } from "./components/DriftReportPanel";
+import { ReplayPanel } from "./components/ReplayPanel";
 import { cn } from "../lib/utils";
 
 const LOG_LEVELS = ["ALL", "INFO", "AI", "SUCCESS", "WARN", "ERROR", "DEBUG"] as const;
@@ -51,6 +66,15 @@ export function TestSuitePage() {
     useQuery(getExecutionLogs, { testSuiteId: id! });
   const { data: healingEvents, refetch: refetchHealing } =
     useQuery(getHealingEvents, { testSuiteId: id! });
+  const { data: plan, refetch: refetchPlan } = useQuery(getTestPlan, { testSuiteId: id! });
+  const { data: planRevisions, refetch: refetchRevisions } =
+    useQuery(getPlanRevisions, { testSuiteId: id! });
+  const { data: iterations, refetch: refetchIterations } =
+    useQuery(getTestIterations, { testSuiteId: id! });
+  const { data: driftReport, refetch: refetchDrift } =
+    useQuery(getDriftReport, { testSuiteId: id! });
+  const { data: archives, refetch: refetchArchives } =
+    useQuery(getRunArchives, { testSuiteId: id! });
 
   const runAction = useAction(runTestSuite);
   const stopAction = useAction(stopTestSuite);
@@ -67,9 +91,24 @@ export function TestSuitePage() {
       refetchLogs();
       refetchSuite();
       refetchHealing();
+      refetchPlan();
+      refetchRevisions();
+      refetchIterations();
+      refetchDrift();
+      refetchArchives();
     }, suite?.status === "RUNNING" ? 1000 : 3000);
     return () => clearInterval(interval);
-  }, [refetchLogs, refetchSuite, refetchHealing, suite?.status]);
+  }, [
+    refetchLogs,
+    refetchSuite,
+    refetchHealing,
+    refetchPlan,
+    refetchRevisions,
+    refetchIterations,
+    refetchDrift,
+    refetchArchives,
+    suite?.status,
+  ]);
 
   // Auto-scroll to bottom when logs arrive (if user hasn't disabled it)
   useEffect(() => {
@@ -88,11 +127,14 @@ export function TestSuitePage() {
     });
   }, [logs, logFilter, search]);
 
-  const handleRun = async () => {
+  const handleRun = async (replan = false) => {
     if (!id) return;
+    if (replan && !confirm("Generate a new plan? Cached selectors are keyed by step descriptors, so reworded steps will be re-learned.")) {
+      return;
+    }
     setIsRunning(true);
     try {
-      await runAction({ testSuiteId: id });
+      await runAction({ testSuiteId: id, replan });
     } catch (e: any) {
       alert("Error starting test: " + e.message);
     } finally {
@@ -181,18 +223,39 @@ export function TestSuitePage() {
                 {isStopping ? "Stopping..." : "Stop"}
               </Button>
             ) : (
-              <Button
-                onClick={handleRun}
-                disabled={!canRun}
-                className="gap-2 bg-blue-600 hover:bg-blue-700 text-white border-0 shadow-[0_0_15px_rgba(37,99,235,0.45)] transition-all"
-              >
-                {isRunning || status === "RUNNING" ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
-                  <PlayCircle className="h-4 w-4" />
+              <>
+                {status === "NEEDS_REVIEW" && (
+                  <Link to={`/test-suites/${id}/review`}>
+                    <Button className="gap-2 bg-purple-600 hover:bg-purple-700 text-white border-0">
+                      <Eye className="h-4 w-4" />
+                      Review Heals
+                    </Button>
+                  </Link>
                 )}
-                {isRunning || status === "RUNNING" ? "Starting..." : "Run AI Agent"}
-              </Button>
+                {plan && (
+                  <Button
+                    variant="ghost"
+                    onClick={() => handleRun(true)}
+                    disabled={!canRun}
+                    className="gap-2 text-gray-300 hover:text-white hover:bg-gray-800"
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                    Re-plan & Run
+                  </Button>
+                )}
+                <Button
+                  onClick={() => handleRun()}
+                  disabled={!canRun}
+                  className="gap-2 bg-blue-600 hover:bg-blue-700 text-white border-0 shadow-[0_0_15px_rgba(37,99,235,0.45)] transition-all"
+                >
+                  {isRunning || status === "RUNNING" ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <PlayCircle className="h-4 w-4" />
+                  )}
+                  {isRunning || status === "RUNNING" ? "Starting..." : "Run AI Agent"}
+                </Button>
+              </>
             )}
           </div>
         </div>
@@ -210,18 +273,28 @@ export function TestSuitePage() {
               mono={false}
             />
             <InfoPill
-              className="md:col-span-4"
+              className="md:col-span-3"
               icon={<Globe className="h-3.5 w-3.5" />}
               label="URL"
               value={suite.startUrl}
               mono
             />
             <InfoPill
-              className="md:col-span-3"
+              className="md:col-span-2"
               icon={<Cpu className="h-3.5 w-3.5" />}
               label="Model"
               value={suite.model}
             />
+            <InfoPill
+              className="md:col-span-2"
+              icon={<ListOrdered className="h-3.5 w-3.5" />}
+              label="Plan"
+              value={
+                plan
+                  ? `v${plan.version} · ${(plan.steps as unknown[]).length} steps${plan.goal !== suite.goal ? " (stale)" : ""}`
+                  : "Not planned yet"
+              }
+            />
           </div>
         </section>
       )}
@@ -229,16 +302,62 @@ export function TestSuitePage() {
       {/* Stats grid */}
       {suite && (
         <section className="container mx-auto px-4 pt-4">
-          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
             <MissionStat icon={<Clock className="h-3.5 w-3.5" />} label="Steps" value={suite.totalSteps.toString()} tint="slate" />
             <MissionStat icon={<CheckCircle2 className="h-3.5 w-3.5" />} label="Success" value={suite.successSteps.toString()} tint="green" />
             <MissionStat icon={<XCircle className="h-3.5 w-3.5" />} label="Failed" value={suite.failedSteps.toString()} tint="red" />
             <MissionStat icon={<Wrench className="h-3.5 w-3.5" />} label="Healed" value={suite.healedSteps.toString()} tint="blue" />
+            <MissionStat icon={<AlertTriangle className="h-3.5 w-3.5" />} label="Suspicious" value={suite.suspiciousSteps.toString()} tint="amber" />
             <MissionStat icon={<DollarSign className="h-3.5 w-3.5" />} label="Cost" value={`$${(suite.estimatedCost || 0).toFixed(3)}`} tint="amber" />
           </div>
         </section>
       )}
 
+      {/* Plan review / editing */}
+      {suite && (
+        <section className="container mx-auto px-4 pt-4">
+          <PlanEditor
+            testSuiteId={suite.id}
+            plan={plan}
+            goal={suite.goal}
+            disabled={status === "RUNNING"}
+            onSaved={() => refetchPlan()}
+          />
+        </section>
+      )}
+
+      {/* Data-driven parameter rows + per-row results */}
+      {suite && (
+        <section className="container mx-auto px-4 pt-4">
+          <ParameterTable
+            testSuiteId={suite.id}
+            parameters={suite.parameters}
+            iterations={iterations}
+            disabled={status === "RUNNING"}
+            onSaved={() => refetchSuite()}
+          />
+        </section>
+      )}
+
+      {/* Request interception rules — stub / delay / block / fail */}
+      {suite && (
+        <section className="container mx-auto px-4 pt-4">
+          <RequestRulesPanel
+            testSuiteId={suite.id}
+            rules={suite.requestRules}
+            disabled={status === "RUNNING"}
+            onSaved={() => refetchSuite()}
+          />
+        </section>
+      )}
+
+      {/* Adaptive re-plans — why the plan changed mid-run */}
+      {planRevisions && planRevisions.length > 0 && (
+        <section className="container mx-auto px-4 pt-4">
+          <PlanRevisionsPanel revisions={planRevisions} />
+        </section>
+      )}
+
       {/* Healing Events panel — the "money shot" for presentations */}
       {healingEvents && healingEvents.length > 0 && (
         <section className="container mx-auto px-4 pt-4">
@@ -246,6 +365,20 @@ export function TestSuitePage() {
         </section>
       )}
 
+      {/* DOM drift since the last passing run — what changed on the page */}
+      {driftReport && (
+        <section className="container mx-auto px-4 pt-4">
+          <DriftReportPanel report={driftReport} />
+        </section>
+      )}
+
+      {/* Archived runs — replay planner / healer decisions offline */}
+      {suite && archives && archives.length > 0 && (
+        <section className="container mx-auto px-4 pt-4">
+          <ReplayPanel testSuiteId={suite.id} archives={archives} />
+        </section>
+      )}
+
       {/* Log terminal */}
       <main className="container mx-auto px-4 py-4 flex-1 flex flex-col min-h-0">
         <Card className="bg-[#0c0c0c] border-gray-800 flex-1 flex flex-col overflow-hidden relative">
@@ -410,6 +543,7 @@ function LiveStatusPill({ status }: { status: string }) {
     PASSED: { bg: "bg-green-500/15 border-green-500/40", text: "text-green-300", label: "Passed", dot: "bg-green-400" },
     FAILED: { bg: "bg-red-500/15 border-red-500/40", text: "text-red-300", label: "Failed", dot: "bg-red-400" },
     STOPPED: { bg: "bg-amber-500/15 border-amber-500/40", text: "text-amber-300", label: "Stopped", dot: "bg-amber-400" },
+    NEEDS_REVIEW: { bg: "bg-purple-500/15 border-purple-500/40", text: "text-purple-300", label: "Needs review", dot: "bg-purple-400" },
     IDLE: { bg: "bg-gray-500/15 border-gray-500/40", text: "text-gray-300", label: "Idle", dot: "bg-gray-400" },
   };
   const c = cfg[status] || cfg.IDLE;
@@ -572,6 +706,8 @@ function HealingEventRow({ event }: { event: HealingEvent }) {
     TEXT_SIMILARITY: "Text similarity",
     STRUCTURAL: "Structural match",
     EXACT_TEXT: "Exact text",
+    EMBEDDING: "Embedding",
+    LLM: "AI match",
     MANUAL_OVERRIDE: "Manual",
   };
 
@@ -649,3 +785,74 @@ function HealingEventRow({ event }: { event: HealingEvent }) {
     </div>
   );
 }
+
+// ---------------------------------------------------------------------------
+// Plan Revisions Panel — adaptive re-plans recorded during runs
+// ---------------------------------------------------------------------------
+
+type PlanRevision = {
+  id: string;
+  planVersion: number | null;
+  atStep: number;
+  reason: string;
+  pageUrl: string;
+  previousSteps: any;
+  revisedSteps: any;
+  reasoning: string | null;
+  model: string;
+  createdAt: string | Date;
+};
+
+type RevisionStep = { id: number; descriptor: string; expectedAction: string };
+
+function PlanRevisionsPanel({ revisions }: { revisions: PlanRevision[] }) {
+  return (
+    <Card className="bg-slate-900/60 border-amber-500/30 overflow-hidden">
+      <CardHeader className="py-3 px-4 border-b border-amber-500/20 flex flex-row items-center gap-3 space-y-0">
+        <GitBranch className="h-4 w-4 text-amber-400" />
+        <CardTitle className="text-sm text-white tracking-widest uppercase">Adaptive Re-plans</CardTitle>
+        <span className="text-xs text-amber-200/70">{revisions.length} recorded</span>
+      </CardHeader>
+
+      <CardContent className="p-0 max-h-[280px] overflow-y-auto">
+        <div className="divide-y divide-amber-500/10">
+          {revisions.map((rev) => {
+            const before = (rev.previousSteps as RevisionStep[]) || [];
+            const after = (rev.revisedSteps as RevisionStep[]) || [];
+            return (
+              <div key={rev.id} className="px-4 py-3 text-xs">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-mono text-amber-200/70 uppercase text-[11px]">
+                    Step {rev.atStep}
+                    {rev.planVersion !== null && ` · plan v${rev.planVersion}`}
+                  </span>
+                  <span className="text-gray-200">{rev.reason}</span>
+                  <span className="ml-auto text-gray-500 tabular-nums">
+                    {new Date(rev.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                {rev.reasoning && <p className="mt-1 text-gray-400 italic">{rev.reasoning}</p>}
+                <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-2 font-mono">
+                  <ol className="space-y-0.5">
+                    {before.map((s) => (
+                      <li key={s.id} className="text-red-200/80 line-through truncate" title={s.descriptor}>
+                        {s.id}. [{s.expectedAction}] {s.descriptor}
+                      </li>
+                    ))}
+                  </ol>
+                  <ol className="space-y-0.5">
+                    {after.map((s) => (
+                      <li key={s.id} className="text-green-200 truncate" title={s.descriptor}>
+                        {s.id}. [{s.expectedAction}] {s.descriptor}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
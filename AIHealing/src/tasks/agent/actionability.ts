@@ -0,0 +1,179 @@
+// ============================================================================
+// ACTIONABILITY - Wait Until a User Could Act on the Element
+// ============================================================================
+// Before the Actor touches an element it checks what a real user depends on:
+//   attached        still connected to its document
+//   visible         non-empty box, not display:none / visibility:hidden
+//   inViewport      centre on screen (scrolled into view when it is not)
+//   stable          same box across two animation frames (not animating)
+//   enabled         not :disabled (incl. via a disabled fieldset) / aria-disabled
+//   receivesEvents  nothing else is on top at its centre (its <label> may be)
+// Failed checks throw ActionabilityError. act() retries locating the element on
+// those — and on elements not on the page yet or detached by a re-render —
+// with backoff until the suite timeout; the action itself runs once. There is
+// deliberately no JS `el.click()` fallback: an overlay covering a button
+// fails the step, as it would a user.
+// ============================================================================
+
+import type { ElementHandle } from "puppeteer";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ActionabilityCheck = "attached" | "visible" | "inViewport" | "stable" | "enabled" | "receivesEvents";
+
+export class ActionabilityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ActionabilityError";
+  }
+}
+
+// Mouse clicks / drags: everything
+export const POINTER_CHECKS: ActionabilityCheck[] = [
+  "attached",
+  "visible",
+  "inViewport",
+  "stable",
+  "enabled",
+  "receivesEvents",
+];
+// Hovering a disabled element is legitimate (tooltips explaining why)
+export const HOVER_CHECKS: ActionabilityCheck[] = ["attached", "visible", "inViewport", "stable", "receivesEvents"];
+// Keyboard / select: the element is focused, not hit by the mouse
+export const INPUT_CHECKS: ActionabilityCheck[] = ["attached", "visible", "enabled"];
+// Drop targets sit under the dragged element, so they are never topmost
+export const DROP_CHECKS: ActionabilityCheck[] = ["attached", "visible", "inViewport", "stable"];
+
+const DEFAULT_ACTION_TIMEOUT = 5000; // When the caller passes no suite timeout
+const RETRY_DELAYS = [100, 250, 500, 1000]; // Backoff; the last one repeats
+
+// Puppeteer errors raised when the page re-renders under a handle
+const TRANSIENT_ERRORS = /detached|Execution context was destroyed|Cannot find context|not clickable|not an Element/i;
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+/**
+ * Throw ActionabilityError unless the element passes every check in `checks`
+ */
+export async function ensureActionable(handle: ElementHandle<Element>, checks: ActionabilityCheck[]): Promise<void> {
+  if (checks.includes("attached") && !(await handle.evaluate((el) => el.isConnected))) {
+    throw new ActionabilityError("Element is detached from the page");
+  }
+  if (checks.includes("visible") && !(await handle.isVisible())) {
+    throw new ActionabilityError("Element is not visible");
+  }
+  if (checks.includes("inViewport") && !(await isCenterInViewport(handle))) {
+    await handle.scrollIntoView();
+  }
+  if (checks.includes("stable") && !(await isStable(handle))) {
+    throw new ActionabilityError("Element is not stable (still moving or animating)");
+  }
+  if (checks.includes("enabled") && (await isDisabled(handle))) {
+    throw new ActionabilityError("Element is disabled");
+  }
+  if (checks.includes("receivesEvents")) {
+    const cover = await coveringElement(handle);
+    if (cover) throw new ActionabilityError(`Element is covered by ${cover}`);
+  }
+}
+
+// ============================================================================
+// RETRY
+// ============================================================================
+
+/**
+ * Run `attempt` until it succeeds, throws a non-transient error or
+ * `timeoutMs` runs out
+ */
+export async function retryActionable<T>(attempt: () => Promise<T>, timeoutMs = DEFAULT_ACTION_TIMEOUT): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  let lastMessage = "";
+
+  for (let n = 0; ; n++) {
+    try {
+      return await attempt();
+    } catch (err: any) {
+      if (!isTransientError(err)) throw err;
+      const delay = RETRY_DELAYS[Math.min(n, RETRY_DELAYS.length - 1)];
+      if (Date.now() + delay >= deadline) {
+        throw n === 0 ? err : new Error(`${err.message} (gave up after ${n + 1} attempts in ${timeoutMs}ms)`);
+      }
+      if (err.message !== lastMessage) {
+        console.log(`⏳ Actor: ${err.message} — retrying for up to ${timeoutMs}ms`);
+        lastMessage = err.message;
+      }
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+export function isTransientError(err: unknown): boolean {
+  return err instanceof ActionabilityError || (err instanceof Error && TRANSIENT_ERRORS.test(err.message));
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function isCenterInViewport(handle: ElementHandle<Element>): Promise<boolean> {
+  return handle.evaluate((el) => {
+    const r = el.getBoundingClientRect();
+    const view = el.ownerDocument.defaultView;
+    const x = r.left + r.width / 2;
+    const y = r.top + r.height / 2;
+    return !!view && x >= 0 && y >= 0 && x <= view.innerWidth && y <= view.innerHeight;
+  });
+}
+
+// Box unchanged across two animation frames. Falls back to a plain delay
+// when frames are not produced (background tab).
+async function isStable(handle: ElementHandle<Element>): Promise<boolean> {
+  return handle.evaluate(
+    (el) =>
+      new Promise<boolean>((resolve) => {
+        const first = el.getBoundingClientRect();
+        const done = () => {
+          const now = el.getBoundingClientRect();
+          resolve(
+            now.x === first.x && now.y === first.y && now.width === first.width && now.height === first.height
+          );
+        };
+        let frames = 0;
+        const tick = () => (++frames >= 2 ? done() : requestAnimationFrame(tick));
+        requestAnimationFrame(tick);
+        setTimeout(done, 250);
+      })
+  );
+}
+
+async function isDisabled(handle: ElementHandle<Element>): Promise<boolean> {
+  return handle.evaluate((el) => el.matches(":disabled") || el.getAttribute("aria-disabled") === "true");
+}
+
+// Short description of whatever is on top at the element's centre, or null
+// when the element (a descendant, or one of its labels) would get the click
+async function coveringElement(handle: ElementHandle<Element>): Promise<string | null> {
+  return handle.evaluate((el) => {
+    const r = el.getBoundingClientRect();
+    const root = el.getRootNode() as Document | ShadowRoot;
+    const hit = root.elementFromPoint(r.left + r.width / 2, r.top + r.height / 2);
+    if (!hit) return "nothing (centre is off-screen)";
+
+    for (let node: Node | null = hit; node; node = node.parentNode ?? (node instanceof ShadowRoot ? node.host : null)) {
+      if (node === el) return null;
+    }
+    const labels = (el as HTMLInputElement).labels;
+    if (labels && Array.from(labels).some((label) => label.contains(hit))) return null;
+
+    const id = hit.id ? `#${hit.id}` : "";
+    const classes = Array.from(hit.classList)
+      .slice(0, 2)
+      .map((c) => `.${c}`)
+      .join("");
+    return `<${hit.tagName.toLowerCase()}${id}${classes}>`;
+  });
+}
@@ -2,12 +2,48 @@
 // ACTOR MODULE - Execute Browser Actions
 // ============================================================================
 // This module executes the actions decided by the Thinker on the actual
-// browser page using Puppeteer.
+// browser page using Puppeteer. Every element action resolves its target
+// through the locator pipeline (locators.ts), in the suite's strategy order;
+// ActionResult.selectorUsed reports the strategy that matched. The target must
+// then be actionable (actionability.ts); transient failures are retried with
+// backoff until the suite timeout. Afterwards the action's effect is checked
+// (effects.ts); ActionResult.effect.observed = false marks it suspicious.
+// Upload actions read files from FIXTURES_DIR (default ./fixtures) only.
 // ============================================================================
 
-import type { Page } from "puppeteer";
+import { access } from "fs/promises";
+import path from "path";
+import type { ElementHandle, KeyInput, Page } from "puppeteer";
 import type { Action } from "./thinker";
 import type { ActionableElement } from "./observer";
+import { resolveSecrets, type SecretValues } from "./secrets";
+import { resolveElement, type LocatorStrategy, type ResolvedLocator } from "./locators";
+import {
+  ActionabilityError,
+  DROP_CHECKS,
+  HOVER_CHECKS,
+  INPUT_CHECKS,
+  POINTER_CHECKS,
+  ensureActionable,
+  retryActionable,
+  type ActionabilityCheck,
+} from "./actionability";
+import {
+  EFFECT_ACTIONS,
+  valueContains,
+  valueEffect,
+  watchEffects,
+  type EffectResult,
+  type EffectWatcher,
+} from "./effects";
+import {
+  ABSENCE_ASSERTIONS,
+  DEFAULT_ASSERTION,
+  assertionNeedsElement,
+  checkAssertion,
+  validateAssertion,
+  type AssertionResult,
+} from "./assertions";
 
 // ============================================================================
 // TYPES
@@ -18,9 +54,15 @@ export interface ActionResult {
   error?: string;
   screenshot?: string;
   selectorUsed?: string; // Which selector strategy worked
+  assertion?: AssertionResult; // verify: expected vs. actual
+  effect?: EffectResult; // What the action visibly changed (absent = not checked)
   executionTimeMs: number;
 }
 
+// Resolves an ActionableElement id to a live handle (see locators.ts) that
+// passes `checks` (see actionability.ts)
+type Locate = (elementId: string | undefined, checks: ActionabilityCheck[]) => Promise<ResolvedLocator>;
+
 // ============================================================================
 // ACTOR FUNCTIONS
 // ============================================================================
@@ -28,40 +70,65 @@ export interface ActionResult {
 /**
  * Execute an action on the page
  * This is the "Act" step in the Agentic Loop
+ * {{secret.NAME}} placeholders in typed / selected values are resolved here,
+ * at the last possible moment, so plaintext never enters logs or prompts.
+ * Transient failures while locating the element (not there yet, not
+ * actionable, re-rendered) are retried for up to `timeoutMs`. Once the element
+ * has received input nothing is retried: repeating it could type twice or
+ * toggle a checkbox back.
  */
 export async function act(
   action: Action,
   page: Page,
-  elements: ActionableElement[]
+  elements: ActionableElement[],
+  secrets?: SecretValues,
+  locatorStrategies?: LocatorStrategy[],
+  timeoutMs?: number
 ): Promise<ActionResult> {
   console.log(`🎬 Actor: Executing ${action.type} - ${action.description}`);
   
   const startTime = Date.now();
+  let watcher: EffectWatcher | undefined;
+  const locateOnce: Locate = async (elementId, checks) => {
+    const element = elements.find((el) => el.id === elementId);
+    if (!element) throw new Error(`Element ${elementId} not found`);
+
+    let resolved: ResolvedLocator;
+    try {
+      resolved = await resolveElement(page, element, locatorStrategies);
+    } catch (err: any) {
+      throw new ActionabilityError(err.message); // May still be rendering
+    }
+    try {
+      await ensureActionable(resolved.handle, checks);
+      // Watch from the last moment before the action (a retry starts over)
+      if (elementId === action.targetElementId && EFFECT_ACTIONS.includes(action.type)) {
+        await watcher?.stop();
+        watcher = await watchEffects(page, resolved.handle);
+      }
+    } catch (err) {
+      await resolved.handle.dispose();
+      throw err;
+    }
+    return resolved;
+  };
+  const locate: Locate = (elementId, checks) => retryActionable(() => locateOnce(elementId, checks), timeoutMs);
 
   try {
-    switch (action.type) {
-      case "click":
-        return await executeClick(action, page, elements);
-      
-      case "type":
-        return await executeType(action, page, elements);
-      
-      case "select":
-        return await executeSelect(action, page, elements);
-      
-      case "wait":
-        return await executeWait(action, page);
-      
-      case "navigate":
-        return await executeNavigate(action, page);
-      
-      case "verify":
-        return await executeVerify(action, page);
-      
-      default:
-        throw new Error(`Unknown action type: ${action.type}`);
+    // verify reports the page as it is now — it is not retried
+    if (action.type === "verify") {
+      return await executeVerify(action, page, locateOnce);
+    }
+    const result = await execute(action, page, locate, secrets);
+    if (result.success && watcher) {
+      result.effect = await watcher.settle();
     }
+    if (result.effect && !result.effect.observed) {
+      console.warn(`⚠️  Actor: ${action.type} had no observable effect — ${result.effect.detail}`);
+    }
+    return result;
   } catch (error: any) {
+    await watcher?.stop();
     const executionTime = Date.now() - startTime;
     console.error(`❌ Actor: Action failed - ${error.message}`);
     
@@ -74,64 +141,83 @@ export async function act(
 }
 
 /**
- * Execute a click action
+ * Dispatch one attempt of an action to its executor
  */
-async function executeClick(
+async function execute(
   action: Action,
   page: Page,
-  elements: ActionableElement[]
+  locate: Locate,
+  secrets?: SecretValues
 ): Promise<ActionResult> {
-  const element = elements.find(el => el.id === action.targetElementId);
-  if (!element) {
-    throw new Error(`Element ${action.targetElementId} not found`);
-  }
+  switch (action.type) {
+    case "click":
+      return await executeClick(action, page, locate);
+    
+    case "type":
+      return await executeType(action, page, locate, secrets);
+    
+    case "select":
+      return await executeSelect(action, page, locate, secrets);
+    
+    case "wait":
+      return await executeWait(action, page);
+    
+    case "navigate":
+      return await executeNavigate(action, page);
+    
+    case "hover":
+      return await executeHover(action, page, locate);
 
-  // Try different selector strategies in order of reliability
-  const selectorStrategies = [
-    { type: 'testId', value: element.selectors.testId },
-    { type: 'css', value: element.selectors.css },
-    { type: 'xpath', value: element.selectors.xpath },
-  ];
+    case "dblclick":
+      return await executeMouseClick(action, page, locate, { count: 2 });
 
-  for (const strategy of selectorStrategies) {
-    if (!strategy.value) continue;
+    case "rightclick":
+      return await executeMouseClick(action, page, locate, { button: "right" });
 
-    try {
-      if (strategy.type === 'xpath') {
-        // Use page.locator for XPath in newer Puppeteer
-        const element = await page.waitForSelector(`::-p-xpath(${strategy.value})`, { timeout: 2000 });
-        if (element) {
-          await element.click();
-          return {
-            success: true,
-            selectorUsed: `xpath: ${strategy.value}`,
-            executionTimeMs: 0, // Will be calculated by caller
-          };
-        }
-      } else {
-        try {
-          await page.click(strategy.value);
-        } catch (cssErr) {
-          // Fallback to JS click if Puppeteer physical mouse emulation fails (e.g. element overlapped or invisible)
-          await page.evaluate((sel) => {
-            const el = document.querySelector(sel) as HTMLElement;
-            if (el) el.click();
-            else throw new Error("Element not found in DOM during JS click");
-          }, strategy.value);
-        }
-        return {
-          success: true,
-          selectorUsed: `${strategy.type}: ${strategy.value}`,
-          executionTimeMs: 0,
-        };
-      }
-    } catch (error) {
-      // Try next strategy
-      continue;
-    }
+    case "press":
+      return await executePress(action, page, locate);
+
+    case "scroll":
+      return await executeScroll(action, page, locate);
+
+    case "drag":
+      return await executeDrag(action, page, locate);
+
+    case "check":
+      return await executeCheck(action, page, locate, true);
+
+    case "uncheck":
+      return await executeCheck(action, page, locate, false);
+
+    case "clear":
+      return await executeClear(action, page, locate);
+
+    case "focus":
+      return await executeFocus(action, page, locate);
+
+    case "upload":
+      return await executeUpload(action, page, locate);
+    
+    default:
+      throw new Error(`Unknown action type: ${action.type}`);
   }
+}
 
-  throw new Error(`Failed to click element with any selector strategy`);
+/**
+ * Execute a click action
+ */
+async function executeClick(
+  action: Action,
+  page: Page,
+  locate: Locate
+): Promise<ActionResult> {
+  const { handle, selectorUsed } = await locate(action.targetElementId, POINTER_CHECKS);
+  try {
+    await handle.click();
+  } finally {
+    await handle.dispose();
+  }
+  return { success: true, selectorUsed, executionTimeMs: 0 };
 }
 
 /**
@@ -140,54 +226,34 @@ async function executeClick(
 async function executeType(
   action: Action,
   page: Page,
-  elements: ActionableElement[]
+  locate: Locate,
+  secrets?: SecretValues
 ): Promise<ActionResult> {
-  const element = elements.find(el => el.id === action.targetElementId);
-  if (!element) {
-    throw new Error(`Element ${action.targetElementId} not found`);
-  }
-
   if (!action.value) {
     throw new Error("Type action requires a value");
   }
+  const text = resolveSecrets(action.value, secrets);
 
-  // Try different selector strategies
-  const selectorStrategies = [
-    { type: 'testId', value: element.selectors.testId },
-    { type: 'css', value: element.selectors.css },
-    { type: 'xpath', value: element.selectors.xpath },
-  ];
-
-  for (const strategy of selectorStrategies) {
-    if (!strategy.value) continue;
-
-    try {
-      if (strategy.type === 'xpath') {
-        // Use page.locator for XPath in newer Puppeteer
-        const element = await page.waitForSelector(`::-p-xpath(${strategy.value})`, { timeout: 2000 });
-        if (element) {
-          await element.click(); // Focus first
-          await page.keyboard.type(action.value);
-          return {
-            success: true,
-            selectorUsed: `xpath: ${strategy.value}`,
-            executionTimeMs: 0,
-          };
-        }
-      } else {
-        await page.type(strategy.value, action.value);
-        return {
-          success: true,
-          selectorUsed: `${strategy.type}: ${strategy.value}`,
-          executionTimeMs: 0,
-        };
-      }
-    } catch (error) {
-      continue;
+  const { handle, selectorUsed } = await locate(action.targetElementId, INPUT_CHECKS);
+  let effect: EffectResult;
+  try {
+    await handle.type(text); // Focuses the element first
+    if (await valueContains(handle, text)) {
+      effect = valueEffect(true, "typed text is in the field");
+    } else {
+      // Controlled inputs can drop keystrokes sent at full speed — empty
+      // the field and type once more, slowly
+      await selectContents(handle);
+      await page.keyboard.press("Backspace");
+      await handle.type(text, { delay: SLOW_TYPE_DELAY_MS });
+      effect = (await valueContains(handle, text))
+        ? valueEffect(true, "typed text is in the field (second, slower attempt)")
+        : valueEffect(false, "field does not contain the typed text, even after typing it again slowly");
     }
+  } finally {
+    await handle.dispose();
   }
-
-  throw new Error(`Failed to type into element with any selector strategy`);
+  return { success: true, selectorUsed, effect, executionTimeMs: 0 };
 }
 
 /**
@@ -196,29 +262,31 @@ async function executeType(
 async function executeSelect(
   action: Action,
   page: Page,
-  elements: ActionableElement[]
+  locate: Locate,
+  secrets?: SecretValues
 ): Promise<ActionResult> {
-  const element = elements.find(el => el.id === action.targetElementId);
-  if (!element) {
-    throw new Error(`Element ${action.targetElementId} not found`);
-  }
-
   if (!action.value) {
     throw new Error("Select action requires a value");
   }
 
-  const selector = element.selectors.css || element.selectors.xpath;
-  if (!selector) {
-    throw new Error("No valid selector found for select element");
+  const { handle, selectorUsed } = await locate(action.targetElementId, INPUT_CHECKS);
+  let effect: EffectResult;
+  try {
+    const selected = await (handle as ElementHandle<HTMLSelectElement>).select(resolveSecrets(action.value, secrets));
+    if (selected.length === 0) {
+      throw new Error(`No option with value "${action.value}"`);
+    }
+    // A controlled <select> whose state did not update snaps back on the next frame
+    const value = await handle.evaluate(
+      (el) => new Promise<string>((resolve) => requestAnimationFrame(() => resolve((el as HTMLSelectElement).value)))
+    );
+    effect = selected.includes(value)
+      ? valueEffect(true, "option is selected")
+      : valueEffect(false, "selection was reverted by the page");
+  } finally {
+    await handle.dispose();
   }
-
-  await page.select(selector, action.value);
-
-  return {
-    success: true,
-    selectorUsed: selector,
-    executionTimeMs: 0,
-  };
+  return { success: true, selectorUsed, effect, executionTimeMs: 0 };
 }
 
 /**
@@ -258,25 +326,462 @@ async function executeNavigate(
 }
 
 /**
- * Execute a verify action (check if something exists)
+ * Execute a verify action — a structured assertion (see assertions.ts).
+ * A failed assertion is a failed result carrying expected vs. actual, not
+ * an exception.
  */
 async function executeVerify(
   action: Action,
-  page: Page
+  page: Page,
+  locate: Locate
+): Promise<ActionResult> {
+  const assertion = action.assertion ?? DEFAULT_ASSERTION;
+  const problem = validateAssertion(assertion, action.value);
+  if (problem) {
+    throw new Error(`Verify action: ${problem}`);
+  }
+
+  let handle: ElementHandle<Element> | null = null;
+  let selectorUsed: string | undefined;
+  if (assertionNeedsElement(assertion) && action.targetElementId) {
+    try {
+      ({ handle, selectorUsed } = await locate(action.targetElementId, []));
+    } catch (err) {
+      // Gone from the live page — exactly what hidden / absent expect
+      if (!ABSENCE_ASSERTIONS.includes(assertion.type)) throw err;
+    }
+  }
+
+  let result: AssertionResult;
+  try {
+    result = await checkAssertion(page, assertion, action.value ?? "", handle);
+  } finally {
+    await handle?.dispose();
+  }
+
+  return {
+    success: result.passed,
+    error: result.passed ? undefined : result.message,
+    selectorUsed,
+    assertion: result,
+    executionTimeMs: 0,
+  };
+}
+
+/**
+ * Execute a hover action (menus / tooltips that open on mouse-over)
+ */
+async function executeHover(
+  action: Action,
+  page: Page,
+  locate: Locate
+): Promise<ActionResult> {
+  const { handle, selectorUsed } = await locate(action.targetElementId, HOVER_CHECKS);
+  try {
+    await handle.hover();
+  } finally {
+    await handle.dispose();
+  }
+  return { success: true, selectorUsed, executionTimeMs: 0 };
+}
+
+/**
+ * Execute a double-click or right-click action
+ */
+async function executeMouseClick(
+  action: Action,
+  page: Page,
+  locate: Locate,
+  options: { count?: number; button?: "left" | "right" }
+): Promise<ActionResult> {
+  const { handle, selectorUsed } = await locate(action.targetElementId, POINTER_CHECKS);
+  try {
+    await handle.click(options);
+  } finally {
+    await handle.dispose();
+  }
+  return { success: true, selectorUsed, executionTimeMs: 0 };
+}
+
+/**
+ * Execute a key press on the target element (focused first), e.g. "Enter"
+ * or a chord like "Control+A"
+ */
+async function executePress(
+  action: Action,
+  page: Page,
+  locate: Locate
 ): Promise<ActionResult> {
   if (!action.value) {
-    throw new Error("Verify action requires a text to search for");
+    throw new Error("Press action requires a key");
+  }
+  const chord = parseKeyChord(action.value);
+
+  let selectorUsed: string | undefined;
+  if (action.targetElementId) {
+    const resolved = await locate(action.targetElementId, INPUT_CHECKS);
+    selectorUsed = resolved.selectorUsed;
+    try {
+      await resolved.handle.focus();
+    } finally {
+      await resolved.handle.dispose();
+    }
+  }
+
+  for (const modifier of chord.modifiers) await page.keyboard.down(modifier);
+  try {
+    await page.keyboard.press(chord.key);
+  } finally {
+    for (const modifier of [...chord.modifiers].reverse()) await page.keyboard.up(modifier);
+  }
+
+  return { success: true, selectorUsed, executionTimeMs: 0 };
+}
+
+/**
+ * Execute a scroll action (bring the element into view)
+ */
+async function executeScroll(
+  action: Action,
+  page: Page,
+  locate: Locate
+): Promise<ActionResult> {
+  const { handle, selectorUsed } = await locate(action.targetElementId, ["attached"]);
+  try {
+    await handle.scrollIntoView();
+  } finally {
+    await handle.dispose();
   }
+  return { success: true, selectorUsed, executionTimeMs: 0 };
+}
 
-  const pageText = await page.evaluate(() => document.body.innerText);
-  const found = pageText.includes(action.value!);
+/**
+ * Execute a drag-and-drop action — onto `dropTargetElementId`, or by the
+ * "dx,dy" pixel offset in the value (sliders). Uses real mouse movement so
+ * pointer-driven drag libraries see the intermediate moves.
+ */
+async function executeDrag(
+  action: Action,
+  page: Page,
+  locate: Locate
+): Promise<ActionResult> {
+  const offset = parseDragOffset(action.value);
+  if (!offset && !action.dropTargetElementId) {
+    throw new Error(`Drop target "${action.value ?? ""}" not found`);
+  }
 
-  if (!found) {
-    throw new Error(`Verification failed: "${action.value}" not found on page`);
+  const { handle, selectorUsed } = await locate(action.targetElementId, POINTER_CHECKS);
+  let dropHandle: ElementHandle<Element> | undefined;
+  try {
+    const from = await centerOf(handle);
+
+    let to: { x: number; y: number };
+    if (offset) {
+      to = { x: from.x + offset.dx, y: from.y + offset.dy };
+    } else {
+      dropHandle = (await locate(action.dropTargetElementId, DROP_CHECKS)).handle;
+      to = await centerOf(dropHandle);
+    }
+
+    await page.mouse.move(from.x, from.y);
+    await page.mouse.down();
+    await page.mouse.move(to.x, to.y, { steps: DRAG_STEPS });
+    await page.mouse.up();
+  } finally {
+    await handle.dispose();
+    await dropHandle?.dispose();
   }
 
+  return { success: true, selectorUsed, executionTimeMs: 0 };
+}
+
+/**
+ * Execute a check / uncheck action. Idempotent: only clicks when the
+ * checkbox, radio or switch is not already in the wanted state.
+ */
+async function executeCheck(
+  action: Action,
+  page: Page,
+  locate: Locate,
+  checked: boolean
+): Promise<ActionResult> {
+  const { handle, selectorUsed } = await locate(action.targetElementId, POINTER_CHECKS);
+  try {
+    if ((await isChecked(handle)) !== checked) {
+      await handle.click();
+    }
+    if ((await isChecked(handle)) !== checked) {
+      throw new Error(`Element is still ${checked ? "unchecked" : "checked"} after clicking it`);
+    }
+  } finally {
+    await handle.dispose();
+  }
   return {
     success: true,
+    selectorUsed,
+    effect: valueEffect(true, checked ? "element is checked" : "element is unchecked"),
     executionTimeMs: 0,
   };
 }
+
+/**
+ * Execute a clear action (empty an input, textarea or contenteditable)
+ */
+async function executeClear(
+  action: Action,
+  page: Page,
+  locate: Locate
+): Promise<ActionResult> {
+  const { handle, selectorUsed } = await locate(action.targetElementId, POINTER_CHECKS);
+  let effect: EffectResult;
+  try {
+    // Select everything and delete it like a user would, so frameworks see
+    // the key events; fall back to resetting the value directly
+    await handle.click({ count: 3 });
+    await page.keyboard.press("Backspace");
+    await handle.evaluate((el) => {
+      if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
+        if (el.value === "") return;
+        el.value = "";
+      } else if ((el as HTMLElement).isContentEditable) {
+        if (el.textContent === "") return;
+        el.textContent = "";
+      } else {
+        return;
+      }
+      el.dispatchEvent(new Event("input", { bubbles: true }));
+      el.dispatchEvent(new Event("change", { bubbles: true }));
+    });
+    // A controlled input may restore its value from state on re-render
+    const empty = await handle.evaluate(
+      (el) =>
+        new Promise<boolean>((resolve) =>
+          requestAnimationFrame(() =>
+            resolve(
+              el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement
+                ? el.value === ""
+                : (el.textContent ?? "") === ""
+            )
+          )
+        )
+    );
+    effect = valueEffect(empty, empty ? "field is empty" : "field was refilled by the page");
+  } finally {
+    await handle.dispose();
+  }
+  return { success: true, selectorUsed, effect, executionTimeMs: 0 };
+}
+
+/**
+ * Execute a focus action
+ */
+async function executeFocus(
+  action: Action,
+  page: Page,
+  locate: Locate
+): Promise<ActionResult> {
+  const { handle, selectorUsed } = await locate(action.targetElementId, INPUT_CHECKS);
+  try {
+    await handle.focus();
+  } finally {
+    await handle.dispose();
+  }
+  return { success: true, selectorUsed, executionTimeMs: 0 };
+}
+
+/**
+ * Execute a file upload from the fixture directory. Works on the file input
+ * itself, or on a button that opens the native file chooser.
+ */
+async function executeUpload(
+  action: Action,
+  page: Page,
+  locate: Locate
+): Promise<ActionResult> {
+  if (!action.value) {
+    throw new Error("Upload action requires a fixture file name");
+  }
+  const files = await Promise.all(splitFixtureNames(action.value).map(resolveFixturePath));
+
+  // File inputs are usually hidden behind a styled button, so only the
+  // button that opens the chooser has to be clickable
+  const { handle, selectorUsed } = await locate(action.targetElementId, ["attached"]);
+  try {
+    const isFileInput = await handle.evaluate((el) => el instanceof HTMLInputElement && el.type === "file");
+    if (isFileInput) {
+      await (handle as ElementHandle<HTMLInputElement>).uploadFile(...files);
+    } else {
+      await ensureActionable(handle, POINTER_CHECKS);
+      const [chooser] = await Promise.all([page.waitForFileChooser({ timeout: 5000 }), handle.click()]);
+      await chooser.accept(files);
+    }
+  } finally {
+    await handle.dispose();
+  }
+  return { success: true, selectorUsed, executionTimeMs: 0 };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const DRAG_STEPS = 12; // Intermediate mouse moves while dragging
+const SLOW_TYPE_DELAY_MS = 30; // Per key, when a fast type() did not land
+
+// Friendly key names → Puppeteer key names (matched case-insensitively)
+const KEY_ALIASES: Record<string, string> = {
+  ctrl: "Control",
+  control: "Control",
+  cmd: "Meta",
+  command: "Meta",
+  meta: "Meta",
+  win: "Meta",
+  alt: "Alt",
+  option: "Alt",
+  shift: "Shift",
+  esc: "Escape",
+  return: "Enter",
+  del: "Delete",
+  space: "Space",
+  up: "ArrowUp",
+  down: "ArrowDown",
+  left: "ArrowLeft",
+  right: "ArrowRight",
+  pgup: "PageUp",
+  pgdn: "PageDown",
+};
+const MODIFIER_KEYS = new Set(["Control", "Meta", "Alt", "Shift"]);
+const NAMED_KEYS = [
+  "Enter",
+  "Tab",
+  "Escape",
+  "Backspace",
+  "Delete",
+  "Insert",
+  "Space",
+  "Home",
+  "End",
+  "PageUp",
+  "PageDown",
+  "ArrowUp",
+  "ArrowDown",
+  "ArrowLeft",
+  "ArrowRight",
+  ...Array.from({ length: 12 }, (_, i) => `F${i + 1}`),
+];
+
+export interface KeyChord {
+  modifiers: KeyInput[];
+  key: KeyInput;
+}
+
+/**
+ * Parse "Enter", "Ctrl+A" or "Shift+Tab" into modifiers + key.
+ * Throws on anything Puppeteer's keyboard cannot press.
+ */
+export function parseKeyChord(value: string): KeyChord {
+  const parts = value.split("+").map((p) => p.trim());
+  // "Control++" → the last key is "+"
+  if (parts.length > 1 && parts[parts.length - 1] === "" && parts[parts.length - 2] === "") {
+    parts.splice(parts.length - 2, 2, "+");
+  }
+  if (parts.some((p) => p === "")) {
+    throw new Error(`Invalid key "${value}"`);
+  }
+
+  const names = parts.map(normalizeKeyName);
+  const key = names.pop()!;
+  for (const modifier of names) {
+    if (!MODIFIER_KEYS.has(modifier)) {
+      throw new Error(`Invalid key "${value}": "${modifier}" is not a modifier (Control, Shift, Alt, Meta)`);
+    }
+  }
+  return { modifiers: names as KeyInput[], key: key as KeyInput };
+}
+
+function normalizeKeyName(name: string): string {
+  const alias = KEY_ALIASES[name.toLowerCase()];
+  if (alias) return alias;
+  // Letters are pressed lower-case so a chord like Ctrl+A doesn't imply Shift
+  if (name.length === 1) return name.toLowerCase();
+  const named = NAMED_KEYS.find((k) => k.toLowerCase() === name.toLowerCase());
+  if (!named) throw new Error(`Unknown key "${name}"`);
+  return named;
+}
+
+/**
+ * "120,0" / "-40, 15" → pixel offset for a drag; anything else is a drop
+ * target descriptor
+ */
+export function parseDragOffset(value: string | undefined): { dx: number; dy: number } | null {
+  const match = value?.trim().match(/^(-?\d+)\s*,\s*(-?\d+)$/);
+  return match ? { dx: Number(match[1]), dy: Number(match[2]) } : null;
+}
+
+/**
+ * Fixture names of an upload value ("a.pdf, b.png" → two files)
+ */
+export function splitFixtureNames(value: string): string[] {
+  return value
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean);
+}
+
+/**
+ * True when a fixture name stays inside the fixture directory
+ */
+export function isValidFixtureName(name: string): boolean {
+  const dir = fixturesDir();
+  const resolved = path.resolve(dir, name);
+  return !path.isAbsolute(name) && resolved.startsWith(dir + path.sep);
+}
+
+/**
+ * Absolute path of an existing fixture file
+ */
+export async function resolveFixturePath(name: string): Promise<string> {
+  if (!isValidFixtureName(name)) {
+    throw new Error(`Invalid fixture "${name}": must be a file inside the fixture directory`);
+  }
+  const file = path.resolve(fixturesDir(), name);
+  try {
+    await access(file);
+  } catch {
+    throw new Error(`Fixture "${name}" not found in ${fixturesDir()}`);
+  }
+  return file;
+}
+
+function fixturesDir(): string {
+  return path.resolve(process.env.FIXTURES_DIR || "fixtures");
+}
+
+async function centerOf(handle: ElementHandle<Element>): Promise<{ x: number; y: number }> {
+  const box = await handle.boundingBox();
+  if (!box) throw new Error("Element is not visible");
+  return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+}
+
+// Select all of an input's / contenteditable's content so the next key replaces it
+async function selectContents(handle: ElementHandle<Element>): Promise<void> {
+  await handle.focus();
+  await handle.evaluate((el) => {
+    if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
+      el.select();
+    } else {
+      const range = el.ownerDocument.createRange();
+      range.selectNodeContents(el);
+      const selection = el.ownerDocument.getSelection();
+      selection?.removeAllRanges();
+      selection?.addRange(range);
+    }
+  });
+}
+
+// Native checked state, or aria-checked for custom checkboxes / switches
+async function isChecked(handle: ElementHandle<Element>): Promise<boolean> {
+  return handle.evaluate((el) =>
+    el instanceof HTMLInputElement ? el.checked : el.getAttribute("aria-checked") === "true"
+  );
+}
@@ -0,0 +1,242 @@
+// ============================================================================
+// ARCHIVE - Offline Snapshot & Decision Store
+// ============================================================================
+// Every DOMSnapshot a run captures (already secret-masked) is written to the
+// artifact store together with a manifest of the Planner / Healer decisions
+// made on it. replay.ts feeds those snapshots back into the Planner and
+// Healer — no browser, no live site — to debug a bad heal after the fact or
+// regression-test prompt changes against real pages.
+//
+// Layout (ARTIFACTS_DIR, default ./artifacts):
+//   <testSuiteId>/<archiveId>/manifest.json
+//   <testSuiteId>/<archiveId>/snapshots/<key>.json   (snapshot without screenshot)
+//   <testSuiteId>/<archiveId>/snapshots/<key>.png    (screenshot, when captured)
+// archiveId is the run id, suffixed with -row<N> for data-driven iterations.
+// ============================================================================
+
+import { mkdir, readdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import type { DOMSnapshot } from "./observer";
+import type { FlowDefinition, PlanResult, PlanStep } from "./planner";
+import type { LlmHealResult } from "./healer";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DecisionRecord = (
+  | { kind: "plan"; input: { goal: string; maxSteps: number; flows: FlowDefinition[] }; output: PlanResult }
+  | {
+      kind: "phase";
+      input: {
+        goal: string;
+        completedSteps: PlanStep[];
+        pendingSteps: PlanStep[];
+        maxSteps: number;
+        flows: FlowDefinition[];
+      };
+      output: PlanResult;
+    }
+  | {
+      kind: "replan";
+      input: { goal: string; completedSteps: PlanStep[]; failedStep: PlanStep; remainingSteps: PlanStep[] };
+      output: PlanResult;
+    }
+  | { kind: "heal"; input: { descriptor: string; expectedAction: string }; output: LlmHealResult }
+) & {
+  snapshot: string; // Key of the snapshot the decision was made on
+  stepNumber: number | null;
+};
+
+export type ArchivedDecision = DecisionRecord & { recordedAt: string };
+
+export interface ArchivedSnapshot {
+  key: string;
+  url: string;
+  title: string;
+  elements: number;
+  screenshot: boolean;
+  capturedAt: string;
+}
+
+export interface RunManifest {
+  archiveId: string;
+  runId: string;
+  testSuiteId: string;
+  iteration: number | null;
+  goal: string;
+  startUrl: string;
+  model: string;
+  createdAt: string;
+  snapshots: ArchivedSnapshot[];
+  decisions: ArchivedDecision[];
+}
+
+export interface RunArchive {
+  archiveId: string;
+  // Returns the key actually used (suffixed when the key was taken already)
+  saveSnapshot(key: string, snapshot: DOMSnapshot): Promise<string>;
+  saveDecision(decision: DecisionRecord): Promise<void>;
+}
+
+export type RunArchiveSummary = Pick<
+  RunManifest,
+  "archiveId" | "runId" | "iteration" | "goal" | "model" | "createdAt"
+> & { snapshots: number; decisions: number };
+
+// Archived runs kept per suite; older ones are deleted after each run
+const KEEP_ARCHIVES = 10;
+const ARCHIVE_ID_PATTERN = /^[\w-]+$/;
+
+// ============================================================================
+// WRITING
+// ============================================================================
+
+/**
+ * Open the archive for one run (or one iteration of a data-driven run).
+ * Nothing touches the disk until the first snapshot; write failures are
+ * logged and never fail the run.
+ */
+export function openRunArchive(meta: {
+  testSuiteId: string;
+  runId: string;
+  iteration: number | null;
+  goal: string;
+  startUrl: string;
+  model: string;
+}): RunArchive {
+  const archiveId = meta.iteration ? `${meta.runId}-row${meta.iteration}` : meta.runId;
+  const dir = archiveDir(meta.testSuiteId, archiveId);
+  const manifest: RunManifest = {
+    archiveId,
+    runId: meta.runId,
+    testSuiteId: meta.testSuiteId,
+    iteration: meta.iteration,
+    goal: meta.goal,
+    startUrl: meta.startUrl,
+    model: meta.model,
+    createdAt: new Date().toISOString(),
+    snapshots: [],
+    decisions: [],
+  };
+
+  const writeManifest = () => writeFile(path.join(dir, "manifest.json"), JSON.stringify(manifest, null, 2));
+
+  return {
+    archiveId,
+
+    async saveSnapshot(key, snapshot) {
+      let unique = key;
+      for (let n = 2; manifest.snapshots.some((s) => s.key === unique); n++) unique = `${key}-${n}`;
+
+      try {
+        await mkdir(path.join(dir, "snapshots"), { recursive: true });
+        const { screenshot, ...rest } = snapshot;
+        await writeFile(path.join(dir, "snapshots", `${unique}.json`), JSON.stringify(rest));
+        if (screenshot) {
+          await writeFile(path.join(dir, "snapshots", `${unique}.png`), Buffer.from(screenshot, "base64"));
+        }
+        manifest.snapshots.push({
+          key: unique,
+          url: snapshot.url,
+          title: snapshot.title,
+          elements: snapshot.actionableElements.length,
+          screenshot: !!screenshot,
+          capturedAt: new Date(snapshot.timestamp).toISOString(),
+        });
+        await writeManifest();
+      } catch (err) {
+        console.warn(`⚠️  Archive: failed to save snapshot "${unique}":`, err);
+      }
+      return unique;
+    },
+
+    async saveDecision(decision) {
+      try {
+        manifest.decisions.push({ ...decision, recordedAt: new Date().toISOString() } as ArchivedDecision);
+        await mkdir(dir, { recursive: true });
+        await writeManifest();
+      } catch (err) {
+        console.warn(`⚠️  Archive: failed to save ${decision.kind} decision:`, err);
+      }
+    },
+  };
+}
+
+/**
+ * Keep only the newest KEEP_ARCHIVES archives of a suite
+ */
+export async function pruneRunArchives(testSuiteId: string): Promise<void> {
+  try {
+    const archives = await listRunArchives(testSuiteId);
+    for (const stale of archives.slice(KEEP_ARCHIVES)) {
+      await rm(archiveDir(testSuiteId, stale.archiveId), { recursive: true, force: true });
+    }
+  } catch (err) {
+    console.warn("⚠️  Archive: failed to prune old archives:", err);
+  }
+}
+
+// ============================================================================
+// READING
+// ============================================================================
+
+/**
+ * Archived runs of a suite, newest first
+ */
+export async function listRunArchives(testSuiteId: string): Promise<RunArchiveSummary[]> {
+  let entries: string[];
+  try {
+    entries = await readdir(suiteDir(testSuiteId));
+  } catch {
+    return []; // Nothing archived yet
+  }
+
+  const summaries: RunArchiveSummary[] = [];
+  for (const archiveId of entries) {
+    try {
+      const manifest = await readManifest(testSuiteId, archiveId);
+      summaries.push({
+        archiveId: manifest.archiveId,
+        runId: manifest.runId,
+        iteration: manifest.iteration,
+        goal: manifest.goal,
+        model: manifest.model,
+        createdAt: manifest.createdAt,
+        snapshots: manifest.snapshots.length,
+        decisions: manifest.decisions.length,
+      });
+    } catch {
+      // Half-written or foreign directory — skip
+    }
+  }
+  return summaries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function readManifest(testSuiteId: string, archiveId: string): Promise<RunManifest> {
+  return JSON.parse(await readFile(path.join(archiveDir(testSuiteId, archiveId), "manifest.json"), "utf8"));
+}
+
+export async function readSnapshot(testSuiteId: string, archiveId: string, key: string): Promise<DOMSnapshot> {
+  const raw = JSON.parse(
+    await readFile(path.join(archiveDir(testSuiteId, archiveId), "snapshots", `${key}.json`), "utf8")
+  );
+  return { ...raw, timestamp: new Date(raw.timestamp) };
+}
+
+export function isValidArchiveId(archiveId: string): boolean {
+  return ARCHIVE_ID_PATTERN.test(archiveId);
+}
+
+// ============================================================================
+// PATHS
+// ============================================================================
+
+function suiteDir(testSuiteId: string): string {
+  return path.join(path.resolve(process.env.ARTIFACTS_DIR || "artifacts"), testSuiteId);
+}
+
+function archiveDir(testSuiteId: string, archiveId: string): string {
+  if (!isValidArchiveId(archiveId)) throw new Error(`Invalid archive id "${archiveId}"`);
+  return path.join(suiteDir(testSuiteId), archiveId);
+}
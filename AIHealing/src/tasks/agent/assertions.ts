@@ -0,0 +1,299 @@
+// ============================================================================
+// ASSERTIONS - Structured Checks for "verify" Steps
+// ============================================================================
+// A verify step used to pass whenever its text appeared anywhere on the page.
+// A step's `assertion` now says what to check; the expected value is the
+// step's expectedValue (so {{placeholders}} keep working):
+//   Page     — textIncludes (default), urlMatches, titleMatches
+//   Element  — visible, hidden, absent, checked, unchecked, disabled, enabled,
+//              valueEquals, attributeEquals, textMatches, count
+// "…Matches" / textIncludes values are substrings, or /regex/flags.
+// count compares how many elements are shaped like the target (same tag,
+// classes and role), e.g. "3" or ">=1".
+// Every check reports expected vs. actual, stored on the Step row.
+// ============================================================================
+
+import type { ElementHandle, Page } from "puppeteer";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AssertionType =
+  | "textIncludes"
+  | "urlMatches"
+  | "titleMatches"
+  | "visible"
+  | "hidden"
+  | "absent"
+  | "checked"
+  | "unchecked"
+  | "disabled"
+  | "enabled"
+  | "valueEquals"
+  | "attributeEquals"
+  | "textMatches"
+  | "count";
+
+export interface StepAssertion {
+  type: AssertionType;
+  attribute?: string; // attributeEquals: name of the attribute to compare
+}
+
+export interface AssertionResult {
+  type: AssertionType;
+  passed: boolean;
+  expected: string;
+  actual: string;
+  message: string;
+  countSelector?: string; // count: selector the elements were counted by
+}
+
+// Allowed values for StepAssertion.type (used to validate edited plans)
+export const ASSERTION_TYPES: AssertionType[] = [
+  "textIncludes",
+  "urlMatches",
+  "titleMatches",
+  "visible",
+  "hidden",
+  "absent",
+  "checked",
+  "unchecked",
+  "disabled",
+  "enabled",
+  "valueEquals",
+  "attributeEquals",
+  "textMatches",
+  "count",
+];
+
+// Verify steps without an assertion keep the original behaviour
+export const DEFAULT_ASSERTION: StepAssertion = { type: "textIncludes" };
+
+// Checked against the page itself — no target element is resolved
+const PAGE_ASSERTIONS: AssertionType[] = ["textIncludes", "urlMatches", "titleMatches"];
+
+// Pass when no element on the page matches the descriptor
+export const ABSENCE_ASSERTIONS: AssertionType[] = ["hidden", "absent"];
+
+// Need an expectedValue
+export const VALUE_ASSERTIONS: AssertionType[] = [
+  "textIncludes",
+  "urlMatches",
+  "titleMatches",
+  "valueEquals",
+  "attributeEquals",
+  "textMatches",
+  "count",
+];
+
+const COUNT_PATTERN = /^\s*(>=|<=|>|<|=)?\s*(\d+)\s*$/;
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/;
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export function assertionNeedsElement(assertion: StepAssertion): boolean {
+  return !PAGE_ASSERTIONS.includes(assertion.type);
+}
+
+/**
+ * Assertion from planner / editor input; undefined when absent or malformed
+ */
+export function parseAssertion(raw: any): StepAssertion | undefined {
+  if (!raw || !ASSERTION_TYPES.includes(raw.type)) return undefined;
+  const attribute = typeof raw.attribute === "string" ? raw.attribute.trim() : "";
+  return raw.type === "attributeEquals" ? { type: raw.type, attribute } : { type: raw.type };
+}
+
+/**
+ * Problem with an assertion + expected value, or null when it can run.
+ * Values with {{placeholders}} are only known per data row, so their
+ * format is not checked here.
+ */
+export function validateAssertion(assertion: StepAssertion, expected: string | undefined): string | null {
+  if (VALUE_ASSERTIONS.includes(assertion.type) && !expected) {
+    return `"${assertion.type}" needs an expected value`;
+  }
+  if (assertion.type === "attributeEquals" && !assertion.attribute) {
+    return `"attributeEquals" needs an attribute name`;
+  }
+  if (!expected || expected.includes("{{")) return null;
+  if (assertion.type === "count" && !COUNT_PATTERN.test(expected)) {
+    return `count "${expected}" must be a number, optionally prefixed with >=, <=, > or <`;
+  }
+  const regex = expected.match(REGEX_PATTERN);
+  if (regex) {
+    try {
+      new RegExp(regex[1], regex[2]);
+    } catch {
+      return `invalid regular expression ${expected}`;
+    }
+  }
+  return null;
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Run an assertion against the live page. `handle` is the resolved target
+ * element (null when it could not be found — only absence checks pass then).
+ */
+export async function checkAssertion(
+  page: Page,
+  assertion: StepAssertion,
+  expected: string,
+  handle: ElementHandle<Element> | null
+): Promise<AssertionResult> {
+  const result = (passed: boolean, expectedLabel: string, actual: string, extra: Partial<AssertionResult> = {}) => ({
+    type: assertion.type,
+    passed,
+    expected: expectedLabel,
+    actual,
+    message: passed ? "" : `Assertion ${assertion.type} failed: expected ${expectedLabel}, got ${actual}`,
+    ...extra,
+  });
+
+  switch (assertion.type) {
+    case "textIncludes": {
+      const found = await pageTextIncludes(page, expected);
+      return {
+        ...result(found, `page text to include "${expected}"`, found ? "found" : "not found on the page"),
+        // Same wording as before structured assertions existed
+        message: found ? "" : `Verification failed: "${expected}" not found on page`,
+      };
+    }
+    case "urlMatches": {
+      const url = page.url();
+      return result(matchesPattern(url, expected), `URL matching ${expected}`, url);
+    }
+    case "titleMatches": {
+      const title = await page.title();
+      return result(matchesPattern(title, expected), `title matching ${expected}`, `"${title}"`);
+    }
+    case "absent":
+      return result(!handle, "no matching element", handle ? "element is on the page" : "not on the page");
+  }
+
+  if (!handle) {
+    if (assertion.type === "hidden") return result(true, "hidden", "not on the page");
+    return result(false, describeExpected(assertion, expected), "element not found on the page");
+  }
+
+  switch (assertion.type) {
+    case "visible":
+    case "hidden": {
+      const visible = await handle.isVisible();
+      return result(visible === (assertion.type === "visible"), assertion.type, visible ? "visible" : "hidden");
+    }
+    case "checked":
+    case "unchecked": {
+      const checked = await handle.evaluate((el) =>
+        el instanceof HTMLInputElement ? el.checked : el.getAttribute("aria-checked") === "true"
+      );
+      return result(checked === (assertion.type === "checked"), assertion.type, checked ? "checked" : "unchecked");
+    }
+    case "disabled":
+    case "enabled": {
+      const disabled = await handle.evaluate(
+        (el) => (el as HTMLButtonElement).disabled === true || el.getAttribute("aria-disabled") === "true"
+      );
+      return result(disabled === (assertion.type === "disabled"), assertion.type, disabled ? "disabled" : "enabled");
+    }
+    case "valueEquals": {
+      const value = await handle.evaluate((el) => ("value" in el ? String((el as HTMLInputElement).value) : null));
+      return result(value === expected, `value "${expected}"`, value === null ? "element has no value" : `"${value}"`);
+    }
+    case "attributeEquals": {
+      const value = await handle.evaluate((el, name) => el.getAttribute(name), assertion.attribute ?? "");
+      return result(
+        value === expected,
+        `${assertion.attribute}="${expected}"`,
+        value === null ? `no ${assertion.attribute} attribute` : `${assertion.attribute}="${value}"`
+      );
+    }
+    case "textMatches": {
+      const text = await handle.evaluate((el) => ((el as HTMLElement).innerText ?? el.textContent ?? "").trim());
+      return result(matchesPattern(text, expected), `text matching ${expected}`, `"${truncate(text, 120)}"`);
+    }
+    case "count": {
+      const { count, selector } = await countSimilar(handle);
+      return result(compareCount(count, expected), `${expected.trim()} × ${selector}`, `${count}`, {
+        countSelector: selector,
+      });
+    }
+  }
+  return result(false, assertion.type, "unsupported assertion");
+}
+
+/**
+ * One-line summary for logs, e.g. `valueEquals: expected value "Jo", got "Jon" ✗`
+ */
+export function formatAssertionResult(result: AssertionResult): string {
+  return `${result.type}: expected ${result.expected}, got ${result.actual} ${result.passed ? "✓" : "✗"}`;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * /regex/flags, or a plain (case-sensitive) substring
+ */
+export function matchesPattern(text: string, pattern: string): boolean {
+  const regex = pattern.match(REGEX_PATTERN);
+  return regex ? new RegExp(regex[1], regex[2]).test(text) : text.includes(pattern);
+}
+
+export function compareCount(count: number, expected: string): boolean {
+  const match = expected.match(COUNT_PATTERN);
+  if (!match) return false;
+  const n = Number(match[2]);
+  switch (match[1]) {
+    case ">=":
+      return count >= n;
+    case "<=":
+      return count <= n;
+    case ">":
+      return count > n;
+    case "<":
+      return count < n;
+    default:
+      return count === n;
+  }
+}
+
+function describeExpected(assertion: StepAssertion, expected: string): string {
+  if (assertion.type === "attributeEquals") return `${assertion.attribute}="${expected}"`;
+  return VALUE_ASSERTIONS.includes(assertion.type) ? `${assertion.type} ${expected}` : assertion.type;
+}
+
+// Embedded content (checkout / auth iframes) counts as part of the page
+async function pageTextIncludes(page: Page, text: string): Promise<boolean> {
+  for (const frame of page.frames()) {
+    try {
+      const frameText = await frame.evaluate(() => document.body?.innerText ?? "");
+      if (frameText.includes(text)) return true;
+    } catch {
+      // Detached frame — ignore
+    }
+  }
+  return false;
+}
+
+// Elements in the target's document with the same tag, classes and role
+async function countSimilar(handle: ElementHandle<Element>): Promise<{ count: number; selector: string }> {
+  return handle.evaluate((el) => {
+    const classes = Array.from(el.classList).map((c) => `.${CSS.escape(c)}`).join("");
+    const role = el.getAttribute("role");
+    const selector = `${el.tagName.toLowerCase()}${classes}${role ? `[role="${CSS.escape(role)}"]` : ""}`;
+    return { count: el.ownerDocument.querySelectorAll(selector).length, selector };
+  });
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
@@ -0,0 +1,186 @@
+// ============================================================================
+// DRIFT - Structural Page Fingerprints & Diffs Between Runs
+// ============================================================================
+// Every executed step stores a compact fingerprint of the page's actionable
+// elements (tag, id, testId, name, classes, text, role, position). Diffing a
+// run's fingerprints against the last passing run explains WHY a selector
+// had to be healed: which elements appeared or vanished, which ids / classes
+// / test ids were renamed, whose text changed and what moved.
+// ============================================================================
+
+import type { ActionableElement, DOMSnapshot } from "./observer";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ElementFingerprint {
+  tag: string;
+  id?: string;
+  testId?: string;
+  name?: string;
+  classes?: string[];
+  text?: string; // Accessible name or visible text (truncated)
+  role?: string;
+  x: number;
+  y: number;
+}
+
+export interface PageFingerprint {
+  url: string;
+  elements: ElementFingerprint[];
+}
+
+export type DriftField = "id" | "testId" | "name" | "classes" | "text" | "position";
+
+export interface FieldChange {
+  field: DriftField;
+  from: string;
+  to: string;
+}
+
+export interface ElementDrift {
+  element: string; // Human label of the element as it looks now
+  changes: FieldChange[];
+}
+
+export interface PageDrift {
+  added: string[];
+  removed: string[];
+  changed: ElementDrift[];
+}
+
+// Keep stored fingerprints and reports small
+const MAX_ELEMENTS = 300;
+const MAX_LISTED = 50;
+const MOVE_THRESHOLD_PX = 40;
+const MIN_MATCH_SCORE = 3;
+
+// ============================================================================
+// FINGERPRINTS
+// ============================================================================
+
+export function fingerprintSnapshot(snapshot: DOMSnapshot): PageFingerprint {
+  return {
+    url: snapshot.url,
+    elements: snapshot.actionableElements.slice(0, MAX_ELEMENTS).map(fingerprintElement),
+  };
+}
+
+function fingerprintElement(el: ActionableElement): ElementFingerprint {
+  const classes = (el.attributes.class || "").split(/\s+/).filter(Boolean).slice(0, 6);
+  const text = (el.accessibleName || el.text || "").trim().replace(/\s+/g, " ").slice(0, 60);
+  return {
+    tag: el.tagName,
+    id: el.attributes.id || undefined,
+    testId: el.selectors.testId,
+    name: el.attributes.name || undefined,
+    classes: classes.length > 0 ? classes : undefined,
+    text: text || undefined,
+    role: el.accessibility?.role ?? el.attributes.role ?? undefined,
+    x: Math.round(el.position.x),
+    y: Math.round(el.position.y),
+  };
+}
+
+/**
+ * Short label for an element, e.g.  button#submit "Sign in"
+ */
+export function describeFingerprint(fp: ElementFingerprint): string {
+  const anchor = fp.testId ? `[data-testid="${fp.testId}"]` : fp.id ? `#${fp.id}` : fp.name ? `[name="${fp.name}"]` : "";
+  return `${fp.tag}${anchor}${fp.text ? ` "${fp.text}"` : ""}`;
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * Diff two fingerprints of the same step. Elements are paired greedily by a
+ * similarity score (same tag required); unpaired ones are added / removed.
+ */
+export function diffFingerprints(baseline: PageFingerprint, current: PageFingerprint): PageDrift {
+  const pairs: { b: number; c: number; score: number }[] = [];
+  baseline.elements.forEach((b, bi) => {
+    current.elements.forEach((c, ci) => {
+      if (b.tag !== c.tag) return;
+      const score = matchScore(b, c);
+      if (score >= MIN_MATCH_SCORE) pairs.push({ b: bi, c: ci, score });
+    });
+  });
+  pairs.sort((p, q) => q.score - p.score);
+
+  const matchedBaseline = new Set<number>();
+  const matchedCurrent = new Set<number>();
+  const changed: ElementDrift[] = [];
+
+  for (const { b, c } of pairs) {
+    if (matchedBaseline.has(b) || matchedCurrent.has(c)) continue;
+    matchedBaseline.add(b);
+    matchedCurrent.add(c);
+
+    const changes = compareElements(baseline.elements[b], current.elements[c]);
+    if (changes.length > 0) {
+      changed.push({ element: describeFingerprint(current.elements[c]), changes });
+    }
+  }
+
+  return {
+    added: current.elements
+      .filter((_, i) => !matchedCurrent.has(i))
+      .map(describeFingerprint)
+      .slice(0, MAX_LISTED),
+    removed: baseline.elements
+      .filter((_, i) => !matchedBaseline.has(i))
+      .map(describeFingerprint)
+      .slice(0, MAX_LISTED),
+    changed: changed.slice(0, MAX_LISTED),
+  };
+}
+
+export function hasDrift(drift: PageDrift): boolean {
+  return drift.added.length > 0 || drift.removed.length > 0 || drift.changed.length > 0;
+}
+
+function matchScore(b: ElementFingerprint, c: ElementFingerprint): number {
+  let score = 0;
+  if (b.testId && b.testId === c.testId) score += 5;
+  if (b.id && b.id === c.id) score += 4;
+  if (b.name && b.name === c.name) score += 3;
+  if (b.text && b.text === c.text) score += 3;
+  if (b.role && b.role === c.role) score += 1;
+  score += 2 * jaccard(b.classes ?? [], c.classes ?? []);
+  if (Math.hypot(b.x - c.x, b.y - c.y) < MOVE_THRESHOLD_PX) score += 1;
+  return score;
+}
+
+function compareElements(b: ElementFingerprint, c: ElementFingerprint): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const scalar = (field: DriftField, from: string | undefined, to: string | undefined) => {
+    if ((from ?? "") !== (to ?? "")) changes.push({ field, from: from ?? "", to: to ?? "" });
+  };
+
+  scalar("id", b.id, c.id);
+  scalar("testId", b.testId, c.testId);
+  scalar("name", b.name, c.name);
+
+  const before = b.classes ?? [];
+  const after = c.classes ?? [];
+  if (before.join(" ") !== after.join(" ")) {
+    changes.push({ field: "classes", from: before.join(" "), to: after.join(" ") });
+  }
+
+  scalar("text", b.text, c.text);
+
+  if (Math.hypot(b.x - c.x, b.y - c.y) >= MOVE_THRESHOLD_PX) {
+    changes.push({ field: "position", from: `${b.x},${b.y}`, to: `${c.x},${c.y}` });
+  }
+  return changes;
+}
+
+function jaccard(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 0;
+  const setB = new Set(b);
+  const intersection = a.filter((x) => setB.has(x)).length;
+  return intersection / (a.length + b.length - intersection);
+}
@@ -0,0 +1,196 @@
+// ============================================================================
+// EFFECTS - Did the Action Actually Do Anything?
+// ============================================================================
+// Puppeteer happily clicks a dead element. After a successful click,
+// double/right-click, key press or drag we watch for something a user would
+// notice, for up to EFFECT_WINDOW_MS:
+//   navigation  the URL changed, or the document was replaced
+//   dom         the DOM near the target mutated (NEAR_DEPTH ancestors up),
+//               or a node was added to / removed from <body> (portals)
+//   dialog      alert / confirm / prompt opened
+//   popup       a new tab or window opened
+//   request     a fetch / XHR / document request was sent
+//   focus       focus moved to another element (or into the clicked field)
+// Value actions (type, select, clear, check, uncheck) instead confirm the
+// value landed in the element — controlled inputs can drop keystrokes.
+// No signal (after one retry of the action) = the step is suspicious: not
+// failed, not counted as successful — and the run cannot pass.
+// ============================================================================
+
+import type { ElementHandle, HTTPRequest, Page } from "puppeteer";
+import type { ActionType } from "./thinker";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type EffectSignal = "navigation" | "dom" | "dialog" | "popup" | "request" | "focus" | "value";
+
+export interface EffectResult {
+  observed: boolean;
+  signals: EffectSignal[];
+  detail: string; // What was seen, or what was watched for when nothing was
+}
+
+export interface EffectWatcher {
+  // Wait (up to EFFECT_WINDOW_MS) for a signal, then stop listening
+  settle(): Promise<EffectResult>;
+  // Stop listening without a result (the action failed)
+  stop(): Promise<void>;
+}
+
+// Actions that must change something observable. hover / scroll / focus may
+// legitimately change nothing; wait / navigate / verify are checked elsewhere.
+export const EFFECT_ACTIONS: ActionType[] = ["click", "dblclick", "rightclick", "press", "drag"];
+
+const EFFECT_WINDOW_MS = 1500;
+const POLL_MS = 100;
+const NEAR_DEPTH = 3;
+const REQUEST_TYPES = ["fetch", "xhr", "document"];
+
+// In-page state of the mutation watcher
+interface DomWatchState {
+  mutations: number;
+  focusMoved: boolean;
+  stop(): void;
+}
+
+// ============================================================================
+// WATCHING
+// ============================================================================
+
+/**
+ * Start watching for the effects of acting on `target`. Call before the
+ * action, then settle() once it returned.
+ */
+export async function watchEffects(page: Page, target: ElementHandle<Element>): Promise<EffectWatcher> {
+  const signals = new Set<EffectSignal>();
+  const startUrl = page.url();
+
+  const onFrameNavigated = (frame: unknown) => {
+    if (frame === page.mainFrame() && page.url() !== startUrl) signals.add("navigation");
+  };
+  const onDialog = () => signals.add("dialog");
+  const onPopup = () => signals.add("popup");
+  const onRequest = (request: HTTPRequest) => {
+    if (REQUEST_TYPES.includes(request.resourceType())) signals.add("request");
+  };
+
+  // Observes the target's neighbourhood plus <body>'s direct children, and
+  // whether focus leaves the target
+  const dom = await target.evaluateHandle((el, depth): DomWatchState => {
+    let scope: Element = el;
+    for (let i = 0; i < depth && scope.parentElement && scope.parentElement !== el.ownerDocument.body; i++) {
+      scope = scope.parentElement;
+    }
+    const doc = el.ownerDocument;
+    const focusedBefore = doc.activeElement;
+    const editable =
+      el instanceof HTMLInputElement ||
+      el instanceof HTMLTextAreaElement ||
+      el instanceof HTMLSelectElement ||
+      (el as HTMLElement).isContentEditable;
+
+    const state = {
+      mutations: 0,
+      focusMoved: false,
+      stop: () => {},
+    };
+    const observer = new MutationObserver((records) => {
+      state.mutations += records.length;
+    });
+    observer.observe(scope, { subtree: true, childList: true, attributes: true, characterData: true });
+    if (doc.body && scope !== doc.body) observer.observe(doc.body, { childList: true });
+
+    // A dead button still takes focus when clicked — only focus moving
+    // elsewhere (or into a field) counts
+    const onFocus = () => {
+      const active = doc.activeElement;
+      if (active !== focusedBefore && (active !== el || editable)) state.focusMoved = true;
+    };
+    doc.addEventListener("focusin", onFocus, true);
+
+    state.stop = () => {
+      observer.disconnect();
+      doc.removeEventListener("focusin", onFocus, true);
+    };
+    return state;
+  }, NEAR_DEPTH);
+
+  page.on("framenavigated", onFrameNavigated);
+  page.on("dialog", onDialog);
+  page.on("popup", onPopup);
+  page.on("request", onRequest);
+
+  const collect = async () => {
+    if (page.url() !== startUrl) signals.add("navigation");
+    try {
+      const state = await dom.evaluate((s: DomWatchState) => ({ mutations: s.mutations, focusMoved: s.focusMoved }));
+      if (state.mutations > 0) signals.add("dom");
+      if (state.focusMoved) signals.add("focus");
+    } catch {
+      signals.add("navigation"); // Execution context destroyed — the document was replaced
+    }
+  };
+
+  const stop = async () => {
+    page.off("framenavigated", onFrameNavigated);
+    page.off("dialog", onDialog);
+    page.off("popup", onPopup);
+    page.off("request", onRequest);
+    await dom.evaluate((s: DomWatchState) => s.stop()).catch(() => {});
+    await dom.dispose().catch(() => {});
+  };
+
+  return {
+    stop,
+
+    async settle() {
+      const deadline = Date.now() + EFFECT_WINDOW_MS;
+      await collect();
+      while (signals.size === 0 && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, POLL_MS));
+        await collect();
+      }
+      await stop();
+
+      const observed = [...signals];
+      return observed.length > 0
+        ? { observed: true, signals: observed, detail: `observed ${observed.join(", ")}` }
+        : {
+            observed: false,
+            signals: [],
+            detail: `no navigation, DOM change, dialog, popup, request or focus change within ${EFFECT_WINDOW_MS}ms`,
+          };
+    },
+  };
+}
+
+/**
+ * Result of a value check (type, select, clear, check, uncheck)
+ */
+export function valueEffect(landed: boolean, detail: string): EffectResult {
+  return { observed: landed, signals: landed ? ["value"] : [], detail };
+}
+
+/**
+ * True when the element's value (or text, for contenteditable) contains
+ * `text`, ignoring case and punctuation so input masks still match
+ * ("5551234567" → "(555) 123-4567")
+ */
+export async function valueContains(handle: ElementHandle<Element>, text: string): Promise<boolean> {
+  const value = await handle.evaluate((el) =>
+    el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement || el instanceof HTMLSelectElement
+      ? el.value
+      : ((el as HTMLElement).innerText ?? el.textContent ?? "")
+  );
+  return normalize(value).includes(normalize(text));
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+}
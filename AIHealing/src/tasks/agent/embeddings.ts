@@ -59,6 +59,21 @@ export function buildElementText(element: ActionableElement): string {
     }
   }
 
+  // Computed role (axtree observer), accessible name, label and section
+  // context survive restyling and identify unlabelled-looking inputs
+  if (element.accessibility) {
+    parts.push(`axrole:${element.accessibility.role}`);
+  }
+  if (element.accessibleName) {
+    parts.push(`name:"${element.accessibleName}"`);
+  }
+  if (element.labelText && element.labelText !== element.accessibleName) {
+    parts.push(`label:"${element.labelText}"`);
+  }
+  if (element.context) {
+    parts.push(`section:"${element.context}"`);
+  }
+
   // Position context (helps distinguish between similar elements)
   parts.push(`position:${element.position.x},${element.position.y}`);
 
@@ -203,6 +218,60 @@ export async function generateEmbedding(
   }
 }
 
+/**
+ * Embed several texts with one API request (order preserved)
+ */
+export async function generateEmbeddings(
+  texts: string[],
+  config: EmbeddingConfig
+): Promise<number[][]> {
+  if (texts.length === 0) return [];
+
+  if (config.provider === "openai") {
+    if (!config.apiKey) {
+      throw new Error("OpenAI API key required for OpenAI embeddings");
+    }
+    const response = await fetch("https://api.openai.com/v1/embeddings", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${config.apiKey}`,
+      },
+      body: JSON.stringify({ input: texts, model: config.model ?? "text-embedding-3-small" }),
+    });
+    if (!response.ok) {
+      throw new Error(`OpenAI API error: ${response.statusText}`);
+    }
+    const data = await response.json();
+    return data.data.map((d: { embedding: number[] }) => d.embedding);
+  } else if (config.provider === "gemini") {
+    if (!config.apiKey) {
+      throw new Error("Gemini API key required for Gemini embeddings");
+    }
+    const model = config.model ?? "gemini-embedding-001";
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${model}:batchEmbedContents?key=${config.apiKey}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          requests: texts.map((text) => ({ model: `models/${model}`, content: { parts: [{ text }] } })),
+        }),
+      }
+    );
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Gemini API error: ${response.statusText} - ${errorText}`);
+    }
+    const data = await response.json();
+    return data.embeddings.map((e: { values: number[] }) => e.values);
+  } else {
+    return texts.map(generateLocalEmbedding);
+  }
+}
+
 /**
  * Generate embedding for an element
  */
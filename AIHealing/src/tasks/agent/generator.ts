@@ -6,6 +6,9 @@
 // ============================================================================
 
 import type { StepLog } from "./index";
+import { parseDragOffset, parseKeyChord, splitFixtureNames } from "./actor";
+import { DEFAULT_ASSERTION } from "./assertions";
+import { responseContentType, responseStatus, toUrlRegExp, type RequestRule } from "./network";
 
 // ============================================================================
 // TYPES
@@ -18,6 +21,7 @@ export interface ScriptGenerationOptions {
   headless: boolean; // Run in headless mode
   slowMo: number; // Slow down actions (ms)
   timeout: number; // Page timeout
+  requestRules?: RequestRule[]; // Suite request rules, replayed via request interception
 }
 
 export const DEFAULT_OPTIONS: ScriptGenerationOptions = {
@@ -58,6 +62,10 @@ export function generateFinalScript(
   // Imports
   lines.push("const puppeteer = require('puppeteer');");
   lines.push("");
+  pushFrameHelper(lines, logs);
+  pushDragHelper(lines, logs);
+  pushTabHelpers(lines, logs, options.requestRules);
+  pushNetworkHelper(lines, options.requestRules);
 
   // Main function
   lines.push("(async () => {");
@@ -72,11 +80,19 @@ export function generateFinalScript(
     lines.push(`    slowMo: ${options.slowMo},`);
     lines.push("  });");
     lines.push("");
-    lines.push("  const page = await browser.newPage();");
+    lines.push(`  ${followsTabs(logs) ? "let" : "const"} page = await browser.newPage();`);
     lines.push(`  page.setDefaultTimeout(${options.timeout});`);
+    if (hasDialogs(logs)) lines.push("  handleDialogs(page);");
     lines.push("");
   }
 
+  if (hasRequestRules(options.requestRules)) {
+    if (options.includeComments) {
+      lines.push("  // Stub / delay / block / fail requests like the recorded run");
+    }
+    lines.push("  await interceptRequests(page);");
+  }
+
   // Navigation
   if (options.includeComments) {
     lines.push("  // Navigate to start URL");
@@ -89,8 +105,9 @@ export function generateFinalScript(
   lines.push("");
 
   // Process each successful step
+  // Page-level verify steps have no selector
   const successfulSteps = logs.filter(log => 
-    log.action && log.result?.success && log.selectorUsed
+    log.action && log.result?.success && (log.selectorUsed || log.action.type === "verify")
   );
 
   for (let i = 0; i < successfulSteps.length; i++) {
@@ -108,24 +125,25 @@ export function generateFinalScript(
     }
 
     // Generate action code based on type
-    const selectorString = selectorType === "xpath" 
-      ? `::-p-xpath(${selector})`
-      : selector;
+    const selectorString = toSelectorString(selector, selectorType);
+    const on = frameTarget(log);
+    const tabs = tabLines(log, i);
+    lines.push(...tabs.before.map((line) => `  ${line}`));
 
     switch (action.type) {
       case "click":
-        lines.push(`  await page.waitForSelector('${selectorString}');`);
-        lines.push(`  await page.click('${selectorString}');`);
+        lines.push(`  await ${on}.waitForSelector('${selectorString}');`);
+        lines.push(`  await ${on}.click('${selectorString}');`);
         break;
 
       case "type":
-        lines.push(`  await page.waitForSelector('${selectorString}');`);
-        lines.push(`  await page.type('${selectorString}', '${escapeString(action.value || "")}');`);
+        lines.push(`  await ${on}.waitForSelector('${selectorString}');`);
+        lines.push(`  await ${on}.type('${selectorString}', ${valueLiteral(action.value || "")});`);
         break;
 
       case "select":
-        lines.push(`  await page.waitForSelector('${selectorString}');`);
-        lines.push(`  await page.select('${selectorString}', '${escapeString(action.value || "")}');`);
+        lines.push(`  await ${on}.waitForSelector('${selectorString}');`);
+        lines.push(`  await ${on}.select('${selectorString}', ${valueLiteral(action.value || "")});`);
         break;
 
       case "navigate":
@@ -133,20 +151,26 @@ export function generateFinalScript(
         break;
 
       case "verify":
-        lines.push(`  await page.waitForSelector('${selectorString}');`);
-        lines.push(`  console.log('✅ Element verified: ${action.description}');`);
+        lines.push(...assertionLines(log, on, selectorString).map((line) => `  ${line}`));
+        lines.push(`  console.log('✅ Verified: ${escapeString(action.description)}');`);
         break;
 
       case "wait":
-        lines.push(`  await page.waitForSelector('${selectorString}');`);
+        lines.push(`  await ${on}.waitForSelector('${selectorString}');`);
         break;
 
-      default:
-        if (options.includeComments) {
+      default: {
+        const extended = extendedActionLines(log, on, selectorString);
+        if (extended) {
+          lines.push(...extended.map((line) => `  ${line}`));
+        } else if (options.includeComments) {
           lines.push(`  // Unknown action type: ${action.type}`);
         }
+      }
     }
 
+    lines.push(...tabs.after.map((line) => `  ${line}`));
+
     // Add wait between actions
     if (options.includeWaits && i < successfulSteps.length - 1) {
       lines.push("  await page.waitForTimeout(500);");
@@ -213,6 +237,10 @@ export function generateAdvancedScript(
   lines.push("  console.log(`📸 Screenshot saved: ${filename}`);");
   lines.push("}");
   lines.push("");
+  pushFrameHelper(lines, logs);
+  pushDragHelper(lines, logs);
+  pushTabHelpers(lines, logs, options.requestRules);
+  pushNetworkHelper(lines, options.requestRules);
 
   // Main function
   lines.push("(async () => {");
@@ -231,9 +259,15 @@ export function generateAdvancedScript(
     lines.push("");
     lines.push("    page = await browser.newPage();");
     lines.push(`    page.setDefaultTimeout(${options.timeout});`);
+    if (hasDialogs(logs)) lines.push("    handleDialogs(page);");
     lines.push("");
   }
 
+  if (hasRequestRules(options.requestRules)) {
+    lines.push(`    console.log('🕸️ Intercepting requests (${options.requestRules!.length} rule(s))');`);
+    lines.push("    await interceptRequests(page);");
+  }
+
   // Navigation
   lines.push(`    console.log('🌐 Navigating to ${startUrl}...');`);
   lines.push(`    await page.goto('${startUrl}', { waitUntil: 'networkidle0' });`);
@@ -244,35 +278,37 @@ export function generateAdvancedScript(
   lines.push("");
 
   // Process steps
+  // Page-level verify steps have no selector
   const successfulSteps = logs.filter(log => 
-    log.action && log.result?.success && log.selectorUsed
+    log.action && log.result?.success && (log.selectorUsed || log.action.type === "verify")
   );
 
-  for (const log of successfulSteps) {
+  for (const [i, log] of successfulSteps.entries()) {
     const action = log.action!;
     const selector = log.selectorUsed!;
     const selectorType = log.selectorType || "css";
 
     lines.push(`    console.log('📍 Step ${log.stepNumber}: ${action.description}');`);
     
-    const selectorString = selectorType === "xpath" 
-      ? `::-p-xpath(${selector})`
-      : selector;
+    const selectorString = toSelectorString(selector, selectorType);
+    const on = frameTarget(log);
+    const tabs = tabLines(log, i);
+    lines.push(...tabs.before.map((line) => `    ${line}`));
 
     switch (action.type) {
       case "click":
-        lines.push(`    await page.waitForSelector('${selectorString}');`);
-        lines.push(`    await page.click('${selectorString}');`);
+        lines.push(`    await ${on}.waitForSelector('${selectorString}');`);
+        lines.push(`    await ${on}.click('${selectorString}');`);
         break;
 
       case "type":
-        lines.push(`    await page.waitForSelector('${selectorString}');`);
-        lines.push(`    await page.type('${selectorString}', '${escapeString(action.value || "")}');`);
+        lines.push(`    await ${on}.waitForSelector('${selectorString}');`);
+        lines.push(`    await ${on}.type('${selectorString}', ${valueLiteral(action.value || "")});`);
         break;
 
       case "select":
-        lines.push(`    await page.waitForSelector('${selectorString}');`);
-        lines.push(`    await page.select('${selectorString}', '${escapeString(action.value || "")}');`);
+        lines.push(`    await ${on}.waitForSelector('${selectorString}');`);
+        lines.push(`    await ${on}.select('${selectorString}', ${valueLiteral(action.value || "")});`);
         break;
 
       case "navigate":
@@ -280,14 +316,18 @@ export function generateAdvancedScript(
         break;
 
       case "verify":
-        lines.push(`    await page.waitForSelector('${selectorString}');`);
-        lines.push(`    console.log('✅ Element verified');`);
+        lines.push(...assertionLines(log, on, selectorString).map((line) => `    ${line}`));
+        lines.push(`    console.log('✅ Verified');`);
         break;
 
       case "wait":
-        lines.push(`    await page.waitForSelector('${selectorString}');`);
+        lines.push(`    await ${on}.waitForSelector('${selectorString}');`);
         break;
+
+      default:
+        lines.push(...(extendedActionLines(log, on, selectorString) ?? []).map((line) => `    ${line}`));
     }
+    lines.push(...tabs.after.map((line) => `    ${line}`));
 
     if (options.includeWaits) {
       lines.push("    await page.waitForTimeout(500);");
@@ -319,6 +359,417 @@ export function generateAdvancedScript(
   return lines.join("\n");
 }
 
+/**
+ * Statements (unindented) for the hover / keyboard / drag / checkbox / upload
+ * actions; null for action types the generator doesn't know
+ */
+function extendedActionLines(log: StepLog, on: string, selectorString: string): string[] | null {
+  const action = log.action!;
+  const value = action.value || "";
+
+  switch (action.type) {
+    case "hover":
+      return [`await ${on}.waitForSelector('${selectorString}');`, `await ${on}.hover('${selectorString}');`];
+
+    case "dblclick":
+      return [
+        `await ${on}.waitForSelector('${selectorString}');`,
+        `await ${on}.click('${selectorString}', { count: 2 });`,
+      ];
+
+    case "rightclick":
+      return [
+        `await ${on}.waitForSelector('${selectorString}');`,
+        `await ${on}.click('${selectorString}', { button: 'right' });`,
+      ];
+
+    case "focus":
+      return [`await ${on}.waitForSelector('${selectorString}');`, `await ${on}.focus('${selectorString}');`];
+
+    case "scroll":
+      return [`await (await ${on}.waitForSelector('${selectorString}')).scrollIntoView();`];
+
+    case "clear":
+      return [
+        `await ${on}.click('${selectorString}', { count: 3 });`,
+        "await page.keyboard.press('Backspace');",
+      ];
+
+    case "press": {
+      const chord = parseKeyChord(value);
+      return [
+        `await ${on}.focus('${selectorString}');`,
+        ...chord.modifiers.map((m) => `await page.keyboard.down('${m}');`),
+        `await page.keyboard.press('${escapeString(chord.key)}');`,
+        ...[...chord.modifiers].reverse().map((m) => `await page.keyboard.up('${m}');`),
+      ];
+    }
+
+    case "check":
+    case "uncheck":
+      return [
+        "{",
+        `  const box = await ${on}.waitForSelector('${selectorString}');`,
+        "  const checked = await box.evaluate((el) => ('checked' in el ? el.checked : el.getAttribute('aria-checked') === 'true'));",
+        `  if (${action.type === "check" ? "!checked" : "checked"}) await box.click();`,
+        "}",
+      ];
+
+    case "drag": {
+      const offset = parseDragOffset(value);
+      const drop = log.dropTarget;
+      const target = offset
+        ? `{ dx: ${offset.dx}, dy: ${offset.dy} }`
+        : drop
+          ? `await ${frameExpr(drop.framePath)}.waitForSelector('${toSelectorString(drop.selector, drop.selectorType)}')`
+          : null;
+      if (!target) return [`// Drag step without a recorded drop target: ${escapeString(value)}`];
+      return [`await dragAndDrop(page, await ${on}.waitForSelector('${selectorString}'), ${target});`];
+    }
+
+    case "upload": {
+      const files = splitFixtureNames(value)
+        .map((name) => `path.resolve(process.env.FIXTURES_DIR || 'fixtures', '${escapeString(name)}')`)
+        .join(", ");
+      return [
+        "{",
+        "  const path = require('path');",
+        `  const files = [${files}];`,
+        `  const input = await ${on}.waitForSelector('${selectorString}');`,
+        "  if (await input.evaluate((el) => el.type === 'file')) {",
+        "    await input.uploadFile(...files);",
+        "  } else {",
+        "    const [chooser] = await Promise.all([page.waitForFileChooser(), input.click()]);",
+        "    await chooser.accept(files);",
+        "  }",
+        "}",
+      ];
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Statements (unindented) that re-check a verify step's assertion and throw
+ * with expected vs. actual when it fails
+ */
+function assertionLines(log: StepLog, on: string, selectorString: string): string[] {
+  const action = log.action!;
+  const assertion = action.assertion ?? DEFAULT_ASSERTION;
+  const value = action.value || "";
+  const fail = (expected: string, actual: string) =>
+    `throw new Error('Assertion ${assertion.type} failed: expected ${escapeString(expected)}, got ' + ${actual});`;
+  const $eval = (fn: string) => `await ${on}.$eval('${selectorString}', ${fn})`;
+
+  switch (assertion.type) {
+    case "textIncludes":
+      return [
+        "{",
+        "  const text = await page.evaluate(() => document.body.innerText);",
+        `  if (!text.includes(${valueLiteral(value)})) ${fail(`page text to include "${value}"`, "'not found'")}`,
+        "}",
+      ];
+    case "urlMatches":
+      return [`if (!${patternTest("page.url()", value)}) ${fail(`URL matching ${value}`, "page.url()")}`];
+    case "titleMatches":
+      return [
+        "{",
+        "  const title = await page.title();",
+        `  if (!${patternTest("title", value)}) ${fail(`title matching ${value}`, "title")}`,
+        "}",
+      ];
+  }
+
+  if (!log.selectorUsed) {
+    // hidden / absent passed because nothing matched — there is no selector to re-check
+    return [`// ${assertion.type}: "${escapeString(action.description)}" was not on the page when recorded`];
+  }
+
+  switch (assertion.type) {
+    case "visible":
+      return [`await ${on}.waitForSelector('${selectorString}', { visible: true });`];
+    case "hidden":
+      return [`await ${on}.waitForSelector('${selectorString}', { hidden: true });`];
+    case "absent":
+      return [`if (await ${on}.$('${selectorString}')) ${fail("no matching element", "'element is on the page'")}`];
+    case "checked":
+    case "unchecked":
+      return [
+        "{",
+        `  const checked = ${$eval("(el) => ('checked' in el ? el.checked : el.getAttribute('aria-checked') === 'true')")};`,
+        `  if (${assertion.type === "checked" ? "!checked" : "checked"}) ${fail(assertion.type, "(checked ? 'checked' : 'unchecked')")}`,
+        "}",
+      ];
+    case "disabled":
+    case "enabled":
+      return [
+        "{",
+        `  const disabled = ${$eval("(el) => el.disabled === true || el.getAttribute('aria-disabled') === 'true'")};`,
+        `  if (${assertion.type === "disabled" ? "!disabled" : "disabled"}) ${fail(assertion.type, "(disabled ? 'disabled' : 'enabled')")}`,
+        "}",
+      ];
+    case "valueEquals":
+      return [
+        "{",
+        `  const value = ${$eval("(el) => el.value")};`,
+        `  if (value !== ${valueLiteral(value)}) ${fail(`value "${value}"`, "JSON.stringify(value)")}`,
+        "}",
+      ];
+    case "attributeEquals": {
+      const name = escapeString(assertion.attribute ?? "");
+      return [
+        "{",
+        `  const value = ${$eval(`(el) => el.getAttribute('${name}')`)};`,
+        `  if (value !== ${valueLiteral(value)}) ${fail(`${assertion.attribute}="${value}"`, "JSON.stringify(value)")}`,
+        "}",
+      ];
+    }
+    case "textMatches":
+      return [
+        "{",
+        `  const text = ${$eval("(el) => el.innerText.trim()")};`,
+        `  if (!${patternTest("text", value)}) ${fail(`text matching ${value}`, "JSON.stringify(text)")}`,
+        "}",
+      ];
+    case "count": {
+      const countSelector = log.result?.assertion?.countSelector ?? selectorString;
+      const match = value.match(/^\s*(>=|<=|>|<|=)?\s*(\d+)\s*$/);
+      const op = !match?.[1] || match[1] === "=" ? "===" : match[1];
+      return [
+        "{",
+        `  const count = (await ${on}.$$('${escapeString(countSelector)}')).length;`,
+        `  if (!(count ${op} ${match?.[2] ?? 0})) ${fail(`${value.trim()} × ${countSelector}`, "count")}`,
+        "}",
+      ];
+    }
+  }
+  return [];
+}
+
+/**
+ * JS boolean expression: `subject` contains the substring, or matches /regex/flags
+ */
+function patternTest(subject: string, pattern: string): string {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  return regex
+    ? `new RegExp('${escapeString(regex[1])}', '${regex[2]}').test(${subject})`
+    : `${subject}.includes('${escapeString(pattern)}')`;
+}
+
+/**
+ * Puppeteer selector for a stored selector (testId is the raw attribute value)
+ */
+function toSelectorString(selector: string, selectorType: string): string {
+  if (selectorType === "xpath") return `::-p-xpath(${selector})`;
+  if (selectorType === "testId") return `[data-testid="${selector}"]`;
+  return selector;
+}
+
+/**
+ * JS expression for the page or frame a step acts on
+ */
+function frameTarget(log: StepLog): string {
+  return frameExpr(log.framePath);
+}
+
+function frameExpr(framePath: string[] | undefined): string {
+  return framePath && framePath.length > 0 ? `(await frameAt(page, ${JSON.stringify(framePath)}))` : "page";
+}
+
+/**
+ * Emit the frameAt() helper when any step targets an element inside an iframe
+ */
+function pushFrameHelper(lines: string[], logs: StepLog[]): void {
+  const inFrame = (framePath: string[] | undefined) => !!framePath && framePath.length > 0;
+  if (!logs.some((log) => log.result?.success && (inFrame(log.framePath) || inFrame(log.dropTarget?.framePath)))) {
+    return;
+  }
+  lines.push("// Helper: Resolve an iframe path (outermost first) to its Frame");
+  lines.push("async function frameAt(page, framePath) {");
+  lines.push("  let frame = page.mainFrame();");
+  lines.push("  for (const selector of framePath) {");
+  lines.push("    const index = /^@frame:(\\d+)$/.exec(selector); // No unique selector: nth child frame");
+  lines.push("    if (index) {");
+  lines.push("      frame = frame.childFrames()[Number(index[1])];");
+  lines.push("      continue;");
+  lines.push("    }");
+  lines.push("    const owner = await frame.waitForSelector(selector);");
+  lines.push("    frame = await owner.contentFrame();");
+  lines.push("  }");
+  lines.push("  return frame;");
+  lines.push("}");
+  lines.push("");
+}
+
+/**
+ * Emit the dragAndDrop() helper when any step drags. Real mouse moves, so
+ * pointer-driven drag libraries and sliders respond as they do for users.
+ */
+function pushDragHelper(lines: string[], logs: StepLog[]): void {
+  if (!logs.some((log) => log.result?.success && log.action?.type === "drag")) return;
+  lines.push("// Helper: Drag an element onto another element, or by a { dx, dy } pixel offset");
+  lines.push("async function dragAndDrop(page, source, target) {");
+  lines.push("  await source.scrollIntoView();");
+  lines.push("  const from = await source.boundingBox();");
+  lines.push("  const start = { x: from.x + from.width / 2, y: from.y + from.height / 2 };");
+  lines.push("  let end;");
+  lines.push("  if ('dx' in target) {");
+  lines.push("    end = { x: start.x + target.dx, y: start.y + target.dy };");
+  lines.push("  } else {");
+  lines.push("    const to = await target.boundingBox();");
+  lines.push("    end = { x: to.x + to.width / 2, y: to.y + to.height / 2 };");
+  lines.push("  }");
+  lines.push("  await page.mouse.move(start.x, start.y);");
+  lines.push("  await page.mouse.down();");
+  lines.push("  await page.mouse.move(end.x, end.y, { steps: 12 });");
+  lines.push("  await page.mouse.up();");
+  lines.push("}");
+  lines.push("");
+}
+
+/**
+ * Statements (unindented) around a step that opened a tab / popup or whose
+ * popup closed: wait for the popup before acting, switch `page` after
+ */
+function tabLines(log: StepLog, index: number): { before: string[]; after: string[] } {
+  const before: string[] = [];
+  const after: string[] = [];
+  for (const event of log.events ?? []) {
+    if (event.type === "tabOpened") {
+      before.push(`const opened${index} = new Promise((resolve) => page.once('popup', resolve));`);
+      after.push(`page = await followTab(page, opened${index});`);
+    } else if (event.type === "tabClosed") {
+      after.push("page = await returnToOpener(page);");
+    }
+  }
+  return { before, after };
+}
+
+function followsTabs(logs: StepLog[]): boolean {
+  return logs.some((log) => log.result?.success && log.events?.some((e) => e.type !== "dialog"));
+}
+
+function hasDialogs(logs: StepLog[]): boolean {
+  return logs.some((log) => log.events?.some((e) => e.type === "dialog"));
+}
+
+/**
+ * Emit handleDialogs() when the run answered a dialog (answering them the
+ * same way), and followTab() / returnToOpener() when it switched tabs
+ */
+function pushTabHelpers(lines: string[], logs: StepLog[], requestRules?: RequestRule[]): void {
+  if (hasDialogs(logs)) {
+    const dialogs = logs.flatMap((log) => log.events ?? []).filter((e) => e.type === "dialog");
+    const answer = dialogs.find((d) => d.answer !== undefined)?.answer;
+    lines.push("// Helper: Answer browser dialogs the way the recorded run did");
+    lines.push("function handleDialogs(page) {");
+    if (dialogs.some((d) => d.response === "dismissed")) {
+      lines.push("  page.on('dialog', (dialog) => dialog.dismiss());");
+    } else if (answer !== undefined) {
+      lines.push("  page.on('dialog', (dialog) =>");
+      lines.push(`    dialog.type() === 'prompt' ? dialog.accept(${valueLiteral(answer)}) : dialog.accept()`);
+      lines.push("  );");
+    } else {
+      lines.push("  page.on('dialog', (dialog) => dialog.accept());");
+    }
+    lines.push("}");
+    lines.push("");
+  }
+
+  if (!followsTabs(logs)) return;
+  lines.push("// Helper: Follow the tab / popup a step opened; return to its opener once it closes");
+  lines.push("const openers = [];");
+  lines.push("async function followTab(page, opened) {");
+  lines.push("  openers.push(page);");
+  lines.push("  const tab = await opened;");
+  if (hasDialogs(logs)) lines.push("  handleDialogs(tab);");
+  if (hasRequestRules(requestRules)) lines.push("  await interceptRequests(tab);");
+  lines.push("  await tab.bringToFront();");
+  lines.push("  await tab.waitForNetworkIdle();");
+  lines.push("  return tab;");
+  lines.push("}");
+  lines.push("async function returnToOpener(page) {");
+  lines.push("  if (!page.isClosed()) await new Promise((resolve) => page.once('close', resolve));");
+  lines.push("  const opener = openers.pop();");
+  lines.push("  await opener.bringToFront();");
+  lines.push("  return opener;");
+  lines.push("}");
+  lines.push("");
+}
+
+function hasRequestRules(rules: RequestRule[] | undefined): rules is RequestRule[] {
+  return !!rules && rules.length > 0;
+}
+
+/**
+ * Emit REQUEST_RULES and interceptRequests() when the suite has request
+ * rules. Stub bodies are read from FIXTURES_DIR when the script runs.
+ */
+function pushNetworkHelper(lines: string[], rules: RequestRule[] | undefined): void {
+  if (!hasRequestRules(rules)) return;
+  lines.push("// Helper: Intercept requests with the suite's request rules (first match wins)");
+  lines.push("const REQUEST_RULES = [");
+  for (const rule of rules) {
+    const fields = [`url: ${toUrlRegExp(rule.url).toString()}`];
+    if (rule.method) fields.push(`method: '${rule.method}'`);
+    fields.push(`action: '${rule.action}'`);
+    if (rule.action === "delay") fields.push(`delayMs: ${rule.delayMs ?? 0}`);
+    if (rule.action === "stub" || rule.action === "fail") {
+      fields.push(`status: ${responseStatus(rule)}`);
+      fields.push(`contentType: '${escapeString(responseContentType(rule))}'`);
+      if (rule.fixture) fields.push(`fixture: '${escapeString(rule.fixture)}'`);
+    }
+    lines.push(`  { ${fields.join(", ")} },`);
+  }
+  lines.push("];");
+  lines.push("async function interceptRequests(page) {");
+  lines.push("  const fs = require('fs');");
+  lines.push("  const path = require('path');");
+  lines.push("  await page.setRequestInterception(true);");
+  lines.push("  page.on('request', async (request) => {");
+  lines.push("    const rule = REQUEST_RULES.find(");
+  lines.push("      (r) => r.url.test(request.url()) && (!r.method || r.method === request.method())");
+  lines.push("    );");
+  lines.push("    try {");
+  lines.push("      if (!rule) return await request.continue();");
+  lines.push("      if (rule.action === 'block') return await request.abort('blockedbyclient');");
+  lines.push("      if (rule.action === 'delay') {");
+  lines.push("        await new Promise((resolve) => setTimeout(resolve, rule.delayMs));");
+  lines.push("        return await request.continue();");
+  lines.push("      }");
+  lines.push("      await request.respond({");
+  lines.push("        status: rule.status,");
+  lines.push("        contentType: rule.contentType,");
+  lines.push("        headers: { 'access-control-allow-origin': request.headers()['origin'] || '*' },");
+  lines.push("        body: rule.fixture");
+  lines.push("          ? fs.readFileSync(path.resolve(process.env.FIXTURES_DIR || 'fixtures', rule.fixture))");
+  lines.push("          : '',");
+  lines.push("      });");
+  lines.push("    } catch {");
+  lines.push("      // Request cancelled or the page closed");
+  lines.push("    }");
+  lines.push("  });");
+  lines.push("}");
+  lines.push("");
+}
+
+/**
+ * JS expression for a typed / selected value. {{secret.NAME}} placeholders
+ * become process.env.NAME so the exported script never contains plaintext.
+ */
+function valueLiteral(value: string): string {
+  const parts = value.split(/\{\{\s*secret\.([\w-]+)\s*\}\}/);
+  if (parts.length === 1) return `'${escapeString(value)}'`;
+
+  // split() with a capture group alternates literal text / secret name
+  return parts
+    .map((part, i) => (i % 2 === 1 ? `process.env[${JSON.stringify(part)}]` : `'${escapeString(part)}'`))
+    .filter((expr) => expr !== "''")
+    .join(" + ");
+}
+
 /**
  * Escape special characters in strings for JavaScript
  */
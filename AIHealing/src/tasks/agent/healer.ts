@@ -1,330 +1,317 @@
 // ============================================================================
-// HEALER MODULE — LLM-based Healing (Plan-then-Execute architecture)
+// HEALER MODULE — Tiered Healing (Plan-then-Execute architecture)
 // ============================================================================
-// CURRENT (used by planExecute.ts):
-//   llmHeal(descriptor, expectedAction, candidates, model)
-//     → asks the LLM "which element on this page satisfies this user intent?"
-//     → returns an element id + confidence
-//
-// LEGACY (commented-out below for reference):
-//   healSelector + 4 strategies (Vector DB, exact text, Levenshtein,
-//   structural similarity) — was used by the deprecated runAgentLoop in
-//   index.ts. Preserved as `// `-prefixed lines so it can be revived if
-//   ever needed.
+// When a cached selector no longer matches the live DOM, healElement() runs
+// the registered healing tiers in order, cheapest first, and stops at the
+// first one that is confident enough:
+//   exact-text       same visible text as the last known good element
+//   text-similarity  Levenshtein similarity of that text (same tag)
+//   structural       same tag / role / type / placeholder, weighted by how
+//                    well the element's text / name / section fit (structure
+//                    alone stays below the review threshold)
+//   embedding        descriptor vs element text, by embedding cosine
+//   llm              llmHeal() — only when every tier above came up short
+// Each tier has its own threshold (per suite, HealingThresholds). A tier also
+// declines when its best candidate is not clearly ahead of the runner-up, so
+// two identical "Delete" buttons still go to the LLM (structural also
+// declines a lone candidate: nothing shows it beats anything). Deterministic wins are
+// reproducible and cost no LLM quota. More tiers can be added with
+// registerHealingTier().
 // ============================================================================
 
-// Type-only imports kept for the legacy block + active llmHeal.
-import type { ActionableElement } from "./observer";
+import { formatAccessibility, formatElementContext, type ActionableElement } from "./observer";
 import type { AIModelConfig } from "./thinker";
+import { logPromptTokens, pruneElements } from "./pruning";
+import { buildElementText, cosineSimilarity, generateEmbeddings, type EmbeddingConfig } from "./embeddings";
+import type { GoldenState } from "./vectorDB";
 import { GoogleGenerativeAI } from "@google/generative-ai";
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-// export interface HealingResult {
-//   healed: boolean;
-//   originalSelector: string;
-//   healedSelector?: string;
-//   selectorType?: "css" | "xpath" | "testId" | "aria";
-//   confidence: number;
-//   method: "vector-db" | "exact-match" | "text-similarity" | "structural-similarity" | "failed";
-// }
-// 
-// export interface SelectorHistory {
-//   action: Action;
-//   element: ActionableElement;
-//   timestamp: Date;
-//   successful: boolean;
-// }
-// 
-// // ============================================================================
-// // HEALER FUNCTIONS
-// // ============================================================================
-// 
-// /**
-//  * Attempt to heal a broken selector using Vector DB first, then fallback strategies
-//  * This is the "True RAG-based Healing" component with persistent memory
-//  */
-// export async function healSelector(
-//   brokenAction: Action,
-//   brokenElement: ActionableElement,
-//   currentElements: ActionableElement[],
-//   history: SelectorHistory[],
-//   testSuiteId: string,
-//   embeddingConfig: EmbeddingConfig
-// ): Promise<HealingResult> {
-//   console.log("🔧 Healer: Attempting to heal broken selector...");
-// 
-//   // Strategy 1: Try Vector Database lookup (PERSISTENT MEMORY)
-//   try {
-//     const elementText = `${brokenElement.tagName} ${brokenElement.text || ""}`.trim();
-//     const embedding = await generateElementEmbedding(brokenElement, embeddingConfig);
-//     
-//     const vectorResult = await vectorSimilaritySearch(
-//       testSuiteId,
-//       brokenAction.description,
-//       embedding,
-//       currentElements
-//     );
-// 
-//     if (vectorResult && vectorResult.confidence > 0.85) {
-//       console.log(`✅ Healer: Found in Vector DB (${(vectorResult.confidence * 100).toFixed(1)}% confidence)`);
-//       return {
-//         healed: true,
-//         originalSelector: brokenElement.selectors.css || brokenElement.selectors.xpath || "",
-//         healedSelector: vectorResult.selector,
-//         selectorType: vectorResult.selectorType,
-//         confidence: vectorResult.confidence,
-//         method: "vector-db",
-//       };
-//     }
-//   } catch (error) {
-//     console.warn("⚠️  Vector DB search failed, falling back to simple matching:", error);
-//   }
-// 
-//   // Strategy 2: Try exact text match
-//   const textMatch = findByExactText(brokenElement, currentElements);
-//   if (textMatch) {
-//     console.log("✅ Healer: Found exact text match");
-//     return {
-//       healed: true,
-//       originalSelector: brokenElement.selectors.css || "",
-//       healedSelector: textMatch.selectors.css,
-//       selectorType: "css",
-//       confidence: 0.95,
-//       method: "exact-match",
-//     };
-//   }
-// 
-//   // Strategy 3: Try fuzzy text match (Levenshtein)
-//   const similarText = findBySimilarText(brokenElement, currentElements);
-//   if (similarText && similarText.element && similarText.confidence > 0.7) {
-//     console.log(`✅ Healer: Found similar text (${(similarText.confidence * 100).toFixed(1)}% match)`);
-//     return {
-//       healed: true,
-//       originalSelector: brokenElement.selectors.css || "",
-//       healedSelector: similarText.element.selectors.css,
-//       selectorType: "css",
-//       confidence: similarText.confidence,
-//       method: "text-similarity",
-//     };
-//   }
-// 
-//   // Strategy 4: Try structural similarity
-//   const structuralMatch = findByStructuralSimilarity(brokenElement, currentElements);
-//   if (structuralMatch && structuralMatch.element && structuralMatch.confidence > 0.6) {
-//     console.log(`✅ Healer: Found structural match (${(structuralMatch.confidence * 100).toFixed(1)}% match)`);
-//     return {
-//       healed: true,
-//       originalSelector: brokenElement.selectors.css || "",
-//       healedSelector: structuralMatch.element.selectors.css,
-//       selectorType: "css",
-//       confidence: structuralMatch.confidence,
-//       method: "structural-similarity",
-//     };
-//   }
-// 
-//   // All strategies failed
-//   console.log("❌ Healer: Could not find alternative selector");
-//   return {
-//     healed: false,
-//     originalSelector: brokenElement.selectors.css || "",
-//     confidence: 0,
-//     method: "failed",
-//   };
-// }
-// 
-// /**
-//  * Find element by exact text match
-//  */
-// function findByExactText(
-//   target: ActionableElement,
-//   candidates: ActionableElement[]
-// ): ActionableElement | null {
-//   if (!target.text) return null;
-// 
-//   return candidates.find(el => 
-//     el.text === target.text && 
-//     el.tagName === target.tagName
-//   ) || null;
-// }
-// 
-// /**
-//  * Find element by similar text using simple similarity scoring
-//  */
-// function findBySimilarText(
-//   target: ActionableElement,
-//   candidates: ActionableElement[]
-// ): { element: ActionableElement; confidence: number } | null {
-//   if (!target.text) return null;
-// 
-//   let bestMatch: { element: ActionableElement; confidence: number } | null = null;
-// 
-//   for (const candidate of candidates) {
-//     if (!candidate.text || candidate.tagName !== target.tagName) continue;
-// 
-//     const similarity = calculateTextSimilarity(target.text, candidate.text);
-//     
-//     if (similarity > 0.7 && (!bestMatch || similarity > bestMatch.confidence)) {
-//       bestMatch = { element: candidate, confidence: similarity };
-//     }
-//   }
-// 
-//   return bestMatch;
-// }
-// 
-// /**
-//  * Find element by structural similarity
-//  */
-// function findByStructuralSimilarity(
-//   target: ActionableElement,
-//   candidates: ActionableElement[]
-// ): { element: ActionableElement; confidence: number } | null {
-//   let bestMatch: { element: ActionableElement; confidence: number } | null = null;
-// 
-//   for (const candidate of candidates) {
-//     if (candidate.tagName !== target.tagName) continue;
-// 
-//     let score = 0;
-//     let maxScore = 0;
-// 
-//     // Check attribute similarity
-//     const targetAttrs = Object.keys(target.attributes);
-//     const candidateAttrs = Object.keys(candidate.attributes);
-// 
-//     // Same classes
-//     if (target.attributes.class && candidate.attributes.class) {
-//       const targetClasses = target.attributes.class.split(' ');
-//       const candidateClasses = candidate.attributes.class.split(' ');
-//       const commonClasses = targetClasses.filter(c => candidateClasses.includes(c));
-//       score += commonClasses.length;
-//       maxScore += targetClasses.length;
-//     }
-// 
-//     // Same type (for inputs)
-//     if (target.attributes.type === candidate.attributes.type) {
-//       score += 1;
-//       maxScore += 1;
-//     }
-// 
-//     // Same name
-//     if (target.attributes.name === candidate.attributes.name) {
-//       score += 1;
-//       maxScore += 1;
-//     }
-// 
-//     // Same placeholder
-//     if (target.attributes.placeholder === candidate.attributes.placeholder) {
-//       score += 1;
-//       maxScore += 1;
-//     }
-// 
-//     const confidence = maxScore > 0 ? score / maxScore : 0;
-// 
-//     if (confidence > 0.5 && (!bestMatch || confidence > bestMatch.confidence)) {
-//       bestMatch = { element: candidate, confidence };
-//     }
-//   }
-// 
-//   return bestMatch;
-// }
-// 
-// /**
-//  * Calculate text similarity (simple Levenshtein-based)
-//  */
-// function calculateTextSimilarity(text1: string, text2: string): number {
-//   const len1 = text1.length;
-//   const len2 = text2.length;
-// 
-//   if (len1 === 0) return len2 === 0 ? 1 : 0;
-//   if (len2 === 0) return 0;
-// 
-//   // Normalize texts
-//   const normalized1 = text1.toLowerCase().trim();
-//   const normalized2 = text2.toLowerCase().trim();
-// 
-//   if (normalized1 === normalized2) return 1;
-// 
-//   // Simple substring matching as a proxy for similarity
-//   if (normalized1.includes(normalized2) || normalized2.includes(normalized1)) {
-//     const longerLength = Math.max(len1, len2);
-//     const shorterLength = Math.min(len1, len2);
-//     return shorterLength / longerLength;
-//   }
-// 
-//   // Levenshtein distance (simplified)
-//   const distance = levenshteinDistance(normalized1, normalized2);
-//   const maxLength = Math.max(len1, len2);
-//   
-//   return 1 - (distance / maxLength);
-// }
-// 
-// /**
-//  * Calculate Levenshtein distance between two strings
-//  */
-// function levenshteinDistance(str1: string, str2: string): number {
-//   const m = str1.length;
-//   const n = str2.length;
-//   const dp: number[][] = Array(m + 1).fill(null).map(() => Array(n + 1).fill(0));
-// 
-//   for (let i = 0; i <= m; i++) dp[i][0] = i;
-//   for (let j = 0; j <= n; j++) dp[0][j] = j;
-// 
-//   for (let i = 1; i <= m; i++) {
-//     for (let j = 1; j <= n; j++) {
-//       if (str1[i - 1] === str2[j - 1]) {
-//         dp[i][j] = dp[i - 1][j - 1];
-//       } else {
-//         dp[i][j] = Math.min(
-//           dp[i - 1][j] + 1,    // deletion
-//           dp[i][j - 1] + 1,    // insertion
-//           dp[i - 1][j - 1] + 1 // substitution
-//         );
-//       }
-//     }
-//   }
-// 
-//   return dp[m][n];
-// }
-// 
-// /**
-//  * Record a successful selector usage for future healing
-//  */
-// export function recordSuccess(
-//   action: Action,
-//   element: ActionableElement
-// ): SelectorHistory {
-//   return {
-//     action,
-//     element,
-//     timestamp: new Date(),
-//     successful: true,
-//   };
-// }
-// 
-// /**
-//  * Record a failed selector usage
-//  */
-// export function recordFailure(
-//   action: Action,
-//   element: ActionableElement
-// ): SelectorHistory {
-//   return {
-//     action,
-//     element,
-//     timestamp: new Date(),
-//     successful: false,
-//   };
-// }
-// 
+export interface HealingQuery {
+  descriptor: string; // Step descriptor (user intent)
+  expectedAction: string;
+  previous: GoldenState["elementMetadata"]; // Last known good element
+  candidates: ActionableElement[];
+}
+
+export interface HealingContext {
+  embeddingConfig?: EmbeddingConfig;
+}
+
+export interface HealingMatch {
+  element: ActionableElement;
+  score: number; // 0-1
+}
+
+export interface HealingTier {
+  name: string; // Recorded as the healing method / HealingEvent.strategy
+  defaultThreshold: number; // Minimum score to accept, 0-1
+  requiresRunnerUp?: boolean; // A single candidate is ambiguous, not a match
+  // Candidates scored against the query (any order); [] = cannot judge
+  score(query: HealingQuery, context: HealingContext): Promise<HealingMatch[]>;
+}
+
+// Per-tier overrides of defaultThreshold, keyed by tier name
+export type HealingThresholds = Record<string, number>;
+
+export interface HealingAttempt {
+  strategy: string;
+  elementId: string | null; // Best candidate of the tier
+  confidence: number;
+  accepted: boolean;
+  note?: string; // Why the tier declined
+}
+
+export interface HealResult {
+  healed: boolean;
+  elementId: string | null;
+  confidence: number;
+  strategy: string | null; // Winning tier ("llm" when the LLM picked)
+  reasoning: string;
+  attempts: HealingAttempt[]; // Every tier consulted, in order
+  llm?: LlmHealResult; // Present when the LLM was consulted
+}
+
+const AMBIGUITY_MARGIN = 0.05; // Best candidate must lead the runner-up by this much
+const EMBEDDING_CANDIDATES = 40; // Elements embedded per heal (one batch request)
+// Structural score with no naming evidence at all: under both the tier's own
+// threshold and the default review threshold, so structure alone never heals
+const STRUCTURE_ONLY_WEIGHT = 0.6;
+
+// ============================================================================
+// TIERS
+// ============================================================================
+
+const exactTextTier: HealingTier = {
+  name: "exact-text",
+  defaultThreshold: 0.9,
+  async score({ previous, candidates }) {
+    const text = normalizeText(previous.text);
+    if (!text) return [];
+    return candidates
+      .filter((el) => normalizeText(textOf(el)) === text)
+      .map((el) => ({ element: el, score: el.tagName === previous.tagName ? 1 : 0.9 }));
+  },
+};
+
+const textSimilarityTier: HealingTier = {
+  name: "text-similarity",
+  defaultThreshold: 0.8,
+  async score({ previous, candidates }) {
+    const text = normalizeText(previous.text);
+    if (!text) return [];
+    return candidates
+      .filter((el) => el.tagName === previous.tagName && normalizeText(textOf(el)))
+      .map((el) => ({ element: el, score: textSimilarity(text, normalizeText(textOf(el))) }));
+  },
+};
+
+const structuralTier: HealingTier = {
+  name: "structural",
+  defaultThreshold: 0.75,
+  requiresRunnerUp: true,
+  async score({ descriptor, previous, candidates }) {
+    const fields = (["role", "type", "placeholder"] as const).filter((field) => previous[field]);
+    // The tag alone says nothing about which element it was
+    if (fields.length === 0) return [];
+    return candidates
+      .filter((el) => el.tagName === previous.tagName)
+      .map((el) => {
+        const structure =
+          (1 + fields.filter((field) => el.attributes[field] === previous[field]).length) / (1 + fields.length);
+        const evidence = namingEvidence(descriptor, previous, el);
+        return { element: el, score: structure * (STRUCTURE_ONLY_WEIGHT + (1 - STRUCTURE_ONLY_WEIGHT) * evidence) };
+      });
+  },
+};
+
+const embeddingTier: HealingTier = {
+  name: "embedding",
+  defaultThreshold: 0.85,
+  async score({ descriptor, previous, candidates }, { embeddingConfig }) {
+    if (!embeddingConfig) return [];
+    // Same tag as before when the page still has one, in page order
+    const sameTag = candidates.filter((el) => el.tagName === previous.tagName);
+    const pool = (sameTag.length > 0 ? sameTag : candidates).slice(0, EMBEDDING_CANDIDATES);
+    if (pool.length === 0) return [];
+    try {
+      const [query, ...vectors] = await generateEmbeddings(
+        [descriptor, ...pool.map(buildElementText)],
+        embeddingConfig
+      );
+      return pool.map((el, i) => ({ element: el, score: cosineSimilarity(query, vectors[i]) }));
+    } catch (err: any) {
+      console.warn("⚠️  Healer: embedding tier failed:", err.message);
+      return [];
+    }
+  },
+};
+
+// Run order, cheapest first. The LLM is not a tier: it runs after all of them.
+const HEALING_TIERS: HealingTier[] = [exactTextTier, textSimilarityTier, structuralTier, embeddingTier];
+
+/**
+ * Add a healing tier, before the tier named `before` (default: last, i.e.
+ * just ahead of the LLM)
+ */
+export function registerHealingTier(tier: HealingTier, before?: string): void {
+  if (HEALING_TIERS.some((t) => t.name === tier.name)) {
+    throw new Error(`Healing tier "${tier.name}" is already registered`);
+  }
+  const index = before ? HEALING_TIERS.findIndex((t) => t.name === before) : -1;
+  HEALING_TIERS.splice(index === -1 ? HEALING_TIERS.length : index, 0, tier);
+}
+
+/**
+ * Registered tiers with their default thresholds, in run order
+ */
+export function healingTiers(): { name: string; defaultThreshold: number }[] {
+  return HEALING_TIERS.map(({ name, defaultThreshold }) => ({ name, defaultThreshold }));
+}
+
+// ============================================================================
+// TIERED HEALING
+// ============================================================================
+
+/**
+ * Find the element that replaces a broken cached selector: each tier in
+ * turn, then the LLM when none of them clears its threshold
+ */
+export async function healElement(
+  query: HealingQuery,
+  config: AIModelConfig,
+  options: HealingContext & { thresholds?: HealingThresholds } = {}
+): Promise<HealResult> {
+  const attempts: HealingAttempt[] = [];
+
+  for (const tier of HEALING_TIERS) {
+    const threshold = options.thresholds?.[tier.name] ?? tier.defaultThreshold;
+    const ranked = (await tier.score(query, options)).sort((a, b) => b.score - a.score);
+    const [best, runnerUp] = ranked;
+    if (!best) {
+      attempts.push({ strategy: tier.name, elementId: null, confidence: 0, accepted: false, note: "not applicable" });
+      continue;
+    }
+
+    const note =
+      best.score < threshold
+        ? `below ${(threshold * 100).toFixed(0)}% threshold`
+        : runnerUp && best.score - runnerUp.score < AMBIGUITY_MARGIN
+          ? `ambiguous with ${runnerUp.element.id} (${(runnerUp.score * 100).toFixed(0)}%)`
+          : !runnerUp && tier.requiresRunnerUp
+            ? "only candidate — nothing to tell it apart from"
+            : undefined;
+    attempts.push({ strategy: tier.name, elementId: best.element.id, confidence: best.score, accepted: !note, note });
+
+    if (note) {
+      console.log(`🧩 Healer [${tier.name}]: ${best.element.id} ${(best.score * 100).toFixed(0)}% — ${note}`);
+      continue;
+    }
+    console.log(`✅ Healer [${tier.name}]: matched "${query.descriptor}" → ${best.element.id} (${(best.score * 100).toFixed(0)}%)`);
+    return {
+      healed: true,
+      elementId: best.element.id,
+      confidence: best.score,
+      strategy: tier.name,
+      reasoning: `${tier.name} tier matched ${best.element.id} at ${(best.score * 100).toFixed(0)}%.`,
+      attempts,
+    };
+  }
+
+  const llm = await llmHeal(query.descriptor, query.expectedAction, query.candidates, config);
+  attempts.push({ strategy: "llm", elementId: llm.elementId, confidence: llm.confidence, accepted: llm.healed });
+  return {
+    healed: llm.healed,
+    elementId: llm.elementId,
+    confidence: llm.confidence,
+    strategy: llm.healed ? "llm" : null,
+    reasoning: llm.reasoning,
+    attempts,
+    llm,
+  };
+}
+
+// ============================================================================
+// TEXT HELPERS
+// ============================================================================
+
+function textOf(element: ActionableElement): string {
+  return element.text || element.accessibleName || "";
+}
+
+function normalizeText(text: string | undefined): string {
+  return (text ?? "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function words(text: string | undefined): string[] {
+  return normalizeText(text).match(/[\p{L}\p{N}]{2,}/gu) ?? [];
+}
+
+/**
+ * 0-1: how well an element's naming fits — similarity of its text to the
+ * last known good text, else the share of its name / label / placeholder /
+ * section words that appear in the step descriptor
+ */
+function namingEvidence(
+  descriptor: string,
+  previous: GoldenState["elementMetadata"],
+  element: ActionableElement
+): number {
+  const previousText = normalizeText(previous.text);
+  const text = normalizeText(textOf(element));
+  if (previousText && text) return textSimilarity(previousText, text);
+
+  const wanted = new Set(words(descriptor));
+  const names = [
+    textOf(element),
+    element.labelText,
+    element.attributes["aria-label"],
+    element.attributes.placeholder,
+    element.attributes.name,
+    element.context,
+  ].map(words);
+  return Math.max(
+    0,
+    ...names.filter((w) => w.length > 0).map((w) => w.filter((word) => wanted.has(word)).length / w.length)
+  );
+}
+
+/**
+ * 0-1 similarity of two normalized strings: length ratio when one contains
+ * the other, else 1 - Levenshtein distance / longer length
+ */
+function textSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const longer = Math.max(a.length, b.length);
+  if (a.includes(b) || b.includes(a)) return Math.min(a.length, b.length) / longer;
+  return 1 - levenshteinDistance(a, b) / longer;
+}
+
+function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] =
+        a[i - 1] === b[j - 1]
+          ? previous[j - 1]
+          : 1 + Math.min(previous[j], current[j - 1], previous[j - 1]);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
 // ============================================================================
 // LLM-BASED HEALING (Plan-then-Execute architecture)
 // ============================================================================
-// When a step's cached selector no longer matches anything in the current DOM,
-// we call this function. It hands the broken step's USER INTENT (the
-// descriptor) plus the fresh DOM to an LLM and asks: "which element on this
-// page satisfies this intent?".
+// The last resort of healElement() when no tier is confident, and the Thinker
+// for first-time steps (nothing cached to compare against). It hands the
+// step's USER INTENT (the descriptor) plus the fresh DOM to an LLM and asks:
+// "which element on this page satisfies this intent?".
 //
 // This is the canonical "RAG healing" path:
 //   - Retrieve  → cached descriptor pulled from vector DB
@@ -356,7 +343,7 @@ export async function llmHeal(
     };
   }
 
-  const prompt = buildHealerPrompt(descriptor, expectedAction, candidates);
+  const prompt = await buildHealerPrompt(descriptor, expectedAction, candidates, config);
   const response = await callHealerLLM(prompt, config);
   const parsed = parseHealerResponse(response);
 
@@ -392,40 +379,39 @@ export async function llmHeal(
   };
 }
 
-function buildHealerPrompt(
+async function buildHealerPrompt(
   descriptor: string,
   expectedAction: string,
-  candidates: ActionableElement[]
-): string {
-  // Trim and prioritise the candidate list (same heuristic as the Thinker).
-  const trimmed = [...candidates]
-    .sort((a, b) => {
-      const ap = ["button", "input", "a", "select", "textarea"].includes(a.tagName.toLowerCase()) ? 1 : 0;
-      const bp = ["button", "input", "a", "select", "textarea"].includes(b.tagName.toLowerCase()) ? 1 : 0;
-      return bp - ap;
-    })
-    .slice(0, 80);
-
-  const elementsBlock = trimmed
-    .map((el) => {
+  candidates: ActionableElement[],
+  config: AIModelConfig
+): Promise<string> {
+  // Rank the candidates against the descriptor and fit the token budget
+  const pruned = await pruneElements(candidates, {
+    query: descriptor,
+    config,
+    label: "LLM Healer",
+    format: (el) => {
       const text = (el.text || "").trim().slice(0, 60);
       const attrs = el.attributes || {};
       const placeholder = attrs.placeholder || "";
       const aria = attrs["aria-label"] || (attrs as any).ariaLabel || "";
-      const role = attrs.role || "";
+      const role = el.accessibility ? "" : attrs.role || "";
       const detail = [
         text && `text:"${text}"`,
         placeholder && `placeholder:"${placeholder}"`,
         aria && `aria:"${aria}"`,
         role && `role:"${role}"`,
+        formatElementContext(el),
+        formatAccessibility(el),
       ]
         .filter(Boolean)
         .join(" ");
       return `[${el.id}] ${el.tagName.toLowerCase()} ${detail}`.trim();
-    })
-    .join("\n");
+    },
+  });
+  const elementsBlock = pruned.block;
 
-  return `You are a self-healing test automation agent. The selector for the step below no longer matches anything on the page (the page was likely redesigned). Find the element that satisfies the user intent.
+  const prompt = `You are a self-healing test automation agent. The selector for the step below no longer matches anything on the page (the page was likely redesigned). Find the element that satisfies the user intent.
 
 STEP DESCRIPTOR (user intent):
 "${descriptor}"
@@ -437,7 +423,7 @@ ${elementsBlock}
 
 INSTRUCTIONS:
 1. Pick exactly one element id whose role/text/placeholder/aria best satisfies the descriptor.
-2. Prefer matches by visible text or aria-label. Then placeholder. Then role+tag.
+2. Prefer matches by visible text, accessible name (name:), associated label (label:) or aria-label. Then placeholder. Use section: to tell apart same-named fields in different parts of the page. Then role+tag. Avoid elements whose states include "disabled".
 3. If NO element on the page reasonably matches the intent, return elementId: null.
 4. Confidence should reflect how unambiguous the match is (1.0 = identical text, 0.5 = inferred from context, 0.0 = no match).
 
@@ -454,6 +440,9 @@ If no element matches:
   "confidence": 0.0,
   "reasoning": "No element on this page corresponds to the requested user intent."
 }`;
+
+  logPromptTokens("LLM Healer", prompt, pruned);
+  return prompt;
 }
 
 async function callHealerLLM(prompt: string, config: AIModelConfig): Promise<string> {
@@ -19,6 +19,13 @@
 import type { AIModelConfig, Action } from "./thinker";
 import type { ActionResult } from "./actor";
 import type { EmbeddingConfig } from "./embeddings";
+import type { PlanStep } from "./planner";
+import type { PageFingerprint } from "./drift";
+import type { StabilityResult } from "./observer";
+import type { PageEvent } from "./tabs";
+import type { RequestRuleHit } from "./network";
+import type { HealingAttempt } from "./healer";
+import type { HealReview } from "./review";
 
 // ============================================================================
 // TYPES
@@ -42,10 +49,27 @@ export interface AgentResult {
   successfulSteps: number;
   failedSteps: number;
   healedSteps: number;
+  skippedSteps?: number; // optional / conditional steps that did not run (Plan-then-Execute only)
+  suspiciousSteps?: number; // succeeded without an observable effect (Plan-then-Execute only)
+  reviewSteps?: number; // healed below the review threshold, held for review (Plan-then-Execute only)
   totalCost: number;
   executionTimeMs: number;
   error?: string;
   logs: StepLog[];
+  replans?: ReplanEvent[]; // adaptive re-plans performed during the run
+  requestRuleHits?: RequestRuleHit[]; // requests each suite request rule handled (Plan-then-Execute only)
+}
+
+// One mid-run plan revision (Plan-then-Execute only)
+export interface ReplanEvent {
+  atStep: number; // id of the step that could not be resolved
+  reason: string;
+  pageUrl: string;
+  previousTail: PlanStep[]; // unresolved step + everything after it
+  revisedTail: PlanStep[]; // what replaced it (renumbered from atStep)
+  reasoning: string;
+  model: string;
+  timestamp: Date;
 }
 
 export interface StepLog {
@@ -61,15 +85,27 @@ export interface StepLog {
     newSelector?: string;
     selectorType?: "css" | "xpath" | "testId" | "aria";
     confidence?: number;
-    method?: "vector-db" | "exact-match" | "text-similarity" | "structural-similarity" | "failed";
+    method?: string; // Winning healing tier (exact-text, text-similarity, structural, embedding, llm) or "failed"
     matchedOn?: { text?: boolean; role?: boolean; tag?: boolean; attrs?: boolean };
+    attempts?: HealingAttempt[]; // Every healing tier consulted, in order
+    review?: HealReview; // Below the review threshold: golden state left as is until a reviewer decides
   };
   reasoning: string;
   timestamp: Date;
   selectorUsed?: string; // The actual selector that worked (for script generation)
   selectorType?: "css" | "xpath" | "testId" | "aria";
+  framePath?: string[]; // iframe selectors of the element's frame (absent = main frame)
+  dropTarget?: { selector: string; selectorType: "css" | "xpath" | "testId"; framePath?: string[] }; // drag onto an element
+  skipped?: boolean; // optional step not run / guard not met → Step.status SKIPPED
+  pageFingerprint?: PageFingerprint; // structural fingerprint of the page the step acted on (drift report)
+  stability?: StepStability; // how long the page took to settle after the action, and on what
+  suspicious?: boolean; // action succeeded but changed nothing observable → Step.status SUSPICIOUS
+  events?: PageEvent[]; // dialogs answered / tabs followed while the step ran
+  elementCrop?: string; // JPEG data URL of the target element, when its selector was learned or healed
 }
 
+export type StepStability = StabilityResult & { reason: string }; // reason = why we waited, e.g. "after click"
+
 // ============================================================================
 // MAIN AGENT LOOP
 // ============================================================================
@@ -343,7 +379,7 @@ export async function runAgentLoop(
       // === RAG LOGIC END ===
 
       // 3. ACT: Execute the action
-      let actionResult = await act(action, page, snapshot.actionableElements);
+      let actionResult = await act(action, page, snapshot.actionableElements, undefined, undefined, config.timeout);
 
       // 4. HEAL: If action failed (and we didn't already heal proactively), try to heal the selector
       let selectorUsed = targetElement.selectors.css || targetElement.selectors.xpath || "";
@@ -385,7 +421,10 @@ export async function runAgentLoop(
             actionResult = await act(
               { ...action, targetElementId: healedElement.id },
               page,
-              snapshot.actionableElements
+              snapshot.actionableElements,
+              undefined,
+              undefined,
+              config.timeout
             );
 
             if (actionResult.success) {
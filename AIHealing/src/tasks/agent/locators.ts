@@ -0,0 +1,182 @@
+// ============================================================================
+// LOCATORS - One Element-Resolution Pipeline for Every Action
+// ============================================================================
+// Turns an observed ActionableElement back into a live ElementHandle. Each
+// strategy builds a Puppeteer selector from what the Observer recorded:
+//   testId       [data-testid="…"]
+//   css / xpath  the selectors verified unique at snapshot time
+//   role         ::-p-aria([name="…"][role="…"])  (role + accessible name)
+//   label        [aria-label="…"]
+//   placeholder  tag[placeholder="…"]
+//   text         ::-p-text("…")
+// Strategies run in the suite's configured order. Selectors that were not
+// verified unique must match exactly one element. Only the first strategy
+// waits for the element to appear; once the page has it the rest are instant.
+// ============================================================================
+
+import type { ElementHandle, Frame, Page } from "puppeteer";
+import type { ActionableElement } from "./observer";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LocatorStrategy = "testId" | "css" | "xpath" | "role" | "label" | "placeholder" | "text";
+
+export interface ResolvedLocator {
+  handle: ElementHandle<Element>;
+  strategy: LocatorStrategy;
+  selector: string; // Puppeteer selector that matched (query handlers included)
+  selectorUsed: string; // "<strategy>: <selector>" for ActionResult / logs
+}
+
+// Default order, most → least robust
+export const LOCATOR_STRATEGIES: LocatorStrategy[] = [
+  "testId",
+  "css",
+  "xpath",
+  "role",
+  "label",
+  "placeholder",
+  "text",
+];
+
+const WAIT_TIMEOUT = 2000;
+const FRAME_INDEX = /^@frame:(\d+)$/; // Frame-path entry: nth child frame of the parent frame
+const MAX_TEXT_LENGTH = 80; // Longer text makes a brittle locator
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * Live handle for an element, trying each strategy in `strategies` order
+ */
+export async function resolveElement(
+  page: Page,
+  element: ActionableElement,
+  strategies: LocatorStrategy[] = LOCATOR_STRATEGIES
+): Promise<ResolvedLocator> {
+  const frame = await resolveFrame(page, element.selectors.framePath);
+  const locators = buildLocators(element, strategies);
+  if (locators.length === 0) {
+    throw new Error(`Element ${element.id} has no usable locator (tried ${strategies.join(", ")})`);
+  }
+
+  for (const [i, { strategy, selector, verified }] of locators.entries()) {
+    try {
+      const handle = i === 0 ? await waitForUnique(frame, selector, verified) : await findUnique(frame, selector, verified);
+      if (handle) return { handle, strategy, selector, selectorUsed: `${strategy}: ${selector}` };
+    } catch {
+      // Try next strategy
+    }
+  }
+  throw new Error(
+    `Element ${element.id} not found with any locator strategy (${locators.map((l) => l.strategy).join(", ")})`
+  );
+}
+
+/**
+ * Frame that owns an element — walks the iframe selectors of
+ * `selectors.framePath` down from the main frame
+ */
+export async function resolveFrame(page: Page, framePath: string[] | undefined): Promise<Frame> {
+  let frame = page.mainFrame();
+  for (const selector of framePath ?? []) {
+    const index = FRAME_INDEX.exec(selector);
+    let child: Frame | null;
+    if (index) {
+      child = await waitForChildFrame(frame, Number(index[1]));
+    } else {
+      const owner = await frame.waitForSelector(selector, { timeout: WAIT_TIMEOUT });
+      child = owner ? await owner.contentFrame() : null;
+      await owner?.dispose();
+    }
+    if (!child) {
+      throw new Error(`Frame "${selector}" not found`);
+    }
+    frame = child;
+  }
+  return frame;
+}
+
+/**
+ * Selectors the element supports, in strategy order
+ */
+export function buildLocators(
+  element: ActionableElement,
+  strategies: LocatorStrategy[]
+): { strategy: LocatorStrategy; selector: string; verified: boolean }[] {
+  const { selectors, attributes } = element;
+  const role = element.accessibility?.role || attributes.role;
+  const name = (element.accessibility?.name || element.accessibleName || "").trim();
+  const text = (element.text || "").trim();
+
+  const build = (strategy: LocatorStrategy): string | undefined => {
+    switch (strategy) {
+      case "testId":
+        return selectors.testId && `[data-testid=${quote(selectors.testId)}]`;
+      case "css":
+        return selectors.css;
+      case "xpath":
+        return selectors.xpath && `::-p-xpath(${selectors.xpath})`;
+      case "role":
+        return name ? `::-p-aria([name=${quote(name)}]${role ? `[role=${quote(role)}]` : ""})` : undefined;
+      case "label":
+        return selectors.ariaLabel && `[aria-label=${quote(selectors.ariaLabel)}]`;
+      case "placeholder":
+        return selectors.placeholder && `${element.tagName.toLowerCase()}[placeholder=${quote(selectors.placeholder)}]`;
+      case "text":
+        return text && text.length <= MAX_TEXT_LENGTH && !text.includes("\n") ? `::-p-text(${quote(text)})` : undefined;
+    }
+  };
+
+  return strategies.flatMap((strategy) => {
+    const selector = build(strategy);
+    return selector ? [{ strategy, selector, verified: strategy === "css" || strategy === "xpath" }] : [];
+  });
+}
+
+export function isLocatorStrategy(value: string): value is LocatorStrategy {
+  return (LOCATOR_STRATEGIES as string[]).includes(value);
+}
+
+/**
+ * Frame-path entry for an iframe no selector singles out (e.g. inside a
+ * shadow root): its position among the parent frame's child frames
+ */
+export function frameIndexEntry(index: number): string {
+  return `@frame:${index}`;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function waitForChildFrame(frame: Frame, index: number): Promise<Frame | null> {
+  const deadline = Date.now() + WAIT_TIMEOUT;
+  while (!frame.childFrames()[index] && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  return frame.childFrames()[index] ?? null;
+}
+
+async function waitForUnique(frame: Frame, selector: string, verified: boolean): Promise<ElementHandle<Element> | null> {
+  const handle = await frame.waitForSelector(selector, { timeout: WAIT_TIMEOUT });
+  if (!handle || verified) return handle;
+  await handle.dispose();
+  return findUnique(frame, selector, false);
+}
+
+async function findUnique(frame: Frame, selector: string, verified: boolean): Promise<ElementHandle<Element> | null> {
+  if (verified) return frame.$(selector);
+  const matches = await frame.$$(selector);
+  if (matches.length === 1) return matches[0];
+  await Promise.all(matches.map((h) => h.dispose()));
+  return null; // Missing or ambiguous
+}
+
+// CSS / query-handler string literal
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
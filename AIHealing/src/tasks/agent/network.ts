@@ -0,0 +1,302 @@
+// ============================================================================
+// NETWORK - Per-Suite Request Rules (Interception & API Mocking)
+// ============================================================================
+// A test suite can carry an ordered list of request rules. While it runs,
+// Puppeteer request interception checks every request against them; the
+// first rule whose URL pattern (and method, if given) matches decides:
+//
+//   stub   answer with a fixture file from FIXTURES_DIR (status 200 default)
+//   delay  hold the request for delayMs, then let it through
+//   block  abort it (third-party trackers, analytics, ads)
+//   fail   answer with an error status (500 default) to exercise error UIs
+//
+// Requests no rule matches go out untouched. URL patterns are globs matched
+// against the full URL ("*" = any characters) or /regex/flags:
+//
+//   "*/api/cart*"              → stub with fixtures/cart-empty.json
+//   "*google-analytics.com*"   → block
+//   "/\/api\/(orders|invoices)/" → fail with 503
+//
+// Tabs / popups the run follows get the same rules, from the moment they are
+// opened (their very first request may already be in flight). The rules are
+// also emitted into generated scripts (generator.ts).
+// ============================================================================
+
+import { readFile } from "fs/promises";
+import path from "path";
+import type { HTTPRequest, Page } from "puppeteer";
+import { isValidFixtureName, resolveFixturePath } from "./actor";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RequestRuleAction = "stub" | "delay" | "block" | "fail";
+
+export interface RequestRule {
+  url: string; // glob ("*" = any characters) or /regex/flags, matched against the full URL
+  method?: string; // GET, POST, … (any method when absent)
+  action: RequestRuleAction;
+  fixture?: string; // stub: response body (fail: optional body), a file under FIXTURES_DIR
+  status?: number; // stub: default 200, fail: default 500
+  contentType?: string; // default guessed from the fixture's extension
+  delayMs?: number; // delay: how long the request is held
+}
+
+export interface RequestRuleHit {
+  rule: number; // 1-based position in the suite's rule list
+  label: string; // formatRequestRule()
+  count: number; // requests the rule handled
+}
+
+export interface RequestInterceptor {
+  // Apply the rules to another page (a followed tab / popup)
+  attach(page: Page): Promise<void>;
+  // Matched requests per rule, in rule order
+  hits(): RequestRuleHit[];
+  // Stop intercepting on every page
+  dispose(): Promise<void>;
+}
+
+export const REQUEST_RULE_ACTIONS: RequestRuleAction[] = ["stub", "delay", "block", "fail"];
+
+// Hard caps so a rule list can't stall a run
+export const MAX_REQUEST_RULES = 50;
+export const MAX_RULE_DELAY_MS = 60000;
+
+const RULE_FIELDS = ["url", "method", "action", "fixture", "status", "contentType", "delayMs"];
+
+// Fields an action would silently ignore — rejected so typos don't pass
+const UNUSED_FIELDS: Record<RequestRuleAction, string[]> = {
+  stub: ["delayMs"],
+  delay: ["fixture", "status", "contentType"],
+  block: ["fixture", "status", "contentType", "delayMs"],
+  fail: ["delayMs"],
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".json": "application/json",
+  ".html": "text/html",
+  ".txt": "text/plain",
+  ".js": "application/javascript",
+  ".css": "text/css",
+  ".xml": "application/xml",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse and validate a pasted JSON rule list (empty → no rules)
+ */
+export function parseRequestRules(text: string): RequestRule[] {
+  if (text.trim().length === 0) return [];
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Request rules are not valid JSON");
+  }
+  if (!Array.isArray(data)) {
+    throw new Error("Request rules must be an array of objects");
+  }
+  if (data.length > MAX_REQUEST_RULES) {
+    throw new Error(`At most ${MAX_REQUEST_RULES} request rules are allowed (got ${data.length})`);
+  }
+  return data.map((raw, idx) => validateRule(raw, idx + 1));
+}
+
+function validateRule(raw: unknown, n: number): RequestRule {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Rule ${n}: expected an object`);
+  }
+  const rule = raw as Record<string, unknown>;
+
+  const unknown = Object.keys(rule).find((key) => !RULE_FIELDS.includes(key));
+  if (unknown) {
+    throw new Error(`Rule ${n}: unknown field "${unknown}" (use ${RULE_FIELDS.join(", ")})`);
+  }
+  if (typeof rule.url !== "string" || rule.url.trim().length === 0) {
+    throw new Error(`Rule ${n}: "url" pattern is required`);
+  }
+  try {
+    toUrlRegExp(rule.url.trim());
+  } catch {
+    throw new Error(`Rule ${n}: "${rule.url}" is not a valid regular expression`);
+  }
+  if (!REQUEST_RULE_ACTIONS.includes(rule.action as RequestRuleAction)) {
+    throw new Error(`Rule ${n}: unknown action "${rule.action}" (use ${REQUEST_RULE_ACTIONS.join(", ")})`);
+  }
+  const action = rule.action as RequestRuleAction;
+
+  if (rule.method !== undefined && (typeof rule.method !== "string" || !/^[A-Za-z]+$/.test(rule.method))) {
+    throw new Error(`Rule ${n}: "method" must be an HTTP method such as GET or POST`);
+  }
+  if (rule.fixture !== undefined && (typeof rule.fixture !== "string" || !isValidFixtureName(rule.fixture))) {
+    throw new Error(`Rule ${n}: invalid fixture "${rule.fixture}": must be a file inside the fixture directory`);
+  }
+  if (action === "stub" && rule.fixture === undefined) {
+    throw new Error(`Rule ${n}: "stub" needs a fixture file to answer with`);
+  }
+  const status = rule.status as number | undefined;
+  if (status !== undefined && (!Number.isInteger(status) || status < 100 || status > 599)) {
+    throw new Error(`Rule ${n}: "status" must be an HTTP status code (100-599)`);
+  }
+  if (action === "fail" && status !== undefined && status < 400) {
+    throw new Error(`Rule ${n}: "fail" needs an error status (400-599)`);
+  }
+  if (rule.contentType !== undefined && typeof rule.contentType !== "string") {
+    throw new Error(`Rule ${n}: "contentType" must be a string`);
+  }
+  const delayMs = rule.delayMs as number | undefined;
+  if (action === "delay" && (!Number.isInteger(delayMs) || delayMs! < 0 || delayMs! > MAX_RULE_DELAY_MS)) {
+    throw new Error(`Rule ${n}: "delay" needs delayMs between 0 and ${MAX_RULE_DELAY_MS}`);
+  }
+
+  const unused = UNUSED_FIELDS[action].filter((key) => rule[key] !== undefined);
+  if (unused.length > 0) {
+    throw new Error(`Rule ${n}: "${action}" does not use ${unused.join(", ")}`);
+  }
+
+  return {
+    url: rule.url.trim(),
+    ...(rule.method ? { method: (rule.method as string).toUpperCase() } : {}),
+    action,
+    ...(rule.fixture !== undefined ? { fixture: rule.fixture as string } : {}),
+    ...(status !== undefined ? { status } : {}),
+    ...(rule.contentType ? { contentType: rule.contentType as string } : {}),
+    ...(delayMs !== undefined ? { delayMs } : {}),
+  };
+}
+
+/**
+ * Regex for a rule's URL pattern: /body/flags as written, otherwise an
+ * anchored glob where "*" matches any run of characters
+ */
+export function toUrlRegExp(pattern: string): RegExp {
+  const literal = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (literal) return new RegExp(literal[1], literal[2]);
+  const body = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\/]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}$`);
+}
+
+/**
+ * Short description of a rule, e.g. `GET https://shop.test/api/cart → stub cart.json (200)`
+ */
+export function formatRequestRule(rule: RequestRule): string {
+  const target = `${rule.method ? `${rule.method} ` : ""}${rule.url}`;
+  switch (rule.action) {
+    case "stub":
+      return `${target} → stub ${rule.fixture} (${responseStatus(rule)})`;
+    case "delay":
+      return `${target} → delay ${rule.delayMs}ms`;
+    case "block":
+      return `${target} → block`;
+    case "fail":
+      return `${target} → fail ${responseStatus(rule)}`;
+  }
+}
+
+/**
+ * Status a stub / fail rule answers with
+ */
+export function responseStatus(rule: RequestRule): number {
+  return rule.status ?? (rule.action === "stub" ? 200 : 500);
+}
+
+/**
+ * Content type a stub / fail rule answers with
+ */
+export function responseContentType(rule: RequestRule): string {
+  if (rule.contentType) return rule.contentType;
+  if (!rule.fixture) return "text/plain";
+  return CONTENT_TYPES[path.extname(rule.fixture).toLowerCase()] ?? "application/octet-stream";
+}
+
+// ============================================================================
+// INTERCEPTION
+// ============================================================================
+
+/**
+ * Start intercepting `page`'s requests with `rules`. Fixtures are read up
+ * front, so a missing file fails the run before the first navigation.
+ */
+export async function interceptRequests(page: Page, rules: RequestRule[]): Promise<RequestInterceptor> {
+  const patterns = rules.map((rule) => toUrlRegExp(rule.url));
+  const bodies = await Promise.all(
+    rules.map(async (rule) => (rule.fixture ? readFile(await resolveFixturePath(rule.fixture)) : undefined))
+  );
+  const counts = rules.map(() => 0);
+  const detach: (() => Promise<void>)[] = [];
+
+  const onRequest = async (request: HTTPRequest) => {
+    if (request.isInterceptResolutionHandled()) return;
+    const index = rules.findIndex(
+      (rule, i) => patterns[i].test(request.url()) && (!rule.method || rule.method === request.method())
+    );
+    try {
+      if (index === -1) {
+        await request.continue();
+        return;
+      }
+      counts[index]++;
+      const rule = rules[index];
+      switch (rule.action) {
+        case "stub":
+        case "fail":
+          await request.respond({
+            status: responseStatus(rule),
+            contentType: responseContentType(rule),
+            // Stubbed cross-origin API calls would otherwise be blocked by CORS
+            headers: { "access-control-allow-origin": request.headers()["origin"] ?? "*" },
+            body: bodies[index] ?? "",
+          });
+          break;
+        case "delay":
+          await new Promise((resolve) => setTimeout(resolve, rule.delayMs ?? 0));
+          await request.continue();
+          break;
+        case "block":
+          await request.abort("blockedbyclient");
+          break;
+      }
+    } catch {
+      // Request cancelled or the page went away while it was held
+    }
+  };
+
+  const attach = async (target: Page) => {
+    const listener = (request: HTTPRequest) => void onRequest(request);
+    await target.setRequestInterception(true);
+    target.on("request", listener);
+    detach.push(async () => {
+      target.off("request", listener);
+      if (!target.isClosed()) await target.setRequestInterception(false).catch(() => {});
+    });
+  };
+  await attach(page);
+  console.log(`🕸️  Network: ${rules.length} request rule(s) active`);
+
+  return {
+    attach,
+
+    hits() {
+      return rules.map((rule, i) => ({ rule: i + 1, label: formatRequestRule(rule), count: counts[i] }));
+    },
+
+    async dispose() {
+      await Promise.all(detach.splice(0).map((off) => off()));
+    },
+  };
+}
@@ -3,9 +3,23 @@
 // ============================================================================
 // This module captures the state of the web page and extracts actionable
 // elements and their selectors for the AI agent to reason about.
+//
+// Two observer modes:
+//   - "axtree" (default): walks the browser's accessibility tree (CDP) and
+//     keeps every node with an interactive role — this catches custom widgets
+//     such as <div role="option">, tabs, switches and contenteditable editors.
+//     Each node carries its computed role, accessible name, description,
+//     states and ancestor chain. Elements the legacy selector list would have
+//     found but the AX tree does not expose are still added.
+//   - "dom": the legacy fixed querySelectorAll list only.
+//
+// Both modes pierce open shadow roots (CSS selectors use Puppeteer's `>>>`
+// deep combinator) and visit every frame, same- or cross-origin. Elements in
+// a frame carry `selectors.framePath`, the iframe selectors leading to it.
 // ============================================================================
 
-import type { Page } from "puppeteer";
+import type { ElementHandle, Frame, HTTPRequest, Page, SerializedAXNode } from "puppeteer";
+import { frameIndexEntry } from "./locators";
 
 // ============================================================================
 // TYPES
@@ -29,26 +43,140 @@ export interface ActionableElement {
   position: { x: number; y: number };
   isVisible: boolean;
   isInteractive: boolean;
+  accessibleName?: string; // Computed name (AX tree when available, else label/aria/text)
+  labelText?: string; // <label for>, wrapping <label> or aria-labelledby text
+  context?: string; // Nearest heading / legend / named region above the element
+  accessibility?: AccessibilityInfo; // Only in "axtree" mode
+}
+
+export type ObserverMode = "dom" | "axtree";
+
+export interface AccessibilityInfo {
+  role: string; // Computed role, e.g. "button", "option", "tab"
+  name: string; // Accessible name
+  description?: string;
+  states: AccessibilityStates;
+  ancestors: string[]; // Nearest-first named container chain, e.g. ['listbox "Colour"', 'dialog "Filters"']
+}
+
+export interface AccessibilityStates {
+  disabled?: boolean;
+  expanded?: boolean;
+  checked?: boolean | "mixed";
+  selected?: boolean;
+  pressed?: boolean | "mixed";
+  required?: boolean;
+  readonly?: boolean;
+  focused?: boolean;
 }
 
 export interface ElementSelectors {
-  css?: string; // CSS selector
-  xpath?: string; // XPath selector
+  css?: string; // Most robust unique CSS selector ("host >>> inner" inside shadow roots)
+  xpath?: string; // Most robust unique XPath (not set inside shadow roots)
   testId?: string; // data-testid attribute
   ariaLabel?: string; // aria-label attribute
   placeholder?: string; // placeholder text
+  framePath?: string[]; // iframe selectors from the top document down; absent = main frame
+  candidates?: SelectorCandidate[]; // Every unique selector found, most robust first
+}
+
+// Ranked most → least robust. Every candidate matched exactly this element
+// (within its frame) when the snapshot was taken.
+export type SelectorStrategy = "testId" | "id" | "name" | "aria" | "text" | "css" | "xpath";
+
+export interface SelectorCandidate {
+  strategy: SelectorStrategy;
+  kind: "css" | "xpath"; // How to evaluate `selector`
+  selector: string;
+}
+
+export type StabilitySignal = "network" | "dom" | "animations" | "readyCheck";
+
+export interface StabilityOptions {
+  networkQuietMs?: number; // No short-lived request in flight for this long
+  domQuietMs?: number; // No DOM mutation for this long
+  readyCheck?: string; // App-specific JS expression that must be truthy, e.g. "window.appReady === true"
+}
+
+export interface StabilityResult {
+  stable: boolean;
+  durationMs: number;
+  waitedOn: StabilitySignal[]; // Signals that were not settled at some point during the wait
+  pending: StabilitySignal[]; // Signals still unsettled when the timeout hit (empty when stable)
 }
 
 // ============================================================================
 // OBSERVER FUNCTIONS
 // ============================================================================
 
+// Roles a user can act on — anything else in the AX tree is context only
+const INTERACTIVE_ROLES = new Set([
+  "button",
+  "link",
+  "textbox",
+  "searchbox",
+  "combobox",
+  "listbox",
+  "option",
+  "checkbox",
+  "radio",
+  "switch",
+  "slider",
+  "spinbutton",
+  "tab",
+  "menuitem",
+  "menuitemcheckbox",
+  "menuitemradio",
+  "treeitem",
+  "gridcell",
+]);
+
+// Roles worth naming in an element's ancestor chain
+const CONTAINER_ROLES = new Set([
+  "dialog",
+  "alertdialog",
+  "form",
+  "navigation",
+  "banner",
+  "main",
+  "region",
+  "search",
+  "list",
+  "listbox",
+  "menu",
+  "menubar",
+  "tablist",
+  "tabpanel",
+  "tree",
+  "grid",
+  "table",
+  "row",
+  "group",
+  "radiogroup",
+  "toolbar",
+]);
+
+// Legacy DOM-mode candidates (also the fallback sweep in "axtree" mode)
+const DOM_CANDIDATE_SELECTORS = [
+  'button',
+  'a',
+  'input',
+  'textarea',
+  'select',
+  '[role="button"]',
+  '[onclick]',
+  '[data-testid]',
+];
+
 /**
  * Capture a snapshot of the current page state
  * This is the "Observe" step in the Agentic Loop
  */
-export async function captureSnapshot(page: Page): Promise<DOMSnapshot> {
-  console.log("📸 Observer: Capturing DOM snapshot...");
+export async function captureSnapshot(
+  page: Page,
+  mode: ObserverMode = "axtree"
+): Promise<DOMSnapshot> {
+  console.log(`📸 Observer: Capturing ${mode === "axtree" ? "accessibility-tree" : "DOM"} snapshot...`);
 
   // Get basic page info
   const url = page.url();
@@ -61,7 +189,17 @@ export async function captureSnapshot(page: Page): Promise<DOMSnapshot> {
   const screenshot = await page.screenshot({ encoding: "base64" });
 
   // Extract all actionable elements
-  const actionableElements = await extractActionableElements(page);
+  let actionableElements: ActionableElement[];
+  if (mode === "axtree") {
+    try {
+      actionableElements = await extractAccessibleElements(page);
+    } catch (error) {
+      console.warn("⚠️  Observer: Accessibility tree unavailable, falling back to DOM mode", error);
+      actionableElements = await extractActionableElements(page);
+    }
+  } else {
+    actionableElements = await extractActionableElements(page);
+  }
 
   const snapshot: DOMSnapshot = {
     url,
@@ -76,29 +214,200 @@ export async function captureSnapshot(page: Page): Promise<DOMSnapshot> {
   return snapshot;
 }
 
+/**
+ * Extract interactive elements from the accessibility tree, mapped back to
+ * their DOM nodes. Anything the legacy selector list (plus contenteditable)
+ * finds that the AX tree did not expose is appended without AX info.
+ */
+async function extractAccessibleElements(page: Page): Promise<ActionableElement[]> {
+  const root = await page.accessibility.snapshot({ interestingOnly: true, includeIframes: true });
+  if (!root) throw new Error("Empty accessibility tree");
+
+  const targets: { node: SerializedAXNode; ancestors: string[] }[] = [];
+  const walk = (node: SerializedAXNode, ancestors: string[]) => {
+    if (INTERACTIVE_ROLES.has(node.role)) targets.push({ node, ancestors });
+    const label = CONTAINER_ROLES.has(node.role)
+      ? (node.name ? `${node.role} "${node.name}"` : node.role)
+      : null;
+    const childAncestors = label ? [label, ...ancestors].slice(0, 4) : ancestors;
+    for (const child of node.children ?? []) walk(child, childAncestors);
+  };
+  walk(root, []);
+
+  const handles: ElementHandle[] = [];
+  const infos: AccessibilityInfo[] = [];
+  for (const { node, ancestors } of targets) {
+    const handle = await node.elementHandle();
+    if (!handle) continue;
+    handles.push(handle as ElementHandle);
+    infos.push({
+      role: node.role,
+      name: node.name ?? "",
+      description: node.description || undefined,
+      states: {
+        disabled: node.disabled,
+        expanded: node.expanded,
+        checked: node.checked,
+        selected: node.selected,
+        pressed: node.pressed,
+        required: node.required,
+        readonly: node.readonly,
+        focused: node.focused,
+      },
+      ancestors,
+    });
+  }
+
+  try {
+    const sweep = [...DOM_CANDIDATE_SELECTORS, '[contenteditable]:not([contenteditable="false"])'];
+    return await collectFromFrames(page, sweep, infos, handles);
+  } finally {
+    await Promise.all(handles.map((h) => h.dispose().catch(() => undefined)));
+  }
+}
+
 /**
  * Extract all interactive/actionable elements from the page
  * These are elements the AI can click, type into, etc.
  */
 async function extractActionableElements(page: Page): Promise<ActionableElement[]> {
-  return await page.evaluate(() => {
+  return await collectFromFrames(page, DOM_CANDIDATE_SELECTORS, [], []);
+}
+
+/**
+ * Run `collectElements` in every frame of the page and tag the results with
+ * the frame's path. A frame that detaches or can't be reached is skipped.
+ */
+async function collectFromFrames(
+  page: Page,
+  candidateSelectors: string[],
+  axInfos: AccessibilityInfo[],
+  axHandles: ElementHandle[]
+): Promise<ActionableElement[]> {
+  const all: ActionableElement[] = [];
+
+  for (const [k, frame] of page.frames().entries()) {
+    if (frame.detached) continue;
+    const isMain = frame === page.mainFrame();
+
+    try {
+      const framePath = isMain ? undefined : await getFramePath(frame);
+      if (!isMain && !framePath) continue;
+
+      const owned = axHandles.map((h, i) => ({ h, i })).filter(({ h }) => h.frame === frame);
+      const elements = await collectElements(
+        frame,
+        isMain ? "element" : `frame${k}-element`,
+        candidateSelectors,
+        owned.map(({ i }) => axInfos[i]),
+        owned.map(({ h }) => h)
+      );
+      for (const el of elements) {
+        if (framePath) el.selectors.framePath = framePath;
+        all.push(el);
+      }
+    } catch (error) {
+      console.warn(`⚠️  Observer: could not read frame ${frame.url()}`, error);
+    }
+  }
+
+  return all;
+}
+
+/**
+ * Selectors of the <iframe> elements leading from the main frame to `frame`.
+ * Stable attributes first (id, name, title — used only when unique), else a
+ * nth-of-type path from the nearest ancestor with an id, else (not unique,
+ * e.g. inside a shadow root) the frame's index under its parent frame. src is
+ * not used: it often carries per-load tokens.
+ */
+async function getFramePath(frame: Frame): Promise<string[] | null> {
+  const path: string[] = [];
+  let current: Frame | null = frame;
+
+  while (current?.parentFrame()) {
+    const owner = await current.frameElement();
+    if (!owner) return null;
+    try {
+      const selector = await owner.evaluate((el) => {
+        const tag = el.tagName.toLowerCase();
+        // Exactly one match, and it is this iframe (a document query never
+        // reaches into shadow roots)
+        const unique = (selector: string) => {
+          const matches = el.ownerDocument.querySelectorAll(selector);
+          return matches.length === 1 && matches[0] === el;
+        };
+        const keyed = [
+          el.id ? `${tag}#${CSS.escape(el.id)}` : null,
+          ...["name", "title"].map((attr) => {
+            const value = el.getAttribute(attr);
+            return value ? `${tag}[${attr}="${CSS.escape(value)}"]` : null;
+          }),
+        ].find((selector) => selector && unique(selector));
+        if (keyed) return keyed;
+
+        // Positional: nth-of-type at every level up to an id'd ancestor or <body>
+        const steps: string[] = [];
+        for (let node: Element | null = el; node; node = node.parentElement) {
+          const nodeTag = node.tagName.toLowerCase();
+          if (node !== el && node.id) {
+            steps.unshift(`${nodeTag}#${CSS.escape(node.id)}`);
+            break;
+          }
+          if (node === node.ownerDocument.body) {
+            steps.unshift("body");
+            break;
+          }
+          const siblings = Array.from(node.parentElement?.children ?? []).filter((c) => c.tagName === node!.tagName);
+          steps.unshift(`${nodeTag}:nth-of-type(${siblings.indexOf(node) + 1})`);
+        }
+        const positional = steps.join(" > ");
+        return unique(positional) ? positional : null;
+      });
+      path.unshift(selector ?? frameIndexEntry(current.parentFrame()!.childFrames().indexOf(current)));
+    } finally {
+      await owner.dispose();
+    }
+    current = current.parentFrame();
+  }
+
+  return path;
+}
+
+/**
+ * Describe the given AX-backed elements (in order) followed by any element
+ * matching `candidateSelectors` — including inside open shadow roots — that
+ * is not one of them. Runs in the frame.
+ */
+async function collectElements(
+  frame: Frame,
+  idPrefix: string,
+  candidateSelectors: string[],
+  axInfos: AccessibilityInfo[],
+  axHandles: ElementHandle[]
+): Promise<ActionableElement[]> {
+  return await frame.evaluate((prefix: string, selectors: string[], infos: AccessibilityInfo[], ...axNodes: Element[]) => {
     const elements: ActionableElement[] = [];
-    
-    // Target interactive elements
-    const selectors = [
-      'button',
-      'a',
-      'input',
-      'textarea',
-      'select',
-      '[role="button"]',
-      '[onclick]',
-      '[data-testid]',
-    ];
-
-    const nodes = document.querySelectorAll(selectors.join(','));
-
-    nodes.forEach((node, index) => {
+
+    const candidates: { node: Element; ax?: AccessibilityInfo }[] = axNodes.map((node, i) => ({
+      node,
+      ax: infos[i],
+    }));
+    const seen = new Set<Element>(axNodes);
+    const sweep = (root: Document | ShadowRoot) => {
+      root.querySelectorAll(selectors.join(',')).forEach((node) => {
+        if (!seen.has(node)) {
+          seen.add(node);
+          candidates.push({ node });
+        }
+      });
+      root.querySelectorAll('*').forEach((node) => {
+        if (node.shadowRoot) sweep(node.shadowRoot);
+      });
+    };
+    sweep(document);
+
+    candidates.forEach(({ node, ax }, index) => {
       const element = node as HTMLElement;
       
       // Check if element is visible and interactive
@@ -114,6 +423,7 @@ async function extractActionableElements(page: Page): Promise<ActionableElement[
                    (element as HTMLInputElement).value ||
                    element.getAttribute('aria-label') ||
                    element.getAttribute('placeholder') ||
+                   ax?.name ||
                    '';
 
       // Extract attributes
@@ -122,17 +432,24 @@ async function extractActionableElements(page: Page): Promise<ActionableElement[
         attributes[attr.name] = attr.value;
       });
 
-      // Generate multiple selector strategies
+      // Label association + accessible name + section context
+      const labelText = getLabelText(element);
+      const accessibleName = ax?.name || computeAccessibleName(element, labelText);
+      const context = getSectionContext(element);
+
+      // Generate multiple selector strategies (only unique ones survive)
+      const candidates = buildSelectorCandidates(element);
       const selectors: ElementSelectors = {
-        css: generateCSSSelector(element),
-        xpath: generateXPathSelector(element),
+        css: candidates.find(c => c.kind === 'css')?.selector,
+        xpath: candidates.find(c => c.kind === 'xpath')?.selector,
         testId: element.getAttribute('data-testid') || undefined,
         ariaLabel: element.getAttribute('aria-label') || undefined,
         placeholder: element.getAttribute('placeholder') || undefined,
+        candidates,
       };
 
       elements.push({
-        id: `element-${index}`,
+        id: `${prefix}-${index}`,
         tagName: element.tagName.toLowerCase(),
         text,
         attributes,
@@ -140,64 +457,437 @@ async function extractActionableElements(page: Page): Promise<ActionableElement[
         position: { x: rect.left, y: rect.top },
         isVisible,
         isInteractive: true,
+        accessibleName: accessibleName || undefined,
+        labelText: labelText || undefined,
+        context: context || undefined,
+        ...(ax ? { accessibility: ax } : {}),
       });
     });
 
     return elements;
 
-    // Helper: Generate CSS selector for an element
-    function generateCSSSelector(element: Element): string {
-      // Try ID first - most reliable
-      if (element.id) return `#${element.id}`;
-      
-      // Try data-testid - industry standard for testing
+    // Helper: Text of the labels associated with a form control
+    function getLabelText(element: HTMLElement): string {
+      const parts: string[] = [];
+      const labelledBy = element.getAttribute('aria-labelledby');
+      if (labelledBy) {
+        const root = element.getRootNode() as Document | ShadowRoot;
+        for (const id of labelledBy.split(/\s+/)) {
+          const ref = root.getElementById?.(id) ?? document.getElementById(id);
+          if (ref?.textContent) parts.push(ref.textContent);
+        }
+      }
+      const labels = (element as HTMLInputElement).labels; // <label for> + wrapping <label>
+      if (labels) {
+        for (const label of Array.from(labels)) {
+          // A wrapping label also contains the control's own text/options
+          const clone = label.cloneNode(true) as HTMLElement;
+          clone.querySelectorAll('input, select, textarea, button').forEach(c => c.remove());
+          if (clone.textContent) parts.push(clone.textContent);
+        }
+      }
+      return collapse(parts.join(' ')).slice(0, 120);
+    }
+
+    // Helper: Simplified accname — aria-labelledby / label / aria-label,
+    // then control-specific fallbacks, then subtree text
+    function computeAccessibleName(element: HTMLElement, labelText: string): string {
+      const tag = element.tagName.toLowerCase();
+      const type = (element.getAttribute('type') || '').toLowerCase();
+      const candidates = [
+        labelText,
+        element.getAttribute('aria-label'),
+        tag === 'input' && ['submit', 'button', 'reset'].includes(type) ? (element as HTMLInputElement).value : null,
+        tag === 'input' && type === 'image' ? element.getAttribute('alt') : null,
+        ['input', 'textarea', 'select'].includes(tag) ? null : element.textContent,
+        element.querySelector('img[alt]')?.getAttribute('alt'),
+        element.getAttribute('title'),
+        element.getAttribute('placeholder'),
+      ];
+      for (const candidate of candidates) {
+        const name = collapse(candidate || '');
+        if (name) return name.slice(0, 120);
+      }
+      return '';
+    }
+
+    // Helper: Nearest legend / heading before the element, or a named region around it
+    function getSectionContext(element: HTMLElement): string {
+      let node: Element | null = element.parentElement;
+      for (let depth = 0; node && depth < 8; depth++, node = node.parentElement) {
+        const legend = node.tagName === 'FIELDSET' ? node.querySelector(':scope > legend') : null;
+        if (legend?.textContent) return collapse(legend.textContent).slice(0, 80);
+
+        const headings = Array.from(node.querySelectorAll('h1, h2, h3, h4, h5, h6, [role="heading"]')).filter(
+          h => !h.contains(element) && (h.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_FOLLOWING)
+        );
+        const heading = headings[headings.length - 1];
+        if (heading?.textContent) return collapse(heading.textContent).slice(0, 80);
+
+        const regionName = node.getAttribute('aria-label');
+        if (regionName && /^(FORM|SECTION|NAV|ASIDE|DIALOG)$/.test(node.tagName)) {
+          return collapse(regionName).slice(0, 80);
+        }
+      }
+      return '';
+    }
+
+    function collapse(value: string): string {
+      return value.replace(/\s+/g, ' ').trim();
+    }
+
+    // Helper: Ranked, uniqueness-verified selectors for an element.
+    // CSS candidates are checked inside the element's own root (document or
+    // shadow root) and prefixed with the host's selector ("host >>> inner").
+    function buildSelectorCandidates(element: Element): SelectorCandidate[] {
+      const root = element.getRootNode() as Document | ShadowRoot;
+      const inShadow = root instanceof ShadowRoot;
+      const hostPrefix = inShadow ? deepHostPrefix(root.host) : '';
+      if (hostPrefix === null) return []; // Host itself can't be addressed uniquely
+
+      const tag = element.tagName.toLowerCase();
+      const out: SelectorCandidate[] = [];
+      const addCss = (strategy: SelectorStrategy, selector: string | null) => {
+        if (selector && isUniqueCss(root, selector, element)) {
+          out.push({ strategy, kind: 'css', selector: hostPrefix + selector });
+        }
+      };
+      const addXPath = (strategy: SelectorStrategy, selector: string | null) => {
+        if (!inShadow && selector && isUniqueXPath(selector, element)) {
+          out.push({ strategy, kind: 'xpath', selector });
+        }
+      };
+
       const testId = element.getAttribute('data-testid');
-      if (testId) return `[data-testid="${testId}"]`;
+      if (testId) addCss('testId', `[data-testid="${cssString(testId)}"]`);
+
+      if (isStableId(element.id)) addCss('id', `#${CSS.escape(element.id)}`);
 
-      // Try unique attributes like 'name' or 'type'
       const name = element.getAttribute('name');
-      if (name) return `${element.tagName.toLowerCase()}[name="${name}"]`;
+      if (name) addCss('name', `${tag}[name="${cssString(name)}"]`);
 
-      // Try class + tag - combine them to be more specific
-      if (element.className && typeof element.className === 'string') {
-        const classes = element.className.split(' ').filter(c => c && !c.includes(':')).join('.');
-        if (classes) return `${element.tagName.toLowerCase()}.${classes}`;
+      const aria = element.getAttribute('aria-label');
+      if (aria) addCss('aria', `${tag}[aria-label="${cssString(aria)}"]`);
+
+      const ownText = (element.textContent || '').trim().replace(/\s+/g, ' ');
+      if (ownText && ownText.length <= 60) {
+        addXPath('text', `//${tag}[normalize-space()=${xpathString(ownText)}]`);
       }
 
-      // If we're in a demo/test environment, we want to avoid tag-only fallbacks
-      // as they are too broad and hide the healing logic.
-      // But for production, we'd keep it. 
-      // Let's make it an nth-child fallback for more specificity.
-      const parent = element.parentElement;
-      if (parent) {
-        const index = Array.from(parent.children).indexOf(element) + 1;
-        return `${element.tagName.toLowerCase()}:nth-child(${index})`;
+      addCss('css', ancestorQualifiedCss(element, root));
+      addXPath('xpath', fullXPath(element));
+
+      return out;
+    }
+
+    // Shortest "anc > … > el" path that matches only this element in its root,
+    // anchored at the nearest ancestor with a stable id / test id.
+    function ancestorQualifiedCss(element: Element, root: Document | ShadowRoot): string | null {
+      const parts: string[] = [];
+      let node: Element | null = element;
+
+      while (node) {
+        if (node !== element) {
+          const anchorTestId = node.getAttribute('data-testid');
+          if (anchorTestId) {
+            parts.unshift(`[data-testid="${cssString(anchorTestId)}"]`);
+            break;
+          }
+          if (isStableId(node.id)) {
+            parts.unshift(`#${CSS.escape(node.id)}`);
+            break;
+          }
+        }
+
+        let part = node.tagName.toLowerCase();
+        const classes = stableClasses(node);
+        if (classes.length > 0) part += '.' + classes.map(c => CSS.escape(c)).join('.');
+        const parent: Element | null = node.parentElement;
+        if (parent) {
+          const sameTag = Array.from(parent.children).filter(c => c.tagName === node!.tagName);
+          if (sameTag.length > 1) part += `:nth-of-type(${sameTag.indexOf(node) + 1})`;
+        }
+        parts.unshift(part);
+
+        if (isUniqueCss(root, parts.join(' > '), element)) return parts.join(' > ');
+        node = parent;
       }
 
-      return element.tagName.toLowerCase();
+      const selector = parts.join(' > ');
+      return isUniqueCss(root, selector, element) ? selector : null;
     }
 
-    // Helper: Generate XPath for an element
-    function generateXPathSelector(element: Element): string {
-      if (element.id) return `//*[@id="${element.id}"]`;
-      
-      const testId = element.getAttribute('data-testid');
-      if (testId) return `//*[@data-testid="${testId}"]`;
+    // Absolute "/html[1]/body[1]/…" path (always unique, least robust)
+    function fullXPath(element: Element): string {
+      const steps: string[] = [];
+      let node: Element | null = element;
+      while (node) {
+        const parent: Element | null = node.parentElement;
+        const sameTag = parent
+          ? Array.from(parent.children).filter(c => c.tagName === node!.tagName)
+          : [node];
+        steps.unshift(`${node.tagName.toLowerCase()}[${sameTag.indexOf(node) + 1}]`);
+        node = parent;
+      }
+      return '/' + steps.join('/');
+    }
 
-      // Simple XPath fallback
-      return `//${element.tagName.toLowerCase()}`;
+    // Selector prefix that reaches a shadow host from the document
+    function deepHostPrefix(host: Element): string | null {
+      const css = buildSelectorCandidates(host).find(c => c.kind === 'css');
+      return css ? `${css.selector} >>> ` : null;
     }
-  });
+
+    function isUniqueCss(root: Document | ShadowRoot, selector: string, element: Element): boolean {
+      try {
+        const matches = root.querySelectorAll(selector);
+        return matches.length === 1 && matches[0] === element;
+      } catch {
+        return false; // Invalid selector
+      }
+    }
+
+    function isUniqueXPath(selector: string, element: Element): boolean {
+      try {
+        const result = document.evaluate(selector, document, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+        return result.snapshotLength === 1 && result.snapshotItem(0) === element;
+      } catch {
+        return false;
+      }
+    }
+
+    // Framework-generated ids (":r1:", "ember123", long digit runs) change per render
+    function isStableId(id: string): boolean {
+      return !!id && !/[:\s]|^\d|\d{4,}|^(ember|react|radix|headlessui|mui)/i.test(id);
+    }
+
+    // Utility / state / hashed classes make poor anchors
+    function stableClasses(element: Element): string[] {
+      if (typeof element.className !== 'string') return [];
+      return element.className
+        .split(/\s+/)
+        .filter(c => c && !c.includes(':') && !/\d{3,}|^(is-|has-|active|hover|focus|selected|open)/.test(c))
+        .slice(0, 2);
+    }
+
+    function cssString(value: string): string {
+      return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+    }
+
+    function xpathString(value: string): string {
+      if (!value.includes('"')) return `"${value}"`;
+      if (!value.includes("'")) return `'${value}'`;
+      return `concat("${value.split('"').join(`", '"', "`)}")`;
+    }
+  }, idPrefix, candidateSelectors, axInfos, ...axHandles);
+}
+
+/**
+ * Compact AX summary for LLM prompts, e.g.
+ *   role:"option" states:[selected] in:'listbox "Colour"'
+ * Empty for elements observed without the accessibility tree. The accessible
+ * name itself is part of formatElementContext().
+ */
+export function formatAccessibility(element: ActionableElement): string {
+  const ax = element.accessibility;
+  if (!ax) return "";
+  const states = Object.entries(ax.states)
+    .filter(([, value]) => value !== undefined && value !== false)
+    .map(([key, value]) => (value === true ? key : `${key}=${value}`));
+  return [
+    `role:"${ax.role}"`,
+    ax.description && `desc:"${ax.description.slice(0, 60)}"`,
+    states.length > 0 && `states:[${states.join(",")}]`,
+    ax.ancestors.length > 0 && `in:${ax.ancestors[0]}`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+/**
+ * Name / label / section context for LLM prompts, e.g.
+ *   name:"Email" label:"Email address" section:"Shipping details"
+ * Fields that repeat the visible text or the name are left out.
+ */
+export function formatElementContext(element: ActionableElement): string {
+  const text = (element.text || "").trim();
+  return [
+    element.accessibleName && element.accessibleName !== text && `name:"${element.accessibleName.slice(0, 60)}"`,
+    element.labelText && element.labelText !== element.accessibleName && `label:"${element.labelText.slice(0, 60)}"`,
+    element.context && `section:"${element.context.slice(0, 60)}"`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+// ============================================================================
+// PAGE STABILITY
+// ============================================================================
+// A page counts as stable when ALL of these hold at the same time:
+//   - network: no short-lived request in flight for networkQuietMs. Requests
+//     older than LONG_REQUEST_MS (long-polling) and websocket / event-stream
+//     traffic are ignored, so SPAs that never go fully idle still settle.
+//   - dom: no mutation for domQuietMs (MutationObserver in the page), so
+//     client-side re-renders after the network went quiet are waited for.
+//   - animations: no finite CSS / Web animation still running (infinite
+//     spinners are ignored).
+//   - readyCheck: the optional app-specific expression is truthy.
+// On timeout the caller continues as before, but learns what was pending.
+
+const DEFAULT_NETWORK_QUIET_MS = 500;
+const DEFAULT_DOM_QUIET_MS = 300;
+const LONG_REQUEST_MS = 5000;
+const STABILITY_POLL_MS = 100;
+
+/**
+ * Wait for the page to be stable (network quiet, DOM quiet, animations done,
+ * ready check passing). Never throws; reports what it waited on instead.
+ */
+export async function waitForPageStable(
+  page: Page,
+  timeout: number = 5000,
+  options: StabilityOptions = {}
+): Promise<StabilityResult> {
+  const networkQuietMs = options.networkQuietMs ?? DEFAULT_NETWORK_QUIET_MS;
+  const domQuietMs = options.domQuietMs ?? DEFAULT_DOM_QUIET_MS;
+  const startedAt = Date.now();
+  const waitedOn = new Set<StabilitySignal>();
+  const network = trackNetwork(page);
+
+  try {
+    while (true) {
+      const unsettled: StabilitySignal[] = [];
+      if (network.quietFor() < networkQuietMs) unsettled.push("network");
+
+      // Null while the page is navigating (execution context destroyed)
+      const state = await inspectPageState(page, domQuietMs, options.readyCheck);
+      if (!state) {
+        unsettled.push("dom");
+      } else {
+        if (!state.domQuiet) unsettled.push("dom");
+        if (state.runningAnimations > 0) unsettled.push("animations");
+        if (!state.ready) unsettled.push("readyCheck");
+      }
+
+      unsettled.forEach((signal) => waitedOn.add(signal));
+      const durationMs = Date.now() - startedAt;
+
+      if (unsettled.length === 0) {
+        return { stable: true, durationMs, waitedOn: [...waitedOn], pending: [] };
+      }
+      if (durationMs >= timeout) {
+        return { stable: false, durationMs, waitedOn: [...waitedOn], pending: unsettled };
+      }
+      await new Promise((resolve) => setTimeout(resolve, STABILITY_POLL_MS));
+    }
+  } finally {
+    network.dispose();
+  }
 }
 
 /**
- * Wait for page to be stable (no network activity, animations complete)
+ * One-line summary for logs, e.g.
+ *   "stable after 820ms (waited on network, dom)"
+ *   "NOT stable after 30000ms (pending: network)"
  */
-export async function waitForPageStable(page: Page, timeout: number = 5000): Promise<void> {
+export function formatStability(result: StabilityResult): string {
+  if (result.stable) {
+    return `stable after ${result.durationMs}ms${
+      result.waitedOn.length > 0 ? ` (waited on ${result.waitedOn.join(", ")})` : ""
+    }`;
+  }
+  return `NOT stable after ${result.durationMs}ms (pending: ${result.pending.join(", ")})`;
+}
+
+/**
+ * Count the page's in-flight requests from now on. Only requests started
+ * while tracking are known — ones already in flight are noticed when they end.
+ */
+function trackNetwork(page: Page): { quietFor: () => number; dispose: () => void } {
+  const inFlight = new Map<HTTPRequest, number>(); // request → start time
+  let lastActivity = Date.now();
+
+  const onRequest = (request: HTTPRequest) => {
+    const type = request.resourceType();
+    if (type === "websocket" || type === "eventsource") return;
+    inFlight.set(request, Date.now());
+    lastActivity = Date.now();
+  };
+  const onDone = (request: HTTPRequest) => {
+    if (inFlight.delete(request)) lastActivity = Date.now();
+  };
+
+  page.on("request", onRequest);
+  page.on("requestfinished", onDone);
+  page.on("requestfailed", onDone);
+
+  return {
+    quietFor: () => {
+      const now = Date.now();
+      for (const startedAt of inFlight.values()) {
+        if (now - startedAt < LONG_REQUEST_MS) return 0;
+      }
+      return now - lastActivity;
+    },
+    dispose: () => {
+      page.off("request", onRequest);
+      page.off("requestfinished", onDone);
+      page.off("requestfailed", onDone);
+    },
+  };
+}
+
+async function inspectPageState(
+  page: Page,
+  domQuietMs: number,
+  readyCheck: string | undefined
+): Promise<{ domQuiet: boolean; runningAnimations: number; ready: boolean } | null> {
+  try {
+    const state = await page.evaluate((quietMs: number) => {
+      // Install once per document; records the time of the latest mutation
+      const w = window as any;
+      if (!w.__stabilityObserver) {
+        w.__stabilityLastMutation = performance.now();
+        w.__stabilityObserver = new MutationObserver(() => {
+          w.__stabilityLastMutation = performance.now();
+        });
+        w.__stabilityObserver.observe(document, {
+          subtree: true,
+          childList: true,
+          attributes: true,
+          characterData: true,
+        });
+      }
+
+      const runningAnimations =
+        typeof document.getAnimations === "function"
+          ? document.getAnimations().filter((a) => {
+              if (a.playState !== "running") return false;
+              const iterations = a.effect?.getComputedTiming().iterations;
+              return iterations !== Infinity;
+            }).length
+          : 0;
+
+      return {
+        domQuiet:
+          document.readyState !== "loading" && performance.now() - w.__stabilityLastMutation >= quietMs,
+        runningAnimations,
+      };
+    }, domQuietMs);
+
+    return { ...state, ready: readyCheck ? await evaluateReadyCheck(page, readyCheck) : true };
+  } catch {
+    return null;
+  }
+}
+
+// A check that throws (bad syntax, missing globals) is simply not ready, so
+// the wait reports readyCheck rather than the DOM
+async function evaluateReadyCheck(page: Page, readyCheck: string): Promise<boolean> {
   try {
-    await page.waitForNetworkIdle({ timeout });
-  } catch (error) {
-    console.warn(" Observer: Page did not become idle within timeout");
+    return (await page.evaluate(`Boolean(${readyCheck})`)) === true;
+  } catch {
+    return false;
   }
 }
 
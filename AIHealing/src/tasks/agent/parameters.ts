@@ -0,0 +1,162 @@
+// ============================================================================
+// PARAMETERS - Data-Driven Test Suites
+// ============================================================================
+// A test suite can carry a table of parameter rows (pasted as CSV or JSON).
+// The suite's plan is written ONCE with {{placeholders}} left in place, then
+// executed once per row with the placeholders filled from that row:
+//
+//   goal:  "Search for {{term}} and open the first result"
+//   rows:  [{ term: "headphones" }, { term: "usb-c cable" }]
+//
+// Step descriptors keep their placeholders, so the descriptor (= cache key in
+// the vector DB) is identical for every row and the golden-state memory is
+// shared across iterations. Only expectedValue / condition values are filled.
+// {{secret.NAME}} placeholders are not parameters — see secrets.ts.
+// ============================================================================
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ParameterRow = Record<string, string>;
+
+export type ParameterFormat = "csv" | "json";
+
+// Hard cap so a pasted spreadsheet can't queue hundreds of browser runs
+export const MAX_PARAMETER_ROWS = 50;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+// ============================================================================
+// PLACEHOLDERS
+// ============================================================================
+
+/**
+ * Replace {{name}} placeholders with values from the row. Placeholders with
+ * no matching column are left untouched so they stay visible in logs.
+ */
+export function fillPlaceholders(text: string, row: ParameterRow | undefined): string {
+  if (!row) return text;
+  return text.replace(PLACEHOLDER_PATTERN, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(row, name) ? row[name] : match
+  );
+}
+
+/**
+ * Names of all placeholders referenced in the given texts (deduplicated)
+ */
+export function findPlaceholders(...texts: (string | undefined)[]): string[] {
+  const names = new Set<string>();
+  for (const text of texts) {
+    if (!text) continue;
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!match[1].startsWith("secret.")) names.add(match[1]);
+    }
+  }
+  return [...names];
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse a pasted parameter table. Throws with a user-facing message when the
+ * table is malformed; an empty input yields no rows (= a plain single run).
+ */
+export function parseParameterTable(format: ParameterFormat, input: string): ParameterRow[] {
+  const trimmed = input.trim();
+  if (!trimmed) return [];
+
+  const rows = format === "json" ? parseJsonRows(trimmed) : parseCsvRows(trimmed);
+
+  if (rows.length > MAX_PARAMETER_ROWS) {
+    throw new Error(`At most ${MAX_PARAMETER_ROWS} parameter rows are allowed (got ${rows.length})`);
+  }
+  return rows;
+}
+
+function parseJsonRows(input: string): ParameterRow[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(input);
+  } catch {
+    throw new Error("Parameters are not valid JSON");
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error("JSON parameters must be an array of objects");
+  }
+
+  return parsed.map((raw, idx) => {
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      throw new Error(`Row ${idx + 1}: expected an object`);
+    }
+    const row: ParameterRow = {};
+    for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+      if (value !== null && typeof value === "object") {
+        throw new Error(`Row ${idx + 1}: "${key}" must be a string, number or boolean`);
+      }
+      row[key.trim()] = value === null || value === undefined ? "" : String(value);
+    }
+    return row;
+  });
+}
+
+function parseCsvRows(input: string): ParameterRow[] {
+  const records = splitCsv(input).filter((r) => r.some((cell) => cell.trim() !== ""));
+  if (records.length < 2) {
+    throw new Error("CSV parameters need a header row and at least one data row");
+  }
+
+  const header = records[0].map((h) => h.trim());
+  if (header.some((h) => !h)) {
+    throw new Error("CSV header has an empty column name");
+  }
+
+  return records.slice(1).map((cells, idx) => {
+    if (cells.length !== header.length) {
+      throw new Error(`Row ${idx + 1}: expected ${header.length} columns, got ${cells.length}`);
+    }
+    return Object.fromEntries(header.map((name, col) => [name, cells[col]]));
+  });
+}
+
+// Minimal RFC 4180 splitter: quoted fields, "" escapes, CRLF or LF line ends
+function splitCsv(input: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      record.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (inQuotes) throw new Error("CSV has an unterminated quoted field");
+  record.push(field);
+  records.push(record);
+  return records;
+}
@@ -3,44 +3,98 @@
 // ============================================================================
 // Cleaner architecture proposed by the user:
 //
-//   1. PLANNING PHASE (once)
-//      - Capture starting DOM
-//      - Planner LLM decomposes the goal into stable, descriptor-based steps
+//   1. PLANNING PHASE (once per suite, not per run)
+//      - If the caller passes a stored plan, execute it verbatim
+//      - Otherwise capture starting DOM and let the Planner LLM decompose the
+//        goal into stable, descriptor-based steps (persisted via onPlanCreated)
+//      - Planning is incremental: each newly reached URL gets its own phase
+//        (planNextPhase) until the Planner reports the goal covered or
+//        maxPlanLength is hit; phases are persisted via onPlanExtended
 //
-//   2. EXECUTION PHASE (loop over plan)
+//   2. EXECUTION PHASE (loop over plan; the tail may be revised mid-run)
 //      For each step descriptor:
 //        a. Generate semantic embedding of the descriptor
 //        b. RAG lookup in vector DB for past selectors (by embedding similarity)
 //        c. Capture the CURRENT DOM (fresh snapshot)
 //        d. If a cached selector exists AND points to an element in the
 //           current DOM   → execute the action (Branch A: cache hit)
-//        e. Else                                  → call llmHeal with the
-//           descriptor + current DOM, get a matched element, execute, save
-//                                                  (Branch B: drift / first run)
+//        e. Else, if the cached selector drifted → healElement: the exact
+//           text, text similarity, structural and embedding tiers, then
+//           llmHeal only when none clears its threshold  (Branch B-i: drift)
+//           On a first run → llmHeal picks the element  (Branch B-ii)
+//           Candidates a reviewer rejected for the descriptor are excluded.
+//           A heal below the suite's review threshold drives the run but is
+//           held for review instead of updating the golden state (review.ts)
+//        f. If even llmHeal finds nothing → ADAPTIVE RE-PLAN: ask the Planner
+//           for a revised tail from the current page and splice it in
+//           (bounded by maxReplans; every re-plan is recorded)
+//      Conditional steps are checked against the live page first and SKIPPED
+//      when their guard does not hold; optional steps that cannot be resolved
+//      or fail are SKIPPED instead of failing the run.
+//      A "flow" step is expanded in place into the sub-flow's steps; those
+//      read/write the flow's own golden-state namespace, shared by all suites.
+//      Tabs / popups a step opens are followed, and dialogs answered by the
+//      suite's policy (tabs.ts); both are recorded on the step log.
+//      The suite's request rules stub, delay, block or fail matching requests
+//      on every tracked page (network.ts).
 //
 // Notes vs the legacy `runAgentLoop`:
 //   - No per-step Thinker call (saves ~2/3 of LLM round-trips on the happy path)
 //   - Cache identity is the descriptor's embedding, not a per-iteration string
-//   - Healing is a single focused LLM call ("which element matches THIS intent
-//     on THIS page?") instead of a 4-strategy classical matcher
+//   - Healing asks the LLM ("which element matches THIS intent on THIS
+//     page?") only after the cheap deterministic tiers could not decide
 //   - Compatible with the existing AgentResult / StepLog / HealingEvent
 //     persistence in operations.ts
 // ============================================================================
 
 import type { Page } from "puppeteer";
-import { captureSnapshot, waitForPageStable } from "./observer";
-import { act, type ActionResult } from "./actor";
+import {
+  captureSnapshot,
+  formatStability,
+  waitForPageStable,
+  type ActionableElement,
+  type DOMSnapshot,
+  type ObserverMode,
+} from "./observer";
+import { act, parseDragOffset, type ActionResult } from "./actor";
+import type { LocatorStrategy } from "./locators";
 import type { Action, AIModelConfig } from "./thinker";
 import {
   saveGoldenState,
   findPersistentSelector,
   updatePersistentSelector,
+  flowNamespace,
   type VectorSearchResult,
 } from "./vectorDB";
 import { generateActionEmbedding, generateElementEmbedding, type EmbeddingConfig } from "./embeddings";
-import { planTestSuite, type PlanStep } from "./planner";
-import { llmHeal } from "./healer";
-import type { AgentResult, StepLog } from "./index";
+import {
+  planTestSuite,
+  planNextPhase,
+  replanRemainingSteps,
+  DEFAULT_PHASE_STEPS,
+  type PlanStep,
+  type PlanPhase,
+  type PlanResult,
+  type StepCondition,
+  type FlowDefinition,
+} from "./planner";
+import { healElement, llmHeal, type HealingThresholds } from "./healer";
+import { captureElementCrop, withoutBlocked, type BlockedCandidate } from "./review";
+import { EFFECT_ACTIONS } from "./effects";
+import { fillPlaceholders, type ParameterRow } from "./parameters";
+import { maskSnapshot, type SecretValues } from "./secrets";
+import { fingerprintSnapshot } from "./drift";
+import type { RunArchive } from "./archive";
+import { DEFAULT_DIALOG_POLICY, trackTabs, type DialogPolicy } from "./tabs";
+import { interceptRequests, type RequestInterceptor, type RequestRule } from "./network";
+import {
+  ABSENCE_ASSERTIONS,
+  DEFAULT_ASSERTION,
+  assertionNeedsElement,
+  formatAssertionResult,
+  type StepAssertion,
+} from "./assertions";
+import type { AgentResult, StepLog, StepStability, ReplanEvent } from "./index";
 
 // ============================================================================
 // TYPES
@@ -55,8 +109,48 @@ export interface PlanExecuteConfig {
   testSuiteId: string;
   embeddingConfig: EmbeddingConfig;
   shouldCancel?: () => boolean;
+  // Previously persisted plan. When present the Planner is skipped so the
+  // step descriptors (= cache keys) are identical to earlier runs.
+  plan?: PlanResult;
+  // Called once with a freshly generated plan so the caller can persist it
+  onPlanCreated?: (plan: PlanResult) => Promise<void>;
+  // Called whenever incremental planning adds a phase for a newly reached page
+  onPlanExtended?: (plan: PlanResult) => Promise<void>;
+  // Upper bound on adaptive re-plans per run (default 2, 0 disables)
+  maxReplans?: number;
+  // Upper bound on the total number of planned steps across all phases
+  maxPlanLength?: number;
+  // Data-driven row: fills {{placeholders}} in step values / conditions.
+  // The plan itself (and its descriptors) stays templated.
+  parameters?: ParameterRow;
+  // Decrypted {{secret.NAME}} values. Only the Actor sees them; snapshots are
+  // masked before they reach an LLM or the vector DB.
+  secrets?: SecretValues;
+  // Reusable sub-flows a "flow" step can reference (by name)
+  flows?: FlowDefinition[];
+  // "axtree" (default) observes via the accessibility tree; "dom" uses the legacy selector list
+  observerMode?: ObserverMode;
+  // App-specific JS expression that must be truthy before the page counts as stable
+  readyCheck?: string;
+  // Offline store for every snapshot + Planner / Healer decision (see archive.ts)
+  archive?: RunArchive;
+  // Order the Actor tries element locators in (default LOCATOR_STRATEGIES, see locators.ts)
+  locatorStrategies?: LocatorStrategy[];
+  // How alert / confirm / prompt / beforeunload dialogs are answered (default: accept)
+  dialogPolicy?: DialogPolicy;
+  // Request interception rules (stub / delay / block / fail), see network.ts
+  requestRules?: RequestRule[];
+  // Per-tier minimum confidence for deterministic / embedding healing (see healer.ts)
+  healingThresholds?: HealingThresholds;
+  // Heals below this confidence are held for review (absent = every heal is trusted)
+  reviewThreshold?: number;
+  // Candidates reviewers rejected; never picked for their descriptor again
+  blockedCandidates?: BlockedCandidate[];
 }
 
+const DEFAULT_MAX_REPLANS = 2;
+const DEFAULT_MAX_PLAN_LENGTH = 20;
+
 // ============================================================================
 // PUBLIC API
 // ============================================================================
@@ -71,40 +165,107 @@ export async function runPlanExecuteAgent(
 
   const startTime = Date.now();
   const logs: StepLog[] = [];
+  const replans: ReplanEvent[] = [];
+  const maxReplans = config.maxReplans ?? DEFAULT_MAX_REPLANS;
+  const maxPlanLength = config.maxPlanLength ?? DEFAULT_MAX_PLAN_LENGTH;
 
   let totalSteps = 0;
   let successfulSteps = 0;
   let failedSteps = 0;
   let healedSteps = 0;
+  let skippedSteps = 0;
+  let suspiciousSteps = 0;
+  let reviewSteps = 0;
+  let lastExecutedIndex = -1; // position in `steps` (flow sub-steps share one id)
   let isGoalAchieved = false;
+  let network: RequestInterceptor | undefined;
+  const tabs = trackTabs(page, config.dialogPolicy ?? DEFAULT_DIALOG_POLICY, (popup) => {
+    network?.attach(popup).catch((err) => console.warn("⚠️  Network: could not intercept new tab:", err));
+  });
+  const drainEvents = () => {
+    const events = tabs.drain();
+    return events.length > 0 ? events : undefined;
+  };
+
+  // Count + log a verify step that ran without a target element; false = stop the run
+  const recordElementlessVerify = (log: StepLog, optional: boolean | undefined): boolean => {
+    const passed = !!log.result?.success;
+    if (passed) successfulSteps++;
+    else if (optional) skippedSteps++;
+    else failedSteps++;
+    logs.push(passed || !optional ? log : { ...log, skipped: true });
+    if (!passed && !optional) console.log("❌ Assertion failed — stopping execution");
+    return passed || !!optional;
+  };
 
   try {
     // -------------------------------------------------------------------
     // 1. NAVIGATION
     // -------------------------------------------------------------------
+    if (config.requestRules && config.requestRules.length > 0) {
+      network = await interceptRequests(page, config.requestRules);
+    }
     await page.goto(config.startUrl, { waitUntil: "domcontentloaded" });
-    await waitForPageStable(page, config.timeout);
+    await settle(page, config, "initial navigation");
 
     // -------------------------------------------------------------------
-    // 2. PLANNING PHASE (single LLM call)
+    // 2. PLANNING PHASE (reuse stored plan, else plan the start page)
     // -------------------------------------------------------------------
-    const initialSnapshot = await captureSnapshot(page);
+    let plan: PlanResult;
+    if (config.plan && config.plan.steps.length > 0) {
+      plan = config.plan;
+      console.log(
+        `📋 Reusing stored plan (${plan.steps.length} steps, ${plan.phases?.length ?? 1} phase(s), planned by ${plan.model})`
+      );
+    } else {
+      const initialSnapshot = maskSnapshot(await captureSnapshot(page, config.observerMode), config.secrets);
+      const snapshotKey = await config.archive?.saveSnapshot("start", initialSnapshot);
+      const maxPhaseSteps = Math.min(DEFAULT_PHASE_STEPS, maxPlanLength);
+      const planned = await planTestSuite(config.goal, initialSnapshot, config.aiModel, maxPhaseSteps, config.flows);
+      await config.archive?.saveDecision({
+        kind: "plan",
+        snapshot: snapshotKey!,
+        stepNumber: null,
+        input: { goal: config.goal, maxSteps: maxPhaseSteps, flows: config.flows ?? [] },
+        output: planned,
+      });
+
+      if (planned.steps.length === 0) {
+        throw new Error("Planner returned an empty plan — cannot execute.");
+      }
 
-    const plan = await planTestSuite(config.goal, initialSnapshot, config.aiModel);
+      plan = {
+        ...planned,
+        // Renumbered like later phases: planner ids may repeat or skip
+        steps: planned.steps.slice(0, maxPlanLength).map((s, k) => ({ ...s, id: 1 + k, phase: 1 })),
+        phases: [{ index: 1, url: initialSnapshot.url, startStep: 1 }],
+      };
 
-    if (plan.steps.length === 0) {
-      throw new Error("Planner returned an empty plan — cannot execute.");
+      try {
+        await config.onPlanCreated?.(plan);
+      } catch (persistErr) {
+        console.warn("⚠️  Failed to persist generated plan:", persistErr);
+      }
     }
 
     // -------------------------------------------------------------------
     // 3. EXECUTION PHASE
     // -------------------------------------------------------------------
-    for (const planStep of plan.steps) {
+    // Working copy — incremental planning and adaptive re-planning splice
+    // steps into it.
+    const steps: PlanStep[] = [...plan.steps];
+    const phases: PlanPhase[] = [...(plan.phases ?? [])];
+    let planComplete = plan.complete ?? true;
+    let planCapped = false;
+
+    for (let i = 0; ; i++) {
+      if (i >= steps.length && planComplete) break;
+
       // Cancellation check
       if (config.shouldCancel?.()) {
         console.log("🛑 Plan-Execute: cancellation requested");
         logs.push({
-          stepNumber: planStep.id,
+          stepNumber: steps[i]?.id ?? totalSteps + 1,
           action: null,
           result: null,
           healing: { attempted: false, successful: false },
@@ -114,6 +275,94 @@ export async function runPlanExecuteAgent(
         break;
       }
 
+      // Act on the tab the previous step left us on (a tab it opened, or the
+      // opener of a popup that has since closed)
+      const previousPage = page;
+      page = await tabs.sync();
+      if (page !== previousPage) await settle(page, config, "after switching tabs");
+      // A popup that closed only after the last step settled is still that
+      // step's doing (before the first step, events wait for it instead)
+      const previousLog = logs[logs.length - 1];
+      const lateEvents = previousLog && drainEvents();
+      if (lateEvents) previousLog.events = [...(previousLog.events ?? []), ...lateEvents];
+
+      // -------------------------------------------------------------------
+      // 2'. INCREMENTAL PLANNING — plan each new page as it is reached
+      // -------------------------------------------------------------------
+      if (!planComplete) {
+        const currentPhase = phases[phases.length - 1];
+        const exhausted = i >= steps.length;
+        const onUnplannedPage =
+          !exhausted &&
+          !!currentPhase &&
+          urlKey(page.url()) !== urlKey(currentPhase.url) &&
+          !phases.some((ph) => ph.startStep === steps[i].id); // stored boundary → replay as-is
+
+        if (exhausted || onUnplannedPage) {
+          const budget = maxPlanLength - (steps[i - 1]?.id ?? 0);
+          if (budget <= 0) {
+            console.log(`⏹  Plan reached maxPlanLength (${maxPlanLength}) before the goal was covered`);
+            planCapped = true;
+            break;
+          }
+
+          await settle(page, config, "before planning the next page");
+          const phaseSnapshot = maskSnapshot(await captureSnapshot(page, config.observerMode), config.secrets);
+          const startStep = (steps[i - 1]?.id ?? 0) + 1;
+          const snapshotKey = await config.archive?.saveSnapshot(`phase-${startStep}`, phaseSnapshot);
+          const phaseInput = {
+            goal: config.goal,
+            completedSteps: steps.slice(0, i),
+            pendingSteps: steps.slice(i),
+            maxSteps: Math.min(DEFAULT_PHASE_STEPS, budget),
+            flows: config.flows ?? [],
+          };
+          const next = await planNextPhase(
+            phaseInput.goal,
+            phaseSnapshot,
+            phaseInput.completedSteps,
+            phaseInput.pendingSteps,
+            config.aiModel,
+            phaseInput.maxSteps,
+            phaseInput.flows
+          );
+          await config.archive?.saveDecision({
+            kind: "phase",
+            snapshot: snapshotKey!,
+            stepNumber: startStep,
+            input: phaseInput,
+            output: next,
+          });
+
+          const phaseIndex = (currentPhase?.index ?? 0) + 1;
+          const phaseSteps = next.steps
+            .slice(0, budget)
+            .map((s, k) => ({ ...s, id: startStep + k, phase: phaseIndex }));
+
+          steps.splice(i, steps.length - i, ...phaseSteps);
+          if (phaseSteps.length > 0) {
+            phases.push({ index: phaseIndex, url: phaseSnapshot.url, startStep });
+          }
+          planComplete = next.complete === true || phaseSteps.length === 0;
+
+          try {
+            await config.onPlanExtended?.({
+              ...plan,
+              steps: collapseFlows(steps),
+              phases: [...phases],
+              complete: planComplete,
+            });
+          } catch (persistErr) {
+            console.warn("⚠️  Failed to persist extended plan:", persistErr);
+          }
+
+          if (i >= steps.length) break; // Planner says the goal is already covered
+        }
+      }
+
+      if (i >= steps.length) break;
+      const planStep = steps[i];
+
       // Hard cap
       if (planStep.id > config.maxSteps) {
         console.log(`⏹  Plan exceeds maxSteps (${config.maxSteps}) — stopping`);
@@ -121,17 +370,86 @@ export async function runPlanExecuteAgent(
       }
 
       totalSteps = planStep.id;
-      console.log(`\n📍 Step ${planStep.id}/${plan.steps.length} — ${planStep.descriptor}`);
 
-      // Always operate on the most recently opened tab (e-commerce target=_blank)
-      const pages = await page.browser().pages();
-      page = pages[pages.length - 1];
-      await page.bringToFront();
+      // -------------------------------------------------------------------
+      // Sub-flow: expand in place; the sub-steps keep the flow step's id
+      // -------------------------------------------------------------------
+      if (planStep.expectedAction === "flow") {
+        const flow = config.flows?.find((f) => f.name === planStep.expectedValue);
+        if (!flow || flow.steps.length === 0) {
+          console.log(`❌ Flow "${planStep.expectedValue}" does not exist or has no steps`);
+          failedSteps++;
+          logs.push({
+            stepNumber: planStep.id,
+            action: null,
+            result: null,
+            healing: { attempted: false, successful: false },
+            reasoning: `Flow "${planStep.expectedValue}" does not exist or has no steps.`,
+            timestamp: new Date(),
+          });
+          break;
+        }
+
+        console.log(`🧩 Expanding flow "${flow.name}" (${flow.steps.length} steps)`);
+        steps.splice(
+          i,
+          1,
+          ...flow.steps.map((s, k) => ({
+            ...s,
+            id: planStep.id,
+            phase: planStep.phase,
+            flow: { id: flow.id, name: flow.name, index: k, count: flow.steps.length, origin: planStep },
+          }))
+        );
+        i--; // run the first flow step at this position
+        continue;
+      }
+
+      lastExecutedIndex = i;
+      const flowLabel = planStep.flow
+        ? ` [${planStep.flow.name} ${planStep.flow.index + 1}/${planStep.flow.count}]`
+        : "";
+      console.log(`\n📍 Step ${planStep.id}/${steps[steps.length - 1].id}${flowLabel} — ${planStep.descriptor}`);
+
+      // Flow steps share golden states across every suite that includes the flow
+      const memoryScope = planStep.flow ? flowNamespace(planStep.flow.id) : config.testSuiteId;
+
+      const stepValue =
+        planStep.expectedValue !== undefined
+          ? fillPlaceholders(planStep.expectedValue, config.parameters)
+          : undefined;
+      const condition = planStep.condition && {
+        ...planStep.condition,
+        value: fillPlaceholders(planStep.condition.value, config.parameters),
+      };
+
+      // Guarded step: only runs when its condition holds on the live page
+      if (condition && !(await evaluateCondition(page, condition))) {
+        console.log(`⏭  Condition not met (${condition.type} "${condition.value}") — skipping`);
+        skippedSteps++;
+        logs.push(
+          skippedLog(planStep, stepValue, `Skipped: condition ${condition.type} "${condition.value}" not met.`)
+        );
+        continue;
+      }
 
       // -------------------------------------------------------------------
       // 3a. Fresh snapshot (REQUIRED for healing)
       // -------------------------------------------------------------------
-      const snapshot = await captureSnapshot(page);
+      const snapshot = maskSnapshot(await captureSnapshot(page, config.observerMode), config.secrets);
+      const snapshotKey = await config.archive?.saveSnapshot(
+        `step-${planStep.id}${planStep.flow ? `.${planStep.flow.index + 1}` : ""}`,
+        snapshot
+      );
+
+      // Page-level assertions (URL / title / page text) have no target element
+      const assertion =
+        planStep.expectedAction === "verify" ? (planStep.assertion ?? DEFAULT_ASSERTION) : undefined;
+      if (assertion && !assertionNeedsElement(assertion)) {
+        const log = await verifyWithoutElement(page, planStep, stepValue, assertion, snapshot, config);
+        if (!recordElementlessVerify(log, planStep.optional)) break;
+        continue;
+      }
 
       // -------------------------------------------------------------------
       // 3b. RAG lookup by descriptor embedding (semantic match)
@@ -142,21 +460,28 @@ export async function runPlanExecuteAgent(
         config.embeddingConfig
       );
       const cached: VectorSearchResult | null = await findPersistentSelector(
-        config.testSuiteId,
+        memoryScope,
         planStep.descriptor,
         descriptorEmbedding
         // NOTE: no stepNumber → forces semantic / exact-description path
       );
 
       let targetElement = cached
-        ? findElementBySelector(snapshot.actionableElements, cached.selector, cached.selectorType)
+        ? findElementBySelector(snapshot.actionableElements, cached.selector, cached.selectorType, cached.framePath)
         : null;
 
       let healing: StepLog["healing"] = { attempted: false, successful: false };
       let cachedSelectorBroken = false;
       let firstTimeDiscovery = false;
+      // Hidden / absent: no exact match is the expected outcome, not drift —
+      // healing or a fresh pick would only find a lookalike
+      const expectsAbsence = !!assertion && ABSENCE_ASSERTIONS.includes(assertion.type);
 
-      if (cached && !targetElement) {
+      if (expectsAbsence && !targetElement) {
+        console.log(
+          `🫥 Nothing matches "${planStep.descriptor}"${cached ? ` (cached selector "${cached.selector}")` : ""} — as the step expects`
+        );
+      } else if (cached && !targetElement) {
         // Branch B-i: cached selector exists but doesn't match the live DOM
         // → this is a TRUE healing event (drift detected)
         console.log(`💥 Cached selector "${cached.selector}" not found in current DOM`);
@@ -177,16 +502,42 @@ export async function runPlanExecuteAgent(
       //     - Thinker: picks element on first encounter (just learning)
       //     - Healer:  picks element AFTER drift (this is healing)
       // -------------------------------------------------------------------
-      if (!targetElement) {
-        const llmResult = await llmHeal(
-          planStep.descriptor,
-          planStep.expectedAction,
+      if (!targetElement && !expectsAbsence) {
+        const candidates = withoutBlocked(
           snapshot.actionableElements,
-          config.aiModel
+          config.blockedCandidates,
+          memoryScope,
+          planStep.descriptor
         );
+        // Drift: healing tiers, the LLM only when none is confident enough
+        const heal = cachedSelectorBroken
+          ? await healElement(
+              {
+                descriptor: planStep.descriptor,
+                expectedAction: planStep.expectedAction,
+                previous: cached!.metadata,
+                candidates,
+              },
+              config.aiModel,
+              { embeddingConfig: config.embeddingConfig, thresholds: config.healingThresholds }
+            )
+          : null;
+        const llmResult = heal
+          ? heal.llm
+          : await llmHeal(planStep.descriptor, planStep.expectedAction, candidates, config.aiModel);
+        if (llmResult) {
+          await config.archive?.saveDecision({
+            kind: "heal",
+            snapshot: snapshotKey!,
+            stepNumber: planStep.id,
+            input: { descriptor: planStep.descriptor, expectedAction: planStep.expectedAction },
+            output: llmResult,
+          });
+        }
+        const picked = heal ?? llmResult!;
 
-        if (llmResult.healed && llmResult.elementId) {
-          const matched = snapshot.actionableElements.find((el) => el.id === llmResult.elementId);
+        if (picked.healed && picked.elementId) {
+          const matched = candidates.find((el) => el.id === picked.elementId);
           if (matched) {
             targetElement = matched;
 
@@ -208,23 +559,52 @@ export async function runPlanExecuteAgent(
                     (matched.attributes?.placeholder as string | undefined),
               };
 
+              // Not confident enough to learn from without a human look
+              const needsReview = picked.confidence < (config.reviewThreshold ?? 0);
+
               healing = {
                 attempted: true,
                 successful: true,
                 oldSelector,
                 newSelector,
                 selectorType: "css",
-                confidence: llmResult.confidence,
-                method: "vector-db", // LLM-mediated RAG healing
+                confidence: picked.confidence,
+                method: heal!.strategy!,
                 matchedOn,
+                attempts: heal!.attempts,
+                review: needsReview
+                  ? {
+                      scope: memoryScope,
+                      descriptor: planStep.descriptor,
+                      expectedAction: planStep.expectedAction,
+                      previous: {
+                        selector: oldSelector,
+                        selectorType: cached!.selectorType,
+                        framePath: cached!.framePath,
+                        metadata: cached!.metadata,
+                      },
+                      next: {
+                        selector: newSelector,
+                        selectorType: selectorOf(matched).selectorType,
+                        element: matched,
+                      },
+                    }
+                  : undefined,
               };
               healedSteps++;
-              console.log(`✅ HEALER: ${oldSelector} → ${newSelector} (${(llmResult.confidence * 100).toFixed(0)}%)`);
+              console.log(
+                `✅ HEALER [${heal!.strategy}]: ${oldSelector} → ${newSelector} (${(picked.confidence * 100).toFixed(0)}%)`
+              );
+              if (needsReview) {
+                console.log(
+                  `🕵️  Below the review threshold (${((config.reviewThreshold ?? 0) * 100).toFixed(0)}%) — held for review`
+                );
+              }
             } else if (firstTimeDiscovery) {
               // 🧠 First-time discovery — the Thinker just decided what to do.
               // This is NOT a healing event. healing.attempted stays false.
               console.log(
-                `🧠 THINKER: chose ${matched.selectors.css || matched.selectors.xpath || matched.id} (${(llmResult.confidence * 100).toFixed(0)}%)`
+                `🧠 THINKER: chose ${matched.selectors.css || matched.selectors.xpath || matched.id} (${(picked.confidence * 100).toFixed(0)}%)`
               );
             }
           }
@@ -239,6 +619,7 @@ export async function runPlanExecuteAgent(
               oldSelector: cached?.selector ?? "",
               confidence: 0,
               method: "failed",
+              attempts: heal?.attempts,
             };
             console.log("❌ HEALER: failed to recover selector");
           } else {
@@ -247,6 +628,73 @@ export async function runPlanExecuteAgent(
         }
       }
 
+      // Hidden / absent assertions pass when nothing on the page matches
+      if (!targetElement && expectsAbsence) {
+        const log = await verifyWithoutElement(page, planStep, stepValue, assertion, snapshot, config);
+        if (!recordElementlessVerify(log, planStep.optional)) break;
+        continue;
+      }
+
+      if (!targetElement && !planStep.optional && replans.length < maxReplans) {
+        // -------------------------------------------------------------------
+        // 3c'. Adaptive re-plan — the page is not what the plan expected
+        // -------------------------------------------------------------------
+        console.log(`🔁 Step ${planStep.id} unresolved — re-planning (${replans.length + 1}/${maxReplans})`);
+        try {
+          const revised = await replanRemainingSteps(
+            config.goal,
+            snapshot,
+            steps.slice(0, i),
+            planStep,
+            steps.slice(i + 1),
+            config.aiModel
+          );
+          await config.archive?.saveDecision({
+            kind: "replan",
+            snapshot: snapshotKey!,
+            stepNumber: planStep.id,
+            input: {
+              goal: config.goal,
+              completedSteps: steps.slice(0, i),
+              failedStep: planStep,
+              remainingSteps: steps.slice(i + 1),
+            },
+            output: revised,
+          });
+
+          if (revised.steps.length > 0) {
+            const revisedTail = revised.steps.map((s, k) => ({
+              ...s,
+              id: planStep.id + k,
+              phase: planStep.phase,
+            }));
+            replans.push({
+              atStep: planStep.id,
+              reason: `No element on ${snapshot.url} satisfied "${planStep.descriptor}"`,
+              pageUrl: snapshot.url,
+              previousTail: steps.slice(i),
+              revisedTail,
+              reasoning: revised.reasoning,
+              model: revised.model,
+              timestamp: new Date(),
+            });
+            steps.splice(i, steps.length - i, ...revisedTail);
+            i--; // re-run this position with the first revised step
+            continue;
+          }
+          console.log("❌ Planner: no viable revised tail from this page");
+        } catch (replanErr) {
+          console.warn("⚠️  Adaptive re-plan failed:", replanErr);
+        }
+      }
+
+      if (!targetElement && planStep.optional) {
+        console.log("⏭  Optional step could not be resolved — skipping");
+        skippedSteps++;
+        logs.push({ ...skippedLog(planStep, stepValue, "Skipped: optional step, no matching element on the page."), healing });
+        continue;
+      }
+
       if (!targetElement) {
         // Could not resolve an element — abort this step
         console.log("❌ Could not resolve a target element for this step");
@@ -256,36 +704,108 @@ export async function runPlanExecuteAgent(
           action: {
             type: planStep.expectedAction,
             description: planStep.descriptor,
-            value: planStep.expectedValue,
+            value: stepValue,
           } as Action,
           result: null,
           healing,
-          reasoning: "No element on the page satisfied the step descriptor.",
+          reasoning:
+            replans.length > 0
+              ? `No element on the page satisfied the step descriptor (after ${replans.length} re-plan(s)).`
+              : "No element on the page satisfied the step descriptor.",
           timestamp: new Date(),
+          pageFingerprint: fingerprintSnapshot(snapshot),
         });
         break;
       }
 
       // -------------------------------------------------------------------
-      // 3d. Act
+      // 3d. Act (drag steps first resolve the element to drop onto, unless
+      //     the value is a pixel offset)
       // -------------------------------------------------------------------
+      let dropTarget: ActionableElement | undefined;
+      if (planStep.expectedAction === "drag" && stepValue && !parseDragOffset(stepValue)) {
+        const dropResult = await llmHeal(stepValue, "drop", snapshot.actionableElements, config.aiModel);
+        await config.archive?.saveDecision({
+          kind: "heal",
+          snapshot: snapshotKey!,
+          stepNumber: planStep.id,
+          input: { descriptor: stepValue, expectedAction: "drop" },
+          output: dropResult,
+        });
+        dropTarget = snapshot.actionableElements.find((el) => el.id === dropResult.elementId);
+        console.log(
+          dropTarget
+            ? `🎯 Drop target: ${dropTarget.selectors.css || dropTarget.selectors.xpath || dropTarget.id}`
+            : `❌ No element on the page matches drop target "${stepValue}"`
+        );
+      }
+
       const action: Action = {
         type: planStep.expectedAction,
         targetElementId: targetElement.id,
-        value: planStep.expectedValue,
+        dropTargetElementId: dropTarget?.id,
+        value: stepValue,
+        assertion,
         description: planStep.descriptor,
       };
 
-      const actionResult: ActionResult = await act(action, page, snapshot.actionableElements);
+      // Picture of the element a selector is learned / healed from, before
+      // the action changes it (shown side by side when a heal is reviewed)
+      const elementCrop =
+        firstTimeDiscovery || cachedSelectorBroken
+          ? await captureElementCrop(page, targetElement, config.locatorStrategies)
+          : undefined;
+
+      let actionResult: ActionResult = await act(
+        action,
+        page,
+        snapshot.actionableElements,
+        config.secrets,
+        config.locatorStrategies,
+        config.timeout
+      );
+      // A click that changed nothing may have landed before the page was
+      // listening (late hydration) — one more try before calling it suspicious.
+      // Value actions already retype / recheck inside act().
+      if (
+        actionResult.success &&
+        actionResult.effect?.observed === false &&
+        EFFECT_ACTIONS.includes(planStep.expectedAction)
+      ) {
+        console.log(`🔁 No observable effect (${actionResult.effect.detail}) — retrying once`);
+        actionResult = await act(
+          action,
+          page,
+          snapshot.actionableElements,
+          config.secrets,
+          config.locatorStrategies,
+          config.timeout
+        );
+      }
+      if (actionResult.assertion) console.log(`🔎 ${formatAssertionResult(actionResult.assertion)}`);
+      // Succeeded, but nothing observable happened (e.g. a click on a dead element)
+      const suspicious = actionResult.success && actionResult.effect?.observed === false;
+      // A heal whose action did nothing is not worth approving
+      if (healing.review && actionResult.success && !suspicious) reviewSteps++;
 
       const selectorUsed =
         targetElement.selectors.css ||
         targetElement.selectors.xpath ||
         targetElement.selectors.testId ||
         "";
-      const selectorType: "css" | "xpath" | "testId" | "aria" = "css";
+      // css/xpath are only set when verified unique, so either may be missing
+      const selectorType: "css" | "xpath" | "testId" | "aria" = targetElement.selectors.css
+        ? "css"
+        : targetElement.selectors.xpath
+          ? "xpath"
+          : "testId";
 
-      if (actionResult.success) {
+      if (suspicious) {
+        // Counted apart and not learned from: the element may be the wrong
+        // one. The run continues, but cannot pass.
+        suspiciousSteps++;
+        console.log(`⚠️  Step ${planStep.id} marked suspicious: ${actionResult.effect!.detail}`);
+      } else if (actionResult.success) {
         successfulSteps++;
 
         // -------------------------------------------------------------------
@@ -294,22 +814,27 @@ export async function runPlanExecuteAgent(
         try {
           const elementEmbedding = await generateElementEmbedding(targetElement, config.embeddingConfig);
 
-          if (cachedSelectorBroken) {
+          if (healing.review) {
+            // Low-confidence heal — the reviewer decides what is learned
+            console.log("🕵️  Golden state unchanged until the heal is reviewed");
+          } else if (cachedSelectorBroken) {
             // Healing succeeded — overwrite the broken cached selector with
             // the new one we just learned via the LLM healer.
             console.log("💾 Updating cached selector after successful healing");
             await updatePersistentSelector(
-              config.testSuiteId,
+              memoryScope,
               planStep.descriptor,
               selectorUsed,
               selectorType,
-              descriptorEmbedding
+              descriptorEmbedding,
+              undefined,
+              targetElement.selectors.framePath ?? []
             );
           } else {
             // First time we've seen this descriptor — save it.
             console.log("💾 Saving new golden state for this descriptor");
             await saveGoldenState(
-              config.testSuiteId,
+              memoryScope,
               planStep.descriptor,
               selectorUsed,
               selectorType,
@@ -323,33 +848,64 @@ export async function runPlanExecuteAgent(
         } catch (dbErr) {
           console.warn("⚠️  Failed to update vector DB:", dbErr);
         }
+      } else if (planStep.optional) {
+        console.log(`⏭  Optional step failed (${actionResult.error ?? "unknown error"}) — skipping`);
+        skippedSteps++;
+        logs.push({
+          ...skippedLog(planStep, stepValue, `Skipped: optional step failed — ${actionResult.error ?? "unknown error"}`),
+          result: actionResult,
+          healing,
+          stability: await settle(page, config, `after failed optional ${planStep.expectedAction}`),
+          events: drainEvents(),
+        });
+        continue;
       } else {
         failedSteps++;
       }
 
+      // Follow a tab / popup the action opened before waiting for the page.
+      // A failed action stops the run, so there is nothing to wait for.
+      page = await tabs.sync();
+      const stability = actionResult.success
+        ? await settle(page, config, `after ${planStep.expectedAction}`)
+        : undefined;
+
       logs.push({
         stepNumber: planStep.id,
         action,
         result: actionResult,
         healing,
-        reasoning: cached
-          ? `Cache ${cachedSelectorBroken ? "drift — healed via LLM" : "hit"}`
-          : "First time — selector learned via LLM healer",
+        reasoning:
+          (cached
+            ? `Cache ${cachedSelectorBroken ? "drift — healed via LLM" : "hit"}`
+            : "First time — selector learned via LLM healer") +
+          (suspicious ? ` — suspicious: ${actionResult.effect!.detail}` : ""),
         timestamp: new Date(),
         selectorUsed: actionResult.success ? selectorUsed : undefined,
         selectorType: actionResult.success ? selectorType : undefined,
+        framePath: actionResult.success ? targetElement.selectors.framePath : undefined,
+        dropTarget: actionResult.success && dropTarget ? selectorOf(dropTarget) : undefined,
+        pageFingerprint: fingerprintSnapshot(snapshot),
+        stability,
+        suspicious: suspicious || undefined,
+        events: drainEvents(),
+        elementCrop,
       });
 
       if (!actionResult.success) {
         console.log("❌ Action failed — stopping execution");
         break;
       }
-
-      await waitForPageStable(page, config.timeout);
     }
 
     // If we executed every planned step successfully, the goal is achieved.
-    isGoalAchieved = totalSteps === plan.steps.length && failedSteps === 0;
+    // A step that had no observable effect leaves that unproven.
+    isGoalAchieved =
+      steps.length > 0 &&
+      lastExecutedIndex === steps.length - 1 &&
+      failedSteps === 0 &&
+      suspiciousSteps === 0 &&
+      !planCapped;
 
     return {
       success: isGoalAchieved,
@@ -357,9 +913,14 @@ export async function runPlanExecuteAgent(
       successfulSteps,
       failedSteps,
       healedSteps,
+      skippedSteps,
+      suspiciousSteps,
+      reviewSteps,
       totalCost: 0,
       executionTimeMs: Date.now() - startTime,
       logs,
+      replans,
+      requestRuleHits: network?.hits(),
     };
   } catch (error: any) {
     console.error("❌ Plan-Execute Agent: fatal error:", error);
@@ -369,27 +930,173 @@ export async function runPlanExecuteAgent(
       successfulSteps,
       failedSteps,
       healedSteps,
+      skippedSteps,
+      suspiciousSteps,
+      reviewSteps,
       totalCost: 0,
       executionTimeMs: Date.now() - startTime,
       error: error?.message ?? String(error),
       logs,
+      replans,
+      requestRuleHits: network?.hits(),
     };
+  } finally {
+    tabs.dispose();
+    await network?.dispose();
   }
 }
 
+/**
+ * Plan-only mode: open the start page and run the Planner without executing
+ * anything, so the plan can be reviewed/edited before it is approved.
+ */
+export async function draftPlan(
+  page: Page,
+  config: Pick<
+    PlanExecuteConfig,
+    "goal" | "startUrl" | "timeout" | "aiModel" | "maxPlanLength" | "flows" | "observerMode" | "readyCheck"
+  >
+): Promise<PlanResult> {
+  console.log("📝 Plan-Execute Agent: drafting plan only (no execution)");
+
+  await page.goto(config.startUrl, { waitUntil: "domcontentloaded" });
+  await settle(page, config, "initial navigation");
+
+  // Only the start page can be planned without executing — later phases are
+  // planned during the first run (plan.complete === false).
+  const snapshot = await captureSnapshot(page, config.observerMode);
+  const maxPlanLength = config.maxPlanLength ?? DEFAULT_MAX_PLAN_LENGTH;
+  const planned = await planTestSuite(
+    config.goal,
+    snapshot,
+    config.aiModel,
+    Math.min(DEFAULT_PHASE_STEPS, maxPlanLength),
+    config.flows
+  );
+  return { ...planned, steps: planned.steps.map((s, k) => ({ ...s, id: 1 + k })) };
+}
+
 // ============================================================================
 // HELPERS
 // ============================================================================
 
+// Wait for the page to settle and log why / how long; `reason` names the wait
+async function settle(
+  page: Page,
+  config: Pick<PlanExecuteConfig, "timeout" | "readyCheck">,
+  reason: string
+): Promise<StepStability> {
+  const result = await waitForPageStable(page, config.timeout, { readyCheck: config.readyCheck });
+  console.log(`${result.stable ? "⏳" : "⚠️ "} Page ${formatStability(result)} — ${reason}`);
+  return { ...result, reason };
+}
+
+// Undo run-time flow expansion so persisted plans keep the single flow step
+function collapseFlows(steps: PlanStep[]): PlanStep[] {
+  return steps
+    .filter((s) => !s.flow || s.flow.index === 0)
+    .map((s) => (s.flow ? s.flow.origin : s));
+}
+
+// Guard check for conditional steps; an unreadable page counts as "not met"
+async function evaluateCondition(page: Page, condition: StepCondition): Promise<boolean> {
+  try {
+    if (condition.type === "urlContains") {
+      return page.url().includes(condition.value);
+    }
+    const needle = condition.value.toLowerCase();
+    return await page.evaluate(
+      (text) => (document.body?.innerText || "").toLowerCase().includes(text),
+      needle
+    );
+  } catch (err) {
+    console.warn("⚠️  Could not evaluate step condition:", err);
+    return false;
+  }
+}
+
+// Run a verify step whose assertion needs no element (or whose element is
+// expected to be gone)
+async function verifyWithoutElement(
+  page: Page,
+  planStep: PlanStep,
+  value: string | undefined,
+  assertion: StepAssertion,
+  snapshot: DOMSnapshot,
+  config: PlanExecuteConfig
+): Promise<StepLog> {
+  const action: Action = { type: "verify", value, assertion, description: planStep.descriptor };
+  const result = await act(
+    action,
+    page,
+    snapshot.actionableElements,
+    config.secrets,
+    config.locatorStrategies,
+    config.timeout
+  );
+  if (result.assertion) console.log(`🔎 ${formatAssertionResult(result.assertion)}`);
+  return {
+    stepNumber: planStep.id,
+    action,
+    result,
+    healing: { attempted: false, successful: false },
+    reasoning: result.assertion ? `Assertion ${formatAssertionResult(result.assertion)}` : "Assertion could not run",
+    timestamp: new Date(),
+    pageFingerprint: fingerprintSnapshot(snapshot),
+  };
+}
+
+function skippedLog(planStep: PlanStep, value: string | undefined, reasoning: string): StepLog {
+  return {
+    stepNumber: planStep.id,
+    action: {
+      type: planStep.expectedAction,
+      description: planStep.descriptor,
+      value,
+    } as Action,
+    result: null,
+    healing: { attempted: false, successful: false },
+    reasoning,
+    timestamp: new Date(),
+    skipped: true,
+  };
+}
+
+// Phase identity for a page: origin + path (query/hash changes stay in-phase)
+function urlKey(url: string): string {
+  try {
+    const u = new URL(url);
+    return `${u.origin}${u.pathname.replace(/\/$/, "")}`;
+  } catch {
+    return url;
+  }
+}
+
+// Selector the generated script uses for an element (same preference as the step target)
+function selectorOf(element: ActionableElement): NonNullable<StepLog["dropTarget"]> {
+  return {
+    selector: element.selectors.css || element.selectors.xpath || element.selectors.testId || "",
+    selectorType: element.selectors.css ? "css" : element.selectors.xpath ? "xpath" : "testId",
+    framePath: element.selectors.framePath,
+  };
+}
+
 function findElementBySelector(
-  elements: import("./observer").ActionableElement[],
+  elements: ActionableElement[],
   selector: string,
-  selectorType: "css" | "xpath" | "testId" | "aria"
+  selectorType: "css" | "xpath" | "testId" | "aria",
+  framePath: string[]
 ) {
+  // A selector only identifies an element within its own frame
+  const frameKey = framePath.join(" > ");
   return (
     elements.find((el) => {
-      if (selectorType === "css") return el.selectors.css === selector;
-      if (selectorType === "xpath") return el.selectors.xpath === selector;
+      if ((el.selectors.framePath ?? []).join(" > ") !== frameKey) return false;
+      // Any verified-unique candidate counts, not just the top-ranked one
+      const isCandidate = (kind: "css" | "xpath") =>
+        el.selectors.candidates?.some((c) => c.kind === kind && c.selector === selector) ?? false;
+      if (selectorType === "css") return el.selectors.css === selector || isCandidate("css");
+      if (selectorType === "xpath") return el.selectors.xpath === selector || isCandidate("xpath");
       if (selectorType === "testId") return el.selectors.testId === selector;
       if (selectorType === "aria") return el.selectors.ariaLabel === selector;
       return false;
@@ -397,5 +1104,6 @@ function findElementBySelector(
   );
 }
 
-// Re-export PlanStep so callers don't need to know about planner.ts
-export type { PlanStep };
+// Re-export plan types so callers don't need to know about planner.ts
+export type { PlanStep, PlanPhase, PlanResult, StepCondition, FlowDefinition };
+export { PLAN_ACTIONS, VALUE_REQUIRED_ACTIONS, CONDITION_TYPES } from "./planner";
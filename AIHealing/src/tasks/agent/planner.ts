@@ -12,11 +12,23 @@
 //
 // This way the same descriptor matches the same element across runs even when
 // the underlying selectors change.
+//
+// Planning is INCREMENTAL across pages: the first call only plans what can be
+// done on the starting page (the Planner cannot see later pages). When the
+// executor reaches a new URL it calls planNextPhase with that page's DOM. Each
+// page's slice of the plan is a "phase"; phase boundaries are persisted with
+// the plan so later runs replay exactly the same steps.
+//
+// Reusable sub-flows ("log in as admin", "accept cookies") are listed in the
+// prompt; the Planner can include one as a single "flow" step, which the
+// executor expands at run time.
 // ============================================================================
 
 import { GoogleGenerativeAI } from "@google/generative-ai";
-import type { DOMSnapshot } from "./observer";
-import type { AIModelConfig } from "./thinker";
+import { formatAccessibility, formatElementContext, type DOMSnapshot } from "./observer";
+import type { ActionType, AIModelConfig } from "./thinker";
+import { parseAssertion, type StepAssertion } from "./assertions";
+import { logPromptTokens, pruneElements, type PrunedElements } from "./pruning";
 
 // ============================================================================
 // TYPES
@@ -25,15 +37,91 @@ import type { AIModelConfig } from "./thinker";
 export interface PlanStep {
   id: number; // 1-indexed sequential position
   descriptor: string; // user-intent description; cache identity
-  expectedAction: "click" | "type" | "select" | "wait" | "navigate" | "verify";
-  expectedValue?: string; // text to type, URL to navigate, etc.
+  expectedAction: ActionType | "flow";
+  expectedValue?: string; // text to type, URL to navigate, key to press, fixture file, flow name, etc.
+  phase?: number; // 1-indexed page phase this step was planned on
+  optional?: boolean; // unresolvable / failing → SKIPPED instead of failing the run
+  condition?: StepCondition; // guard — the step only runs while it holds
+  assertion?: StepAssertion; // verify steps: what to check (see assertions.ts)
+  flow?: FlowStepRef; // set at run time on steps expanded from a sub-flow
+}
+
+// Named, reusable sequence of steps with its own golden-state memory
+export interface FlowDefinition {
+  id: string;
+  name: string; // referenced by a "flow" step's expectedValue
+  description?: string;
+  steps: PlanStep[];
+}
+
+// Marks a step as expanded from a "flow" step (executor only, never persisted)
+export interface FlowStepRef {
+  id: string;
+  name: string;
+  index: number; // 0-based position inside the flow
+  count: number;
+  origin: PlanStep; // the "flow" step it replaced
+}
+
+// Guard evaluated against the live page right before a step runs
+export interface StepCondition {
+  type: "urlContains" | "textVisible";
+  value: string; // URL fragment, or text that must be visible on the page
+}
+
+// Allowed values for StepCondition.type (used to validate edited plans)
+export const CONDITION_TYPES: StepCondition["type"][] = ["urlContains", "textVisible"];
+
+export interface PlanPhase {
+  index: number; // 1-indexed
+  url: string; // page the phase was planned on
+  startStep: number; // id of the first step of the phase
 }
 
+// Allowed values for PlanStep.expectedAction (used to validate edited plans)
+export const PLAN_ACTIONS: PlanStep["expectedAction"][] = [
+  "click",
+  "type",
+  "select",
+  "wait",
+  "navigate",
+  "verify",
+  "hover",
+  "dblclick",
+  "rightclick",
+  "press",
+  "scroll",
+  "drag",
+  "check",
+  "uncheck",
+  "clear",
+  "focus",
+  "upload",
+  "flow",
+];
+
+// Actions whose step is meaningless without an expectedValue
+export const VALUE_REQUIRED_ACTIONS: PlanStep["expectedAction"][] = [
+  "type",
+  "select",
+  "navigate",
+  "press",
+  "drag",
+  "upload",
+  "flow",
+];
+
 export interface PlanResult {
   steps: PlanStep[];
   reasoning: string;
+  model: string; // model that actually answered (after the fallback chain)
+  phases?: PlanPhase[]; // absent on legacy single-shot plans
+  complete?: boolean; // false → later pages still need planning (default true)
 }
 
+// Per-phase step budget when the caller doesn't pass one
+export const DEFAULT_PHASE_STEPS = 6;
+
 // ============================================================================
 // PUBLIC API
 // ============================================================================
@@ -41,15 +129,17 @@ export interface PlanResult {
 export async function planTestSuite(
   goal: string,
   startingSnapshot: DOMSnapshot,
-  config: AIModelConfig
+  config: AIModelConfig,
+  maxSteps: number = DEFAULT_PHASE_STEPS,
+  flows: FlowDefinition[] = []
 ): Promise<PlanResult> {
   console.log("📋 Planner: Decomposing goal into a stable plan...");
 
-  const prompt = buildPlannerPrompt(goal, startingSnapshot);
+  const prompt = await buildPlannerPrompt(goal, startingSnapshot, maxSteps, flows, config);
   const response = await callPlannerLLM(prompt, config);
-  const result = parsePlannerResponse(response);
+  const result = parsePlannerResponse(response.text, response.model);
 
-  console.log(`✅ Planner: Produced ${result.steps.length} steps`);
+  console.log(`✅ Planner: Produced ${result.steps.length} steps${result.complete ? "" : " (more pages to plan)"}`);
   result.steps.forEach((s) => {
     console.log(`   ${s.id}. [${s.expectedAction}] ${s.descriptor}`);
   });
@@ -57,34 +147,79 @@ export async function planTestSuite(
   return result;
 }
 
+/**
+ * Incremental planning: called when the executor lands on a page the plan
+ * was not written for (or has run out of steps before the goal is done).
+ * Returns the steps for THIS page, replacing any steps that were planned
+ * blind for it. Ids in the result are relative (1..n).
+ */
+export async function planNextPhase(
+  goal: string,
+  currentSnapshot: DOMSnapshot,
+  completedSteps: PlanStep[],
+  pendingSteps: PlanStep[],
+  config: AIModelConfig,
+  maxSteps: number = DEFAULT_PHASE_STEPS,
+  flows: FlowDefinition[] = []
+): Promise<PlanResult> {
+  console.log(`📋 Planner: Planning next phase for ${currentSnapshot.url}...`);
+
+  const prompt = await buildPhasePrompt(goal, currentSnapshot, completedSteps, pendingSteps, maxSteps, flows, config);
+  const response = await callPlannerLLM(prompt, config);
+  const result = parsePlannerResponse(response.text, response.model);
+
+  console.log(`✅ Planner: Phase has ${result.steps.length} steps${result.complete ? " (goal covered)" : ""}`);
+  result.steps.forEach((s) => {
+    console.log(`   +${s.id}. [${s.expectedAction}] ${s.descriptor}`);
+  });
+
+  return result;
+}
+
+/**
+ * Adaptive re-planning: called mid-run when a step descriptor cannot be
+ * resolved on the current page (interstitial, unexpected modal, extra page in
+ * the flow...). Returns a revised TAIL that replaces the failed step and
+ * everything after it. Step ids in the result are relative (1..n); the caller
+ * renumbers them when splicing into the running plan.
+ */
+export async function replanRemainingSteps(
+  goal: string,
+  currentSnapshot: DOMSnapshot,
+  completedSteps: PlanStep[],
+  failedStep: PlanStep,
+  remainingSteps: PlanStep[],
+  config: AIModelConfig
+): Promise<PlanResult> {
+  console.log(`🔁 Planner: Re-planning from step ${failedStep.id} on ${currentSnapshot.url}...`);
+
+  const prompt = await buildReplanPrompt(goal, currentSnapshot, completedSteps, failedStep, remainingSteps, config);
+  const response = await callPlannerLLM(prompt, config);
+  const result = parsePlannerResponse(response.text, response.model);
+
+  console.log(`✅ Planner: Revised tail has ${result.steps.length} steps`);
+  result.steps.forEach((s) => {
+    console.log(`   +${s.id}. [${s.expectedAction}] ${s.descriptor}`);
+  });
+
+  return result;
+}
+
 // ============================================================================
 // PROMPT
 // ============================================================================
 
-function buildPlannerPrompt(goal: string, snapshot: DOMSnapshot): string {
-  // Trim and prioritise so the prompt fits in a small token budget.
-  const elements = [...snapshot.actionableElements]
-    .sort((a, b) => {
-      const ap = ["button", "input", "a", "select"].includes(a.tagName.toLowerCase()) ? 1 : 0;
-      const bp = ["button", "input", "a", "select"].includes(b.tagName.toLowerCase()) ? 1 : 0;
-      return bp - ap;
-    })
-    .slice(0, 80);
-
-  const elementsBlock = elements
-    .map((el) => {
-      const text = (el.text || "").trim().slice(0, 60);
-      const placeholder = el.attributes?.placeholder || "";
-      const aria = el.attributes?.["aria-label"] || (el as any).attributes?.ariaLabel || "";
-      const role = el.attributes?.role || "";
-      const detail = [text && `text:"${text}"`, placeholder && `placeholder:"${placeholder}"`, aria && `aria:"${aria}"`, role && `role:"${role}"`]
-        .filter(Boolean)
-        .join(" ");
-      return `- ${el.tagName.toLowerCase()} ${detail}`.trim();
-    })
-    .join("\n");
+async function buildPlannerPrompt(
+  goal: string,
+  snapshot: DOMSnapshot,
+  maxSteps: number,
+  flows: FlowDefinition[],
+  config: AIModelConfig
+): Promise<string> {
+  const elements = await formatElementsForPrompt(snapshot, goal, config);
+  const elementsBlock = elements.block;
 
-  return `You are a senior QA engineer. Decompose the following goal into an ordered, deterministic plan of UI actions.
+  return withTokenLog(elements, `You are a senior QA engineer. Decompose the following goal into an ordered, deterministic plan of UI actions.
 
 GOAL:
 ${goal}
@@ -97,39 +232,230 @@ VISIBLE ACTIONABLE ELEMENTS (truncated):
 ${elementsBlock}
 
 RULES FOR DESCRIPTORS:
-- Write each step in terms of USER INTENT, never CSS selectors or DOM ids.
+${DESCRIPTOR_RULES}
+- Do not invent verification steps unless the goal asks for them.
+
+${CONDITIONAL_RULES}
+${formatFlowsForPrompt(flows)}
+${PHASE_RULES(maxSteps)}
+
+${OUTPUT_FORMAT}`);
+}
+
+async function buildPhasePrompt(
+  goal: string,
+  snapshot: DOMSnapshot,
+  completedSteps: PlanStep[],
+  pendingSteps: PlanStep[],
+  maxSteps: number,
+  flows: FlowDefinition[],
+  config: AIModelConfig
+): Promise<string> {
+  const elements = await formatElementsForPrompt(snapshot, goal, config);
+  const elementsBlock = elements.block;
+
+  return withTokenLog(elements, `You are a senior QA engineer. A test run is executing a plan for the goal below one page at a time. The agent has just reached a new page (or has run out of planned steps). Plan the next steps from THIS page.
+
+GOAL:
+${goal}
+
+STEPS ALREADY COMPLETED (do NOT repeat them):
+${formatStepList(completedSteps)}
+
+STEPS PREVIOUSLY GUESSED FOR LATER PAGES (written without seeing this page — keep their descriptors verbatim if they fit, otherwise rewrite):
+${formatStepList(pendingSteps)}
+
+CURRENT PAGE:
+URL:   ${snapshot.url}
+TITLE: ${snapshot.title}
+
+VISIBLE ACTIONABLE ELEMENTS (truncated):
+${elementsBlock}
+
+RULES FOR DESCRIPTORS:
+${DESCRIPTOR_RULES}
+
+${CONDITIONAL_RULES}
+${formatFlowsForPrompt(flows)}
+${PHASE_RULES(maxSteps)}
+- If the goal is already achieved, return an empty "steps" array and "goalComplete": true.
+
+${OUTPUT_FORMAT}`);
+}
+
+async function buildReplanPrompt(
+  goal: string,
+  snapshot: DOMSnapshot,
+  completedSteps: PlanStep[],
+  failedStep: PlanStep,
+  remainingSteps: PlanStep[],
+  config: AIModelConfig
+): Promise<string> {
+  // Rank against the blocked step as well as the goal
+  const elements = await formatElementsForPrompt(snapshot, `${failedStep.descriptor} ${goal}`, config);
+  const elementsBlock = elements.block;
+
+  return withTokenLog(elements, `You are a senior QA engineer. A test run is executing a plan for the goal below, but the next step could not be matched to any element on the current page. Typical causes: an interstitial page, an unexpected modal or banner, or a flow that needs extra steps on a new page.
+
+GOAL:
+${goal}
+
+STEPS ALREADY COMPLETED (do NOT repeat them):
+${formatStepList(completedSteps)}
+
+STEP THAT COULD NOT BE RESOLVED:
+${failedStep.id}. [${failedStep.expectedAction}] ${failedStep.descriptor}
+
+REMAINING STEPS OF THE ORIGINAL PLAN:
+${formatStepList(remainingSteps)}
+
+CURRENT PAGE:
+URL:   ${snapshot.url}
+TITLE: ${snapshot.title}
+
+VISIBLE ACTIONABLE ELEMENTS (truncated):
+${elementsBlock}
+
+TASK:
+Write a revised list of steps that replaces the unresolved step AND the remaining steps, starting from the current page. Deal with whatever is blocking first (e.g. close the modal, continue past the interstitial), then finish the goal. Keep original descriptors verbatim where they still apply.
+If the goal cannot be completed from this page, return an empty "steps" array.
+
+RULES FOR DESCRIPTORS:
+${DESCRIPTOR_RULES}
+
+${CONDITIONAL_RULES}
+
+${OUTPUT_FORMAT}`);
+}
+
+const DESCRIPTOR_RULES = `- Write each step in terms of USER INTENT, never CSS selectors or DOM ids.
 - Reference elements by their visible text, label, placeholder, or role.
 - Be concise but unambiguous (e.g. "Click the Search button" not "Click on it").
 - The same descriptor must work even if the page is later redesigned and ids/classes change.
-- Cap the plan at ~6 steps. Do not invent verification steps unless the goal asks for them.
+- The goal may contain {{placeholders}} (data-driven suites). Copy them verbatim into "expectedValue" and descriptors; never substitute example values for them.`;
+
+const PHASE_RULES = (maxSteps: number) => `RULES FOR THIS PHASE:
+- Only plan steps that can be performed on THIS page, up to and including the step that leads to the next page. You cannot see later pages — do not guess their steps.
+- At most ${maxSteps} steps.
+- Set "goalComplete" to true only if these steps finish the goal; false if more pages follow.`;
 
-OUTPUT FORMAT (strict JSON, no markdown):
+const CONDITIONAL_RULES = `RULES FOR CONDITIONAL STEPS:
+- Pages often show intermittent UI (cookie banners, promo modals, A/B variants, "already logged in" states). Plan a step for them only if you can see them, and guard it so the plan still works when they are absent.
+- "condition" runs the step only when it holds: {"type": "textVisible", "value": "<text on the banner>"} or {"type": "urlContains", "value": "/login"}.
+- "optional": true means the run continues (step SKIPPED) if the element cannot be found or the action fails.
+- Steps that the goal depends on must never be optional or conditional.`;
+
+const OUTPUT_FORMAT = `OUTPUT FORMAT (strict JSON, no markdown):
 {
   "reasoning": "1-2 sentences on how you decomposed the goal",
+  "goalComplete": false,
   "steps": [
     {
       "id": 1,
+      "descriptor": "Click the Accept button on the cookie consent banner",
+      "expectedAction": "click",
+      "optional": true,
+      "condition": { "type": "textVisible", "value": "We use cookies" }
+    },
+    {
+      "id": 2,
       "descriptor": "Type 'headphones' into the product search field",
       "expectedAction": "type",
       "expectedValue": "headphones"
     },
     {
-      "id": 2,
+      "id": 3,
       "descriptor": "Click the Search button",
       "expectedAction": "click"
+    },
+    {
+      "id": 4,
+      "descriptor": "Verify the search results heading mentions headphones",
+      "expectedAction": "verify",
+      "expectedValue": "/headphones/i",
+      "assertion": { "type": "textMatches" }
     }
   ]
 }
 
-The "expectedAction" MUST be one of: click | type | select | wait | navigate | verify.
-For "type" actions, ALWAYS include "expectedValue".`;
+The "expectedAction" MUST be one of: click | type | select | wait | navigate | verify | hover | dblclick | rightclick | press | scroll | drag | check | uncheck | clear | focus | upload (or flow, when reusable flows are listed).
+For "type" actions, ALWAYS include "expectedValue".
+- hover: menus / tooltips that open on mouse-over. Hover the trigger, then click the revealed item in a separate step.
+- press: "expectedValue" is a key or chord ("Enter", "Escape", "Tab", "Control+A"); the descriptor names the element that has focus (e.g. "Press Enter in the search field").
+- drag: "expectedValue" describes the drop target ("the Done column"), or is a pixel offset "dx,dy" for sliders ("120,0").
+- check / uncheck: checkboxes, radios and switches — they are idempotent, prefer them over click.
+- clear: empty a field before typing a new value into it.
+- upload: "expectedValue" is a fixture file name ("invoice.pdf"); the descriptor names the file input or upload button.
+- scroll / focus: only when the page needs it (lazy-loaded content, focus-triggered widgets).
+- verify: add "assertion" to say what to check. Page checks: textIncludes (default), urlMatches, titleMatches — "expectedValue" is the text, or a /regex/. Element checks (the descriptor names the element): visible, hidden, absent, checked, unchecked, disabled, enabled; valueEquals, textMatches and count ("3", ">=1") take "expectedValue"; attributeEquals also takes "attribute", e.g. {"type": "attributeEquals", "attribute": "aria-expanded"}.
+- When the goal has a visible outcome (confirmation message, new URL, item in a list), end with a verify step that proves it.
+Omit "optional" and "condition" on ordinary steps.`;
+
+function formatStepList(steps: PlanStep[]): string {
+  return steps.length > 0
+    ? steps
+        .map((s) => `${s.id}. [${s.expectedAction}${s.assertion ? `:${s.assertion.type}` : ""}] ${s.descriptor}${formatGuard(s)}`)
+        .join("\n")
+    : "(none)";
+}
+
+function formatFlowsForPrompt(flows: FlowDefinition[]): string {
+  if (flows.length === 0) return "";
+  const list = flows
+    .map((f) => `- "${f.name}"${f.description ? `: ${f.description}` : ""} (${f.steps.length} steps)`)
+    .join("\n");
+  return `
+REUSABLE FLOWS (already recorded — prefer them over planning the same actions again):
+${list}
+- To use one, emit a single step {"descriptor": "Run the <name> flow", "expectedAction": "flow", "expectedValue": "<exact flow name>"}.
+- Only use a flow when the current page is where it starts.
+`;
+}
+
+function formatGuard(step: PlanStep): string {
+  const parts = [
+    step.optional && "optional",
+    step.condition && `only if ${step.condition.type} "${step.condition.value}"`,
+  ].filter(Boolean);
+  return parts.length > 0 ? ` (${parts.join(", ")})` : "";
+}
+
+function withTokenLog(elements: PrunedElements, prompt: string): string {
+  logPromptTokens("Planner", prompt, elements);
+  return prompt;
+}
+
+async function formatElementsForPrompt(
+  snapshot: DOMSnapshot,
+  query: string,
+  config: AIModelConfig
+): Promise<PrunedElements> {
+  // Rank against the goal and fit the prompt's token budget (see pruning.ts)
+  return await pruneElements(snapshot.actionableElements, {
+    query,
+    config,
+    label: "Planner",
+    format: (el) => {
+      const text = (el.text || "").trim().slice(0, 60);
+      const placeholder = el.attributes?.placeholder || "";
+      const aria = el.attributes?.["aria-label"] || (el as any).attributes?.ariaLabel || "";
+      const role = el.accessibility ? "" : el.attributes?.role || "";
+      const detail = [text && `text:"${text}"`, placeholder && `placeholder:"${placeholder}"`, aria && `aria:"${aria}"`, role && `role:"${role}"`, formatElementContext(el), formatAccessibility(el)]
+        .filter(Boolean)
+        .join(" ");
+      return `- ${el.tagName.toLowerCase()} ${detail}`.trim();
+    },
+  });
 }
 
 // ============================================================================
 // LLM CALL (mirrors thinker.ts fallback chain)
 // ============================================================================
 
-async function callPlannerLLM(prompt: string, config: AIModelConfig): Promise<string> {
+async function callPlannerLLM(
+  prompt: string,
+  config: AIModelConfig
+): Promise<{ text: string; model: string }> {
   console.log("🤖 Planner: Calling AI model:", config.model);
 
   if (config.model === "gemini-flash" || config.model === "gemini-pro") {
@@ -142,14 +468,16 @@ async function callPlannerLLM(prompt: string, config: AIModelConfig): Promise<st
       } catch {
         throw new Error("Gemini returned malformed JSON");
       }
-      return text;
+      return { text, model: config.model === "gemini-flash" ? "gemini-2.5-flash" : "gemini-2.5-pro" };
     } catch (geminiErr: any) {
       console.warn("⚠️ Planner: Gemini failed, falling back to Llama 3.3:", geminiErr.message);
       try {
-        return await callGroqFallback(prompt, config, "llama-3.3-70b-versatile");
+        const text = await callGroqFallback(prompt, config, "llama-3.3-70b-versatile");
+        return { text, model: "llama-3.3-70b-versatile" };
       } catch (l33Err: any) {
         console.warn("⚠️ Planner: Llama 3.3 failed, cascading to Llama 3.1:", l33Err.message);
-        return await callGroqFallback(prompt, config, "llama-3.1-8b-instant");
+        const text = await callGroqFallback(prompt, config, "llama-3.1-8b-instant");
+        return { text, model: "llama-3.1-8b-instant" };
       }
     }
   }
@@ -213,7 +541,7 @@ async function callGroqFallback(
 // PARSER
 // ============================================================================
 
-function parsePlannerResponse(response: string): PlanResult {
+function parsePlannerResponse(response: string, model: string): PlanResult {
   let cleaned = response.trim();
   if (cleaned.startsWith("```json")) cleaned = cleaned.replace(/^```json\n/, "").replace(/\n```$/, "");
   else if (cleaned.startsWith("```")) cleaned = cleaned.replace(/^```\n/, "").replace(/\n```$/, "");
@@ -228,16 +556,28 @@ function parsePlannerResponse(response: string): PlanResult {
             descriptor: String(s.descriptor).trim(),
             expectedAction: s.expectedAction,
             expectedValue: s.expectedValue ?? undefined,
+            optional: s.optional === true || undefined,
+            condition: parseCondition(s.condition),
+            assertion: s.expectedAction === "verify" ? parseAssertion(s.assertion) : undefined,
           }))
       : [];
 
     return {
       steps,
       reasoning: typeof parsed.reasoning === "string" ? parsed.reasoning : "",
+      model,
+      // Older prompts / models that omit the flag are treated as single-shot
+      complete: typeof parsed.goalComplete === "boolean" ? parsed.goalComplete : true,
     };
   } catch (err) {
     console.error("❌ Planner: failed to parse response:", err);
     console.error("RAW:", response);
-    return { steps: [], reasoning: "Planner failed to produce a valid plan." };
+    return { steps: [], reasoning: "Planner failed to produce a valid plan.", model };
   }
 }
+
+function parseCondition(raw: any): StepCondition | undefined {
+  if (!raw || typeof raw.value !== "string" || !raw.value.trim()) return undefined;
+  if (!CONDITION_TYPES.includes(raw.type)) return undefined;
+  return { type: raw.type, value: raw.value.trim() };
+}
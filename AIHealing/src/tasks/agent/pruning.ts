@@ -0,0 +1,258 @@
+// ============================================================================
+// PRUNING - Fit Actionable Elements into an LLM Prompt Budget
+// ============================================================================
+// Big pages expose hundreds of actionable elements. Prompts used to keep the
+// first 80 / 120 after a "buttons and inputs first" sort, which regularly cut
+// the very element the step was about. Instead every prompt now:
+//   1. Dedupes   — identical repeated items (same tag / role / text / label /
+//                  section) are listed once with a ×N count.
+//   2. Ranks     — lexical overlap with the query (step descriptor or goal),
+//                  blended with embedding similarity for the top candidates.
+//   3. Collapses — large groups of same-shaped items (product cards, result
+//                  rows) keep their most relevant few plus a summary line.
+//   4. Fits      — takes elements by rank until the token budget is spent,
+//                  then prints them in page order.
+// ============================================================================
+
+import type { ActionableElement } from "./observer";
+import type { AIModelConfig } from "./thinker";
+import { buildElementText, cosineSimilarity, generateEmbeddings } from "./embeddings";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PruneOptions {
+  query: string; // Step descriptor or goal the elements are ranked against
+  format: (element: ActionableElement) => string; // One prompt line per element
+  config: AIModelConfig; // promptTokenBudget + rankingEmbeddings
+  label: string; // Caller name for logs, e.g. "Planner"
+}
+
+export interface PrunedElements {
+  block: string; // Prompt lines in page order
+  kept: ActionableElement[];
+  total: number;
+  estimatedTokens: number;
+}
+
+interface Entry {
+  element: ActionableElement;
+  order: number; // Position on the page
+  count: number; // Identical duplicates folded into this entry
+  score: number;
+  group: string;
+}
+
+// Budget for the element list alone; the rest of the prompt is fixed text
+export const DEFAULT_PROMPT_TOKEN_BUDGET = 2500;
+
+const CHARS_PER_TOKEN = 4;
+const EMBEDDING_CANDIDATES = 40;
+const LEXICAL_WEIGHT = 0.6;
+const GROUP_COLLAPSE_THRESHOLD = 6; // Groups larger than this are collapsed...
+const GROUP_KEEP = 3; // ...to their most relevant few
+const RELEVANT_SCORE = 0.5; // Never collapsed away above this score
+const PRIORITY_TAGS = new Set(["button", "input", "a", "select", "textarea"]);
+const STOP_WORDS = new Set([
+  "the", "an", "to", "of", "on", "in", "and", "or", "for", "with", "into", "from",
+  "click", "type", "select", "enter", "press", "choose", "button", "field", "link", "page",
+]);
+
+// ============================================================================
+// TOKEN ESTIMATES
+// ============================================================================
+
+/**
+ * Rough token count (≈4 characters per token for English / markup)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Log the estimated size of a prompt before it is sent
+ */
+export function logPromptTokens(label: string, prompt: string, pruned?: PrunedElements): void {
+  const elements = pruned
+    ? ` — elements ${pruned.kept.length}/${pruned.total} (≈${pruned.estimatedTokens} tokens)`
+    : "";
+  console.log(`🧮 ${label}: prompt ≈${estimateTokens(prompt)} tokens${elements}`);
+}
+
+// ============================================================================
+// PRUNING
+// ============================================================================
+
+export async function pruneElements(
+  elements: ActionableElement[],
+  options: PruneOptions
+): Promise<PrunedElements> {
+  const budget = options.config.promptTokenBudget ?? DEFAULT_PROMPT_TOKEN_BUDGET;
+  const queryTokens = tokenize(options.query);
+
+  // 1. Dedupe identical repeated items
+  const entries: Entry[] = [];
+  const byIdentity = new Map<string, Entry>();
+  elements.forEach((element, order) => {
+    const key = identityKey(element);
+    const existing = byIdentity.get(key);
+    if (existing) {
+      existing.count++;
+      return;
+    }
+    const entry = { element, order, count: 1, score: lexicalScore(element, queryTokens), group: shapeKey(element, order) };
+    byIdentity.set(key, entry);
+    entries.push(entry);
+  });
+
+  // 2. Rank
+  await blendEmbeddingScores(entries, options);
+  const ranked = [...entries].sort((a, b) => b.score - a.score || a.order - b.order);
+
+  // 3. Collapse large groups of same-shaped items
+  const groupSizes = new Map<string, number>();
+  entries.forEach((e) => groupSizes.set(e.group, (groupSizes.get(e.group) ?? 0) + 1));
+  const groupKept = new Map<string, number>();
+  const hidden = new Map<string, Entry[]>();
+  const candidates: Entry[] = [];
+  for (const entry of ranked) {
+    const kept = groupKept.get(entry.group) ?? 0;
+    if ((groupSizes.get(entry.group) ?? 0) > GROUP_COLLAPSE_THRESHOLD && kept >= GROUP_KEEP && entry.score < RELEVANT_SCORE) {
+      hidden.set(entry.group, [...(hidden.get(entry.group) ?? []), entry]);
+      continue;
+    }
+    groupKept.set(entry.group, kept + 1);
+    candidates.push(entry);
+  }
+
+  // 4. Fit the budget — summary lines first so collapsed groups stay visible
+  const lines: { order: number; text: string }[] = [];
+  let used = 0;
+  for (const group of hidden.values()) {
+    const text = summarizeGroup(group);
+    used += estimateTokens(text) + 1;
+    lines.push({ order: Math.min(...group.map((e) => e.order)) + 0.5, text });
+  }
+
+  const kept: ActionableElement[] = [];
+  for (const entry of candidates) {
+    const text = options.format(entry.element) + (entry.count > 1 ? ` (×${entry.count})` : "");
+    const cost = estimateTokens(text) + 1;
+    if (used + cost > budget) continue;
+    used += cost;
+    lines.push({ order: entry.order, text });
+    kept.push(entry.element);
+  }
+
+  lines.sort((a, b) => a.order - b.order);
+  return {
+    block: lines.map((l) => l.text).join("\n"),
+    kept,
+    total: elements.length,
+    estimatedTokens: used,
+  };
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? []).filter((t) => t.length > 1 && !STOP_WORDS.has(t));
+}
+
+function elementTokens(element: ActionableElement): Set<string> {
+  const attrs = element.attributes || {};
+  return new Set(
+    tokenize(
+      [
+        element.text,
+        element.accessibleName,
+        element.labelText,
+        element.context,
+        attrs.placeholder,
+        attrs["aria-label"],
+        attrs.title,
+        attrs.name,
+        attrs.id,
+        attrs.alt,
+        element.selectors.testId,
+        element.accessibility?.role ?? attrs.role,
+      ]
+        .filter(Boolean)
+        .join(" ")
+    )
+  );
+}
+
+// Share of query words the element mentions (prefix matches count for longer
+// words: "search" ~ "searchbox"), plus a small bonus for form controls / links
+function lexicalScore(element: ActionableElement, queryTokens: string[]): number {
+  const priority = PRIORITY_TAGS.has(element.tagName.toLowerCase()) ? 0.1 : 0;
+  if (queryTokens.length === 0) return priority;
+
+  const terms = elementTokens(element);
+  const matched = queryTokens.filter(
+    (q) => terms.has(q) || (q.length >= 4 && [...terms].some((t) => t.length >= 4 && (t.startsWith(q) || q.startsWith(t))))
+  ).length;
+  return matched / queryTokens.length + priority;
+}
+
+async function blendEmbeddingScores(entries: Entry[], options: PruneOptions): Promise<void> {
+  const embeddingConfig = options.config.rankingEmbeddings;
+  if (!embeddingConfig || !options.query.trim() || entries.length === 0) return;
+
+  const top = [...entries].sort((a, b) => b.score - a.score).slice(0, EMBEDDING_CANDIDATES);
+  try {
+    const [queryVector, ...vectors] = await generateEmbeddings(
+      [options.query, ...top.map((e) => buildElementText(e.element))],
+      embeddingConfig
+    );
+    // Everything outside the top candidates keeps its lexical share only
+    for (const entry of entries) entry.score *= LEXICAL_WEIGHT;
+    top.forEach((entry, i) => {
+      entry.score += (1 - LEXICAL_WEIGHT) * cosineSimilarity(queryVector, vectors[i]);
+    });
+  } catch (err: any) {
+    console.warn(`⚠️  ${options.label}: embedding ranking failed, using lexical scores only:`, err.message);
+  }
+}
+
+// ============================================================================
+// GROUPING
+// ============================================================================
+
+// Items that would print identically — folded into one line with a count
+function identityKey(element: ActionableElement): string {
+  return [
+    element.tagName,
+    element.accessibility?.role ?? element.attributes.role,
+    (element.text || "").trim(),
+    element.accessibleName,
+    element.labelText,
+    element.attributes.placeholder,
+    element.context,
+  ]
+    .map((part) => (part ?? "").toLowerCase())
+    .join("|");
+}
+
+// Same tag + role + class list = same kind of repeated item (cards, rows).
+// Elements without classes or role are never grouped.
+function shapeKey(element: ActionableElement, order: number): string {
+  const classes = (element.attributes.class || "").split(/\s+/).filter(Boolean).sort().join(".");
+  const role = element.accessibility?.role ?? element.attributes.role ?? "";
+  if (!classes && !role) return `#${order}`;
+  return `${element.tagName.toLowerCase()}|${role}|${classes}`;
+}
+
+function summarizeGroup(group: Entry[]): string {
+  const tag = group[0].element.tagName.toLowerCase();
+  const examples = group
+    .map((e) => (e.element.accessibleName || e.element.text || "").trim().slice(0, 30))
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((t) => `"${t}"`);
+  return `… ${group.length} more similar ${tag} items${examples.length > 0 ? ` (e.g. ${examples.join(", ")})` : ""}`;
+}
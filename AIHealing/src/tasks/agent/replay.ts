@@ -0,0 +1,152 @@
+// ============================================================================
+// REPLAY - Re-run Archived Planner / Healer Decisions Offline
+// ============================================================================
+// Loads a run archive (see archive.ts) and feeds every recorded decision's
+// snapshot back into the same Planner / Healer call with the CURRENT prompts
+// and the given model. No browser or live site is involved. Each entry shows
+// what was decided then vs. now, so a bad heal can be debugged after the fact
+// and prompt changes can be regression-tested against real captured pages.
+// ============================================================================
+
+import type { DOMSnapshot } from "./observer";
+import type { AIModelConfig } from "./thinker";
+import { planNextPhase, planTestSuite, replanRemainingSteps, type PlanResult } from "./planner";
+import { llmHeal, type LlmHealResult } from "./healer";
+import { readManifest, readSnapshot, type ArchivedDecision } from "./archive";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReplayEntry {
+  seq: number;
+  kind: ArchivedDecision["kind"];
+  stepNumber: number | null;
+  snapshot: string;
+  url: string;
+  recorded: string; // Summary of the archived decision
+  replayed: string; // Summary of the decision made now ("" on error)
+  changed: boolean;
+  error?: string;
+}
+
+export interface ReplayReport {
+  archiveId: string;
+  model: string;
+  replayedAt: Date;
+  entries: ReplayEntry[];
+  changedCount: number;
+}
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+export async function replayRun(
+  testSuiteId: string,
+  archiveId: string,
+  config: AIModelConfig
+): Promise<ReplayReport> {
+  const manifest = await readManifest(testSuiteId, archiveId);
+  console.log(`⏪ Replay: ${manifest.decisions.length} decision(s) from archive ${archiveId} with ${config.model}`);
+
+  const snapshots = new Map<string, DOMSnapshot>();
+  const entries: ReplayEntry[] = [];
+
+  for (const [seq, decision] of manifest.decisions.entries()) {
+    let snapshot = snapshots.get(decision.snapshot);
+    if (!snapshot) {
+      snapshot = await readSnapshot(testSuiteId, archiveId, decision.snapshot);
+      snapshots.set(decision.snapshot, snapshot);
+    }
+
+    const recorded =
+      decision.kind === "heal" ? summarizeHeal(decision.output, snapshot) : summarizePlan(decision.output);
+    const entry: ReplayEntry = {
+      seq: seq + 1,
+      kind: decision.kind,
+      stepNumber: decision.stepNumber,
+      snapshot: decision.snapshot,
+      url: snapshot.url,
+      recorded,
+      replayed: "",
+      changed: false,
+    };
+
+    try {
+      if (decision.kind === "heal") {
+        const result = await llmHeal(
+          decision.input.descriptor,
+          decision.input.expectedAction,
+          snapshot.actionableElements,
+          config
+        );
+        entry.replayed = summarizeHeal(result, snapshot);
+        entry.changed = result.elementId !== decision.output.elementId;
+      } else {
+        entry.replayed = summarizePlan(await replayPlanDecision(decision, snapshot, config));
+        entry.changed = entry.replayed !== recorded;
+      }
+    } catch (err: any) {
+      entry.error = err.message ?? String(err);
+      entry.changed = true;
+    }
+
+    console.log(`   ${entry.changed ? "≠" : "="} #${entry.seq} ${entry.kind}${entry.stepNumber ? ` @ step ${entry.stepNumber}` : ""}`);
+    entries.push(entry);
+  }
+
+  return {
+    archiveId,
+    model: config.model,
+    replayedAt: new Date(),
+    entries,
+    changedCount: entries.filter((e) => e.changed).length,
+  };
+}
+
+async function replayPlanDecision(
+  decision: Exclude<ArchivedDecision, { kind: "heal" }>,
+  snapshot: DOMSnapshot,
+  config: AIModelConfig
+): Promise<PlanResult> {
+  switch (decision.kind) {
+    case "plan":
+      return planTestSuite(decision.input.goal, snapshot, config, decision.input.maxSteps, decision.input.flows);
+    case "phase":
+      return planNextPhase(
+        decision.input.goal,
+        snapshot,
+        decision.input.completedSteps,
+        decision.input.pendingSteps,
+        config,
+        decision.input.maxSteps,
+        decision.input.flows
+      );
+    case "replan":
+      return replanRemainingSteps(
+        decision.input.goal,
+        snapshot,
+        decision.input.completedSteps,
+        decision.input.failedStep,
+        decision.input.remainingSteps,
+        config
+      );
+  }
+}
+
+// ============================================================================
+// SUMMARIES
+// ============================================================================
+
+function summarizePlan(result: PlanResult): string {
+  if (result.steps.length === 0) return "(no steps)";
+  return result.steps.map((s) => `[${s.expectedAction}] ${s.descriptor}`).join("\n");
+}
+
+function summarizeHeal(result: LlmHealResult, snapshot: DOMSnapshot): string {
+  if (!result.elementId) return "(no match)";
+  const el = snapshot.actionableElements.find((e) => e.id === result.elementId);
+  const label = el ? `${el.tagName.toLowerCase()} "${(el.accessibleName || el.text || "").trim().slice(0, 40)}"` : "";
+  return `${result.elementId} ${label} (${Math.round(result.confidence * 100)}%)`.replace(/\s+/g, " ");
+}
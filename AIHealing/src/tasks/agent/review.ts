@@ -0,0 +1,116 @@
+// ============================================================================
+// REVIEW - Human Review of Low-Confidence Heals
+// ============================================================================
+// A heal whose confidence is below the suite's review threshold still drives
+// the run (the step acts on the healed element), but it is NOT written to the
+// golden state. The step log carries a HealReview instead, the HealingEvent is
+// queued as PENDING and the run ends NEEDS_REVIEW. A reviewer then compares
+// the old and new element side by side:
+//
+//   approve  the new element becomes the golden state for the descriptor
+//   reject   the old selector stays (it was never replaced) and the new one
+//            is blocked: later heals for that descriptor never pick it again
+//
+// Element crops (a JPEG of just the target element) are taken whenever a
+// selector is learned or healed, so both sides of a review have a picture.
+// ============================================================================
+
+import type { Page } from "puppeteer";
+import type { ActionableElement } from "./observer";
+import type { ActionType } from "./thinker";
+import type { GoldenState } from "./vectorDB";
+import { resolveElement, type LocatorStrategy } from "./locators";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type SelectorType = "css" | "xpath" | "testId" | "aria";
+
+export interface HealReview {
+  scope: string; // Golden-state namespace: the suite id, or flowNamespace() for sub-flow steps
+  descriptor: string;
+  expectedAction: ActionType;
+  previous: {
+    selector: string;
+    selectorType: SelectorType;
+    framePath: string[];
+    metadata: GoldenState["elementMetadata"];
+  };
+  next: {
+    selector: string;
+    selectorType: SelectorType;
+    element: ActionableElement; // What approve() saves as the golden state
+  };
+}
+
+// A rejected candidate — never picked again for this descriptor
+export interface BlockedCandidate {
+  scope: string;
+  descriptor: string;
+  selector: string;
+}
+
+export const DEFAULT_REVIEW_THRESHOLD = 0.7;
+
+const CROP_QUALITY = 70;
+const MAX_CROP_AREA = 1280 * 800; // Larger "elements" are whole sections, not worth a picture
+
+// ============================================================================
+// CANDIDATES
+// ============================================================================
+
+/**
+ * Elements the healer may still pick for `descriptor` in `scope`, i.e.
+ * without the ones a reviewer rejected
+ */
+export function withoutBlocked(
+  elements: ActionableElement[],
+  blocked: BlockedCandidate[] | undefined,
+  scope: string,
+  descriptor: string
+): ActionableElement[] {
+  const selectors = new Set(
+    (blocked ?? []).filter((b) => b.scope === scope && b.descriptor === descriptor).map((b) => b.selector)
+  );
+  if (selectors.size === 0) return elements;
+
+  const kept = elements.filter(
+    (el) =>
+      ![el.selectors.css, el.selectors.xpath, el.selectors.testId].some((s) => !!s && selectors.has(s)) &&
+      !(el.selectors.candidates ?? []).some((c) => selectors.has(c.selector))
+  );
+  if (kept.length < elements.length) {
+    console.log(`🚫 Review: ${elements.length - kept.length} rejected candidate(s) excluded for "${descriptor}"`);
+  }
+  return kept;
+}
+
+// ============================================================================
+// CROPS
+// ============================================================================
+
+/**
+ * JPEG data URL of just `element`, or undefined when it cannot be found or
+ * is too large to be useful
+ */
+export async function captureElementCrop(
+  page: Page,
+  element: ActionableElement,
+  strategies?: LocatorStrategy[]
+): Promise<string | undefined> {
+  try {
+    const { handle } = await resolveElement(page, element, strategies);
+    try {
+      const box = await handle.boundingBox();
+      if (!box || box.width * box.height === 0 || box.width * box.height > MAX_CROP_AREA) return undefined;
+      const data = await handle.screenshot({ type: "jpeg", quality: CROP_QUALITY, encoding: "base64" });
+      return `data:image/jpeg;base64,${data}`;
+    } finally {
+      await handle.dispose();
+    }
+  } catch (err) {
+    console.warn(`⚠️  Review: could not capture element ${element.id}:`, err);
+    return undefined;
+  }
+}
@@ -0,0 +1,134 @@
+// ============================================================================
+// SECRETS - Per-User Encrypted Variables
+// ============================================================================
+// Goals reference secrets as {{secret.NAME}} instead of embedding raw
+// passwords. The placeholder is what the Planner / Healer LLMs see and what
+// ends up in the plan, logs and generated scripts; the plaintext only exists
+// in server memory for the duration of a run and is substituted by the Actor
+// at the moment it types into the page.
+//
+// Values are stored AES-256-GCM encrypted with SECRETS_ENCRYPTION_KEY
+// (32 bytes, hex or base64) so a database dump does not leak them.
+// ============================================================================
+
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import type { DOMSnapshot } from "./observer";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SecretValues = Record<string, string>; // NAME → plaintext (in memory only)
+
+const SECRET_PATTERN = /\{\{\s*secret\.([\w-]+)\s*\}\}/g;
+const SECRET_NAME_PATTERN = /^[A-Za-z][\w-]{0,63}$/;
+
+// Values shorter than this are not masked — masking "ab" would shred every log line
+const MIN_MASK_LENGTH = 3;
+
+// ============================================================================
+// PLACEHOLDERS
+// ============================================================================
+
+export function isValidSecretName(name: string): boolean {
+  return SECRET_NAME_PATTERN.test(name);
+}
+
+/**
+ * Names of all secrets referenced in the given texts (deduplicated)
+ */
+export function findSecretNames(...texts: (string | undefined)[]): string[] {
+  const names = new Set<string>();
+  for (const text of texts) {
+    if (!text) continue;
+    for (const match of text.matchAll(SECRET_PATTERN)) names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * Substitute {{secret.NAME}} with plaintext. Only call this right before the
+ * value is handed to the browser — never on anything that gets logged.
+ */
+export function resolveSecrets(text: string, secrets: SecretValues | undefined): string {
+  return text.replace(SECRET_PATTERN, (_match, name: string) => {
+    const value = secrets?.[name];
+    if (value === undefined) throw new Error(`Secret "${name}" is not defined`);
+    return value;
+  });
+}
+
+/**
+ * Replace any plaintext secret value in the text with its placeholder
+ */
+export function maskSecrets<T extends string | null | undefined>(
+  text: T,
+  secrets: SecretValues | undefined
+): T {
+  if (!text || !secrets) return text;
+  // Longest first so a secret containing another one is masked as a whole
+  const entries = Object.entries(secrets)
+    .filter(([, value]) => value.length >= MIN_MASK_LENGTH)
+    .sort((a, b) => b[1].length - a[1].length);
+
+  let masked: string = text;
+  for (const [name, value] of entries) {
+    masked = masked.split(value).join(`{{secret.${name}}}`);
+  }
+  return masked as T;
+}
+
+/**
+ * Mask secrets in a DOM snapshot before it is sent to an LLM or cached —
+ * typed-in values show up as element text / value attributes.
+ */
+export function maskSnapshot(snapshot: DOMSnapshot, secrets: SecretValues | undefined): DOMSnapshot {
+  if (!secrets || Object.keys(secrets).length === 0) return snapshot;
+  return {
+    ...snapshot,
+    html: maskSecrets(snapshot.html, secrets),
+    actionableElements: snapshot.actionableElements.map((el) => ({
+      ...el,
+      text: maskSecrets(el.text, secrets),
+      accessibleName: maskSecrets(el.accessibleName, secrets),
+      labelText: maskSecrets(el.labelText, secrets),
+      context: maskSecrets(el.context, secrets),
+      attributes: Object.fromEntries(
+        Object.entries(el.attributes).map(([key, value]) => [key, maskSecrets(value, secrets)])
+      ),
+      accessibility: el.accessibility && {
+        ...el.accessibility,
+        name: maskSecrets(el.accessibility.name, secrets),
+        description: maskSecrets(el.accessibility.description, secrets),
+      },
+    })),
+  };
+}
+
+// ============================================================================
+// ENCRYPTION
+// ============================================================================
+
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [iv, tag, encrypted].map((b) => b.toString("base64")).join(":");
+}
+
+export function decryptSecret(payload: string): string {
+  const [iv, tag, encrypted] = payload.split(":").map((part) => Buffer.from(part, "base64"));
+  if (!iv || !tag || !encrypted) throw new Error("Malformed encrypted secret");
+  const decipher = createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
+
+function getEncryptionKey(): Buffer {
+  const raw = process.env.SECRETS_ENCRYPTION_KEY;
+  if (!raw) throw new Error("SECRETS_ENCRYPTION_KEY is not set");
+  const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, "hex") : Buffer.from(raw, "base64");
+  if (key.length !== 32) throw new Error("SECRETS_ENCRYPTION_KEY must be 32 bytes (hex or base64)");
+  return key;
+}
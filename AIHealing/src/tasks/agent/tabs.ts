@@ -0,0 +1,183 @@
+// ============================================================================
+// TABS - Deterministic Tab, Popup & Dialog Handling
+// ============================================================================
+// The agent acts on one page at a time. Instead of guessing from the order of
+// browser.pages(), every page the run owns is tracked explicitly:
+//   - A tab / popup opened by the current page (target=_blank, window.open,
+//     OAuth sign-in windows) is followed once the action that opened it is
+//     done. The opener stays on a stack underneath it.
+//   - When the followed tab closes (an OAuth popup finishing), the run
+//     returns to its opener.
+//   - alert / confirm / prompt / beforeunload dialogs on any tracked page are
+//     answered by the suite's DialogPolicy straight away (an open dialog
+//     blocks the page).
+// Each switch and each handled dialog becomes a PageEvent on the step log.
+// ============================================================================
+
+import type { Dialog, Page } from "puppeteer";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DialogAction = "accept" | "dismiss" | "answer";
+
+export interface DialogPolicy {
+  action: DialogAction; // "answer" = accept, replying `answer` to prompt()
+  answer?: string;
+}
+
+export type PageEvent =
+  | {
+      type: "dialog";
+      dialogType: string; // alert | confirm | prompt | beforeunload
+      message: string;
+      response: "accepted" | "dismissed";
+      answer?: string; // prompt() reply
+      url: string;
+      timestamp: Date;
+    }
+  | { type: "tabOpened"; url: string; timestamp: Date } // switched to a tab / popup the step opened
+  | { type: "tabClosed"; url: string; returnedTo: string; timestamp: Date }; // it closed; back to the opener
+
+export interface TabTracker {
+  // Follow a newly opened tab, or return from a closed one; the page to act on
+  sync(): Promise<Page>;
+  // Events since the last drain(), oldest first
+  drain(): PageEvent[];
+  // Stop listening on every tracked page
+  dispose(): void;
+}
+
+export const DIALOG_ACTIONS: DialogAction[] = ["accept", "dismiss", "answer"];
+export const DEFAULT_DIALOG_POLICY: DialogPolicy = { action: "accept" };
+
+const NEW_TAB_TIMEOUT = 3000; // Wait for a new tab to leave about:blank
+const POLL_MS = 100;
+
+// ============================================================================
+// TRACKING
+// ============================================================================
+
+/**
+ * Start tracking `page` (and every tab / popup it opens, recursively).
+ * `onOpened` sees each new tab / popup as soon as it exists.
+ */
+export function trackTabs(
+  page: Page,
+  policy: DialogPolicy = DEFAULT_DIALOG_POLICY,
+  onOpened?: (popup: Page) => void
+): TabTracker {
+  const stack: Page[] = [page]; // Followed tabs, the one to act on last
+  const opened: Page[] = []; // Opened since the last sync(), not followed yet
+  const events: PageEvent[] = [];
+  const detach: (() => void)[] = [];
+
+  const onDialog = async (owner: Page, dialog: Dialog) => {
+    const dialogType = dialog.type();
+    const accept = policy.action !== "dismiss";
+    const answer = policy.action === "answer" && dialogType === "prompt" ? (policy.answer ?? "") : undefined;
+    try {
+      if (accept) await dialog.accept(answer);
+      else await dialog.dismiss();
+    } catch {
+      // Already handled or the page went away
+    }
+    const response = accept ? "accepted" : "dismissed";
+    console.log(`💬 Tabs: ${dialogType} "${dialog.message().slice(0, 80)}" → ${response}`);
+    events.push({
+      type: "dialog",
+      dialogType,
+      message: dialog.message(),
+      response,
+      answer,
+      url: owner.url(),
+      timestamp: new Date(),
+    });
+  };
+
+  const attach = (target: Page) => {
+    const dialogListener = (dialog: Dialog) => void onDialog(target, dialog);
+    const popupListener = (popup: Page | null) => {
+      if (!popup) return;
+      opened.push(popup);
+      attach(popup);
+      onOpened?.(popup);
+    };
+    target.on("dialog", dialogListener);
+    target.on("popup", popupListener);
+    detach.push(() => {
+      target.off("dialog", dialogListener);
+      target.off("popup", popupListener);
+    });
+  };
+  attach(page);
+
+  return {
+    async sync() {
+      // Closed tabs: fall back to whatever opened them (the first page stays)
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (!stack[i].isClosed()) continue;
+        const [closed] = stack.splice(i, 1);
+        if (i === stack.length) {
+          const returnedTo = stack[stack.length - 1];
+          console.log(`🗂️  Tabs: ${closed.url()} closed — back to ${returnedTo.url()}`);
+          events.push({ type: "tabClosed", url: closed.url(), returnedTo: returnedTo.url(), timestamp: new Date() });
+        }
+      }
+
+      // Follow the newest tab the last action opened (one that already
+      // closed again, like a quick OAuth popup, is ignored)
+      const next = opened
+        .splice(0)
+        .filter((p) => !p.isClosed())
+        .pop();
+      if (next) {
+        await waitForUrl(next);
+        stack.push(next);
+        console.log(`🗂️  Tabs: following new tab ${next.url()}`);
+        events.push({ type: "tabOpened", url: next.url(), timestamp: new Date() });
+      }
+
+      const current = stack[stack.length - 1];
+      if (!current.isClosed()) await current.bringToFront();
+      return current;
+    },
+
+    drain() {
+      return events.splice(0);
+    },
+
+    dispose() {
+      detach.splice(0).forEach((off) => off());
+    },
+  };
+}
+
+/**
+ * Short log line for a PageEvent, e.g. `confirm "Delete item?" → accepted`
+ */
+export function formatPageEvent(event: PageEvent): string {
+  switch (event.type) {
+    case "dialog":
+      return `${event.dialogType} "${event.message}" → ${event.response}${
+        event.answer !== undefined ? ` with "${event.answer}"` : ""
+      }`;
+    case "tabOpened":
+      return `switched to new tab ${event.url}`;
+    case "tabClosed":
+      return `tab ${event.url} closed — back to ${event.returnedTo}`;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// A fresh tab starts on about:blank before its first navigation commits
+async function waitForUrl(page: Page): Promise<void> {
+  const deadline = Date.now() + NEW_TAB_TIMEOUT;
+  while (page.url() === "about:blank" && !page.isClosed() && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, POLL_MS));
+  }
+}
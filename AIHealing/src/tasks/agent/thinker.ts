@@ -6,7 +6,10 @@
 // ============================================================================
 
 import { GoogleGenerativeAI } from "@google/generative-ai";
-import type { DOMSnapshot } from "./observer";
+import { formatElementContext, type DOMSnapshot } from "./observer";
+import type { EmbeddingConfig } from "./embeddings";
+import type { StepAssertion } from "./assertions";
+import { logPromptTokens, pruneElements } from "./pruning";
 
 // ============================================================================
 // TYPES
@@ -19,10 +22,31 @@ export interface ThinkingResult {
   confidence: number; // 0-1 score
 }
 
+export type ActionType =
+  | "click"
+  | "type"
+  | "select"
+  | "wait"
+  | "navigate"
+  | "verify"
+  | "hover"
+  | "dblclick"
+  | "rightclick"
+  | "press" // value: key or chord, e.g. "Enter", "Control+A"
+  | "scroll" // scroll the element into view
+  | "drag" // value: drop target descriptor, or a "dx,dy" pixel offset
+  | "check"
+  | "uncheck"
+  | "clear"
+  | "focus"
+  | "upload"; // value: file name(s) under FIXTURES_DIR, comma-separated
+
 export interface Action {
-  type: "click" | "type" | "select" | "wait" | "navigate" | "verify";
+  type: ActionType;
   targetElementId?: string; // Reference to ActionableElement.id
-  value?: string; // For type/select actions
+  dropTargetElementId?: string; // drag: element to drop onto (absent → value is a pixel offset)
+  value?: string; // For type/select/press/drag/upload actions; expected value for verify
+  assertion?: StepAssertion; // verify: what to check (default: page text includes value)
   description: string;
 }
 
@@ -31,6 +55,15 @@ export interface AIModelConfig {
   apiKey: string;
   temperature?: number;
   maxTokens?: number;
+  promptTokenBudget?: number; // Token budget for the element list in prompts (see pruning.ts)
+  rankingEmbeddings?: EmbeddingConfig; // Blend embedding similarity into element ranking
+}
+
+// Models the Thinker / Planner / Healer can actually call (gpt-4o is not wired up)
+export const SUPPORTED_MODELS: AIModelConfig["model"][] = ["gemini-flash", "gemini-pro"];
+
+export function isSupportedModel(value: string): value is AIModelConfig["model"] {
+  return (SUPPORTED_MODELS as string[]).includes(value);
 }
 
 // ============================================================================
@@ -50,7 +83,7 @@ export async function think(
   console.log("🤔 Thinker: Analyzing page and deciding next action...");
 
   // Build the prompt for the AI
-  const prompt = buildPrompt(goal, snapshot, previousActions);
+  const prompt = await buildPrompt(goal, snapshot, previousActions, config);
 
   // Call the appropriate AI model
   const response = await callAIModel(prompt, config);
@@ -65,29 +98,29 @@ export async function think(
 /**
  * Build the prompt for the AI model
  */
-function buildPrompt(
+async function buildPrompt(
   goal: string,
   snapshot: DOMSnapshot,
-  previousActions: Action[]
-): string {
-  // Simplify actionable elements for the prompt
-  // Sort elements to ensure buttons and inputs are prioritized, then trim to ~120 elements to avoid Token limits
-  const maxElements = [...snapshot.actionableElements].sort((a, b) => {
-    const aPriority = (a.tagName.toLowerCase() === 'button' || a.tagName.toLowerCase() === 'input') ? 1 : 0;
-    const bPriority = (b.tagName.toLowerCase() === 'button' || b.tagName.toLowerCase() === 'input') ? 1 : 0;
-    return bPriority - aPriority;
-  }).slice(0, 120);
-  const elementsDescription = maxElements
-    .map((el, idx) => {
-      return `[${el.id}] ${el.tagName} - "${el.text}" (${Object.keys(el.selectors).length} selectors available)`;
-    })
-    .join('\n');
+  previousActions: Action[],
+  config: AIModelConfig
+): Promise<string> {
+  // Rank elements against the goal and fit them into the prompt token budget
+  const pruned = await pruneElements(snapshot.actionableElements, {
+    query: goal,
+    config,
+    label: "Thinker",
+    format: (el) => {
+      const context = formatElementContext(el);
+      return `[${el.id}] ${el.tagName} - "${el.text}"${context ? ` ${context}` : ""} (${Object.keys(el.selectors).length} selectors available)`;
+    },
+  });
+  const elementsDescription = pruned.block;
 
   const actionsHistory = previousActions.length > 0
     ? previousActions.map(a => `- ${a.type}: ${a.description}`).join('\n')
     : "None yet - this is the first step";
 
-  return `You are an expert QA automation agent. Your goal is to:
+  const prompt = `You are an expert QA automation agent. Your goal is to:
 "${goal}"
 
 CURRENT PAGE STATE:
@@ -119,6 +152,9 @@ INSTRUCTIONS:
 (Note: Set "nextAction" to null if goal is achieved)
 
 Think step by step. Be precise. Only suggest actions that are clearly achievable with the visible elements.`;
+
+  logPromptTokens("Thinker", prompt, pruned);
+  return prompt;
 }
 
 /**
@@ -25,6 +25,7 @@ export interface GoldenState {
     type?: string;
     placeholder?: string;
   };
+  framePath: string[]; // iframe selectors leading to the element ([] = main frame)
   successCount: number;
   lastUsedAt: Date;
   testSuiteId: string;
@@ -33,6 +34,7 @@ export interface GoldenState {
 export interface VectorSearchResult {
   selector: string;
   selectorType: "css" | "xpath" | "testId" | "aria";
+  framePath: string[];
   confidence: number; // 0-1 similarity score
   metadata: GoldenState["elementMetadata"];
 }
@@ -44,6 +46,25 @@ export interface VectorSearchResult {
 let chromaClient: ChromaClient | null = null;
 const COLLECTION_NAME = "golden_states";
 
+/**
+ * Memory namespace for a reusable sub-flow. Passed wherever a testSuiteId is
+ * expected so every suite that includes the flow shares its golden states.
+ */
+export function flowNamespace(flowId: string): string {
+  return `flow_${flowId}`;
+}
+
+// Chroma metadata values must be scalars, so the frame path is stored as JSON
+function parseFramePath(raw: unknown): string[] {
+  if (typeof raw !== "string" || !raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
 /**
  * Initialize ChromaDB connection
  */
@@ -80,6 +101,7 @@ async function getCollection() {
 /**
  * Save a successful selector as "Golden State" in the Vector DB
  * This is called AFTER every successful action
+ * Returns false when the write failed (never throws)
  */
 export async function saveGoldenState(
   testSuiteId: string,
@@ -89,7 +111,7 @@ export async function saveGoldenState(
   element: ActionableElement,
   embedding: number[],
   stepNumber?: number
-): Promise<void> {
+): Promise<boolean> {
   try {
     const collection = await getCollection();
 
@@ -121,6 +143,7 @@ export async function saveGoldenState(
           stepDescription,
           selector,
           selectorType,
+          framePath: JSON.stringify(element.selectors.framePath ?? []),
           ...metadata,
           successCount: (existing.metadatas[0]?.successCount as number || 0) + 1,
           lastUsedAt: new Date().toISOString(),
@@ -138,6 +161,7 @@ export async function saveGoldenState(
           stepDescription,
           selector,
           selectorType,
+          framePath: JSON.stringify(element.selectors.framePath ?? []),
           ...metadata,
           successCount: 1,
           lastUsedAt: new Date().toISOString(),
@@ -146,9 +170,11 @@ export async function saveGoldenState(
       
       console.log(`✅ Saved new Golden State: ${stepDescription}`);
     }
+    return true;
   } catch (error) {
     console.error("❌ Failed to save Golden State:", error);
     // Don't throw - we don't want to break the test if DB save fails
+    return false;
   }
 }
 
@@ -180,6 +206,7 @@ export async function findPersistentSelector(
         return {
           selector: metadata.selector,
           selectorType: metadata.selectorType,
+          framePath: parseFramePath(metadata.framePath),
           confidence: 1.0,
           metadata: {
             tagName: metadata.tagName,
@@ -208,6 +235,7 @@ export async function findPersistentSelector(
       return {
         selector: metadata.selector,
         selectorType: metadata.selectorType,
+        framePath: parseFramePath(metadata.framePath),
         confidence: 1.0,
         metadata: {
           tagName: metadata.tagName,
@@ -258,6 +286,7 @@ export async function findPersistentSelector(
         return {
           selector: metadata.selector,
           selectorType: metadata.selectorType,
+          framePath: parseFramePath(metadata.framePath),
           confidence,
           metadata: {
             tagName: metadata.tagName,
@@ -282,6 +311,7 @@ export async function findPersistentSelector(
 /**
  * Update a persistent selector after successful healing
  * This replaces the old broken selector with the new working one
+ * Returns false when there was no entry to update or the write failed
  */
 export async function updatePersistentSelector(
   testSuiteId: string,
@@ -289,8 +319,9 @@ export async function updatePersistentSelector(
   newSelector: string,
   selectorType: "css" | "xpath" | "testId" | "aria",
   embedding: number[],
-  stepNumber?: number
-): Promise<void> {
+  stepNumber?: number,
+  framePath?: string[]
+): Promise<boolean> {
   try {
     const collection = await getCollection();
     const id = stepNumber !== undefined
@@ -299,6 +330,10 @@ export async function updatePersistentSelector(
     
     // Fetch existing metadata to avoid losing fields
     const existing = await collection.get({ ids: [id] });
+    if (existing.ids.length === 0) {
+      console.error(`❌ No persistent selector to update for: ${stepDescription}`);
+      return false;
+    }
     const existingMetadata = existing.metadatas[0] || {};
     
     // Update the selector while preserving other metadata
@@ -309,13 +344,16 @@ export async function updatePersistentSelector(
         ...existingMetadata,
         selector: newSelector,
         selectorType,
+        ...(framePath ? { framePath: JSON.stringify(framePath) } : {}),
         lastUsedAt: new Date().toISOString(),
       }],
     });
     
     console.log(`✅ Updated persistent selector for: ${stepDescription}`);
+    return true;
   } catch (error) {
     console.error("❌ Failed to update persistent selector:", error);
+    return false;
   }
 }
 
@@ -344,9 +382,13 @@ export async function vectorSimilaritySearch(
       // similarity strategies that actually inspect the live DOM. Without this
       // check, the healer would "heal" by returning the same broken selector.
       const t = knownSelector.selectorType;
+      const frameKey = knownSelector.framePath.join(" > ");
       const stillExists = currentElements.some(el => {
-        if (t === "css") return el.selectors.css === knownSelector.selector;
-        if (t === "xpath") return el.selectors.xpath === knownSelector.selector;
+        if ((el.selectors.framePath ?? []).join(" > ") !== frameKey) return false;
+        const isCandidate = (kind: "css" | "xpath") =>
+          el.selectors.candidates?.some(c => c.kind === kind && c.selector === knownSelector.selector) ?? false;
+        if (t === "css") return el.selectors.css === knownSelector.selector || isCandidate("css");
+        if (t === "xpath") return el.selectors.xpath === knownSelector.selector || isCandidate("xpath");
         if (t === "testId") return el.selectors.testId === knownSelector.selector;
         if (t === "aria") return el.selectors.ariaLabel === knownSelector.selector;
         return false;
@@ -384,6 +426,7 @@ export async function getGoldenStates(testSuiteId: string): Promise<GoldenState[
     return results.ids.map((id, index) => ({
       id,
       ...(results.metadatas[index] as any),
+      framePath: parseFramePath(results.metadatas[index]?.framePath),
       embedding: results.embeddings ? results.embeddings[index] : [],
     }));
   } catch (error) {
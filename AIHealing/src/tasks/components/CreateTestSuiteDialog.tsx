@@ -29,6 +29,13 @@ import {
   AlertCircle,
   ArrowRight,
   ArrowLeft,
+  ListOrdered,
+  Hourglass,
+  Gauge,
+  Crosshair,
+  MessageSquare,
+  Wrench,
+  Eye,
 } from "lucide-react";
 import { cn } from "../../lib/utils";
 
@@ -43,20 +50,59 @@ type FormData = {
   model: string;
   headless: boolean;
   timeout: number;
+  maxPlanSteps: number;
+  promptTokenBudget: number;
+  readyCheck: string;
+  locatorStrategies: string;
+  dialogPolicy: string;
+  dialogAnswer: string;
+  healingThresholds: Record<string, number>; // percent, per tier
+  reviewThreshold: number; // percent
 };
 
+// Mirrors the healing tiers in agent/healer.ts (run order, default thresholds in %)
+const HEALING_TIERS = [
+  { name: "exact-text", label: "Exact text", threshold: 90 },
+  { name: "text-similarity", label: "Similar text", threshold: 80 },
+  { name: "structural", label: "Structure", threshold: 75 },
+  { name: "embedding", label: "Embedding", threshold: 85 },
+];
+
 const DEFAULT_FORM: FormData = {
   goal: "",
   startUrl: "",
   model: "gemini-flash",
   headless: true,
   timeout: 30000,
+  maxPlanSteps: 20,
+  promptTokenBudget: 2500,
+  readyCheck: "",
+  locatorStrategies: "",
+  dialogPolicy: "accept",
+  dialogAnswer: "",
+  healingThresholds: Object.fromEntries(HEALING_TIERS.map((t) => [t.name, t.threshold])),
+  reviewThreshold: 70,
+};
+
+// Mirrors LOCATOR_STRATEGIES in agent/locators.ts (default order)
+const LOCATOR_STRATEGIES = ["testId", "css", "xpath", "role", "label", "placeholder", "text"];
+
+const DIALOG_POLICY_LABELS: Record<string, string> = {
+  accept: "Accept (OK)",
+  dismiss: "Dismiss (Cancel)",
+  answer: "Answer prompts with text",
 };
 
+const parseLocatorOrder = (value: string) =>
+  value
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
 const EXAMPLE_GOALS = [
   {
     label: "Login flow",
-    text: "Login with email test@example.com and password test1234, then verify the dashboard loads.",
+    text: "Login with email test@example.com and password {{secret.TEST_PASSWORD}}, then verify the dashboard loads.",
   },
   {
     label: "E-commerce search",
@@ -139,6 +185,20 @@ export function CreateTestSuiteDialog({
         model: formData.model,
         headless: formData.headless,
         timeout: formData.timeout,
+        maxPlanSteps: formData.maxPlanSteps,
+        promptTokenBudget: formData.promptTokenBudget,
+        readyCheck: formData.readyCheck.trim() || undefined,
+        locatorStrategies: parseLocatorOrder(formData.locatorStrategies),
+        dialogPolicy: formData.dialogPolicy,
+        dialogAnswer: formData.dialogPolicy === "answer" ? formData.dialogAnswer : undefined,
+        // Only tiers changed from their default are stored
+        healingThresholds: Object.fromEntries(
+          HEALING_TIERS.filter((t) => formData.healingThresholds[t.name] !== t.threshold).map((t) => [
+            t.name,
+            formData.healingThresholds[t.name] / 100,
+          ])
+        ),
+        reviewThreshold: formData.reviewThreshold / 100,
       });
       reset();
       onOpenChange(false);
@@ -228,6 +288,10 @@ export function CreateTestSuiteDialog({
                   rows={4}
                   className="resize-none"
                 />
+                <p className="text-xs text-muted-foreground">
+                  Never paste passwords here — reference a saved secret as{" "}
+                  <code>{"{{secret.NAME}}"}</code> so it is never sent to the AI.
+                </p>
                 <div className="flex flex-wrap gap-2 pt-1">
                   <span className="text-xs text-muted-foreground mr-1">
                     Try:
@@ -368,6 +432,196 @@ export function CreateTestSuiteDialog({
                     Headless runs without a visible window
                   </p>
                 </div>
+
+                <div className="grid gap-2">
+                  <Label htmlFor="maxPlanSteps" className="flex items-center gap-2">
+                    <ListOrdered className="h-4 w-4 text-blue-600" />
+                    Max Plan Length
+                  </Label>
+                  <Input
+                    id="maxPlanSteps"
+                    type="number"
+                    value={formData.maxPlanSteps}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        maxPlanSteps: parseInt(e.target.value || "0", 10),
+                      })
+                    }
+                    min={1}
+                    max={50}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Total steps across all pages of the flow
+                  </p>
+                </div>
+
+                <div className="grid gap-2">
+                  <Label htmlFor="promptTokenBudget" className="flex items-center gap-2">
+                    <Gauge className="h-4 w-4 text-blue-600" />
+                    Prompt Budget (tokens)
+                  </Label>
+                  <Input
+                    id="promptTokenBudget"
+                    type="number"
+                    value={formData.promptTokenBudget}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        promptTokenBudget: parseInt(e.target.value || "0", 10),
+                      })
+                    }
+                    min={500}
+                    max={20000}
+                    step={500}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Page elements sent to the AI, most relevant first
+                  </p>
+                </div>
+
+                <div className="grid gap-2 col-span-2">
+                  <Label htmlFor="readyCheck" className="flex items-center gap-2">
+                    <Hourglass className="h-4 w-4 text-blue-600" />
+                    Ready Check (optional)
+                  </Label>
+                  <Input
+                    id="readyCheck"
+                    placeholder="window.appReady === true"
+                    value={formData.readyCheck}
+                    onChange={(e) =>
+                      setFormData({ ...formData, readyCheck: e.target.value })
+                    }
+                    maxLength={500}
+                    className="font-mono"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    JS expression that must be true before each page counts as
+                    settled, on top of network, DOM and animation quiet
+                  </p>
+                </div>
+
+                <div className="grid gap-2 col-span-2">
+                  <Label htmlFor="locatorStrategies" className="flex items-center gap-2">
+                    <Crosshair className="h-4 w-4 text-blue-600" />
+                    Locator Order (optional)
+                  </Label>
+                  <Input
+                    id="locatorStrategies"
+                    placeholder={LOCATOR_STRATEGIES.join(", ")}
+                    value={formData.locatorStrategies}
+                    onChange={(e) =>
+                      setFormData({ ...formData, locatorStrategies: e.target.value })
+                    }
+                    className={cn(
+                      "font-mono",
+                      parseLocatorOrder(formData.locatorStrategies).some(
+                        (s) => !LOCATOR_STRATEGIES.includes(s)
+                      ) && "border-amber-500"
+                    )}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Strategies tried when finding an element, first match wins.
+                    Leave empty for the default order; omitted strategies are not used
+                  </p>
+                </div>
+
+                <div className="grid gap-2">
+                  <Label htmlFor="dialogPolicy" className="flex items-center gap-2">
+                    <MessageSquare className="h-4 w-4 text-blue-600" />
+                    Browser Dialogs
+                  </Label>
+                  <Select
+                    value={formData.dialogPolicy}
+                    onValueChange={(value) => setFormData({ ...formData, dialogPolicy: value })}
+                  >
+                    <SelectTrigger id="dialogPolicy">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(DIALOG_POLICY_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    How alert, confirm, prompt and leave-page dialogs are answered
+                  </p>
+                </div>
+
+                {formData.dialogPolicy === "answer" && (
+                  <div className="grid gap-2">
+                    <Label htmlFor="dialogAnswer">Prompt Answer</Label>
+                    <Input
+                      id="dialogAnswer"
+                      placeholder="Text typed into prompt() dialogs"
+                      value={formData.dialogAnswer}
+                      onChange={(e) => setFormData({ ...formData, dialogAnswer: e.target.value })}
+                      maxLength={500}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Other dialogs are accepted
+                    </p>
+                  </div>
+                )}
+
+                <div className="grid gap-2 col-span-2">
+                  <Label className="flex items-center gap-2">
+                    <Wrench className="h-4 w-4 text-blue-600" />
+                    Healing Thresholds (%)
+                  </Label>
+                  <div className="grid grid-cols-4 gap-2">
+                    {HEALING_TIERS.map((tier) => (
+                      <div key={tier.name} className="grid gap-1">
+                        <span className="text-xs text-gray-600">{tier.label}</span>
+                        <Input
+                          type="number"
+                          aria-label={`${tier.label} threshold`}
+                          value={formData.healingThresholds[tier.name]}
+                          onChange={(e) =>
+                            setFormData({
+                              ...formData,
+                              healingThresholds: {
+                                ...formData.healingThresholds,
+                                [tier.name]: parseInt(e.target.value || "0", 10),
+                              },
+                            })
+                          }
+                          min={0}
+                          max={100}
+                          step={5}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    When a selector breaks, these tiers are tried in order before the AI.
+                    A tier heals only at or above its confidence; 100 = exact matches only
+                  </p>
+                </div>
+
+                <div className="grid gap-2">
+                  <Label htmlFor="reviewThreshold" className="flex items-center gap-2">
+                    <Eye className="h-4 w-4 text-blue-600" />
+                    Review Below (%)
+                  </Label>
+                  <Input
+                    id="reviewThreshold"
+                    type="number"
+                    value={formData.reviewThreshold}
+                    onChange={(e) =>
+                      setFormData({ ...formData, reviewThreshold: parseInt(e.target.value || "0", 10) })
+                    }
+                    min={0}
+                    max={100}
+                    step={5}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Lower-confidence heals finish the run as NEEDS_REVIEW; 0 = never
+                  </p>
+                </div>
               </div>
             </div>
           )}
@@ -427,6 +681,56 @@ export function CreateTestSuiteDialog({
                     {formData.timeout.toLocaleString()} ms
                   </p>
                 </div>
+                <div className="rounded-lg border bg-gray-50 p-4">
+                  <p className="text-[11px] uppercase tracking-wide text-gray-500 font-semibold">
+                    Max Plan Length
+                  </p>
+                  <p className="text-sm text-gray-900 mt-1">
+                    {formData.maxPlanSteps} steps
+                  </p>
+                </div>
+                <div className="rounded-lg border bg-gray-50 p-4">
+                  <p className="text-[11px] uppercase tracking-wide text-gray-500 font-semibold">
+                    Prompt Budget
+                  </p>
+                  <p className="text-sm text-gray-900 mt-1">
+                    {formData.promptTokenBudget.toLocaleString()} tokens
+                  </p>
+                </div>
+                <div className="rounded-lg border bg-gray-50 p-4 col-span-2">
+                  <p className="text-[11px] uppercase tracking-wide text-gray-500 font-semibold">
+                    Locator Order
+                  </p>
+                  <p className="text-sm text-gray-900 mt-1 font-mono">
+                    {parseLocatorOrder(formData.locatorStrategies).join(" → ") ||
+                      `${LOCATOR_STRATEGIES.join(" → ")} (default)`}
+                  </p>
+                </div>
+                <div className="rounded-lg border bg-gray-50 p-4 col-span-2">
+                  <p className="text-[11px] uppercase tracking-wide text-gray-500 font-semibold">
+                    Browser Dialogs
+                  </p>
+                  <p className="text-sm text-gray-900 mt-1">
+                    {DIALOG_POLICY_LABELS[formData.dialogPolicy]}
+                    {formData.dialogPolicy === "answer" && (
+                      <span className="font-mono"> “{formData.dialogAnswer}”</span>
+                    )}
+                  </p>
+                </div>
+                <div className="rounded-lg border bg-gray-50 p-4 col-span-2">
+                  <p className="text-[11px] uppercase tracking-wide text-gray-500 font-semibold">
+                    Healing Tiers
+                  </p>
+                  <p className="text-sm text-gray-900 mt-1">
+                    {HEALING_TIERS.map((t) => `${t.label} ≥ ${formData.healingThresholds[t.name]}%`).join(" → ")}
+                    <span className="text-muted-foreground"> → AI</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formData.reviewThreshold > 0
+                      ? `Heals below ${formData.reviewThreshold}% wait for review`
+                      : "Every heal is trusted"}
+                  </p>
+                </div>
               </div>
 
               <div className="rounded-md border border-blue-200 bg-blue-50 p-3 text-sm text-blue-900 flex items-start gap-2">
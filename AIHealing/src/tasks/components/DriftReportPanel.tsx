@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { Badge } from "../../shared/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "../../shared/components/ui/card";
+import { ScanSearch, ChevronDown, ChevronRight } from "lucide-react";
+import { cn } from "../../lib/utils";
+
+type FieldChange = { field: string; from: string; to: string };
+
+type StepDrift = {
+  stepNumber: number;
+  iteration: number | null;
+  descriptor: string;
+  baselineUrl: string;
+  url: string;
+  added: string[];
+  removed: string[];
+  changed: { element: string; changes: FieldChange[] }[];
+};
+
+type DriftReport = {
+  baselineRunAt: string | Date;
+  currentRunAt: string | Date;
+  steps: StepDrift[];
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  id: "id",
+  testId: "test id",
+  name: "name",
+  classes: "classes",
+  text: "text",
+  position: "moved",
+};
+
+export function DriftReportPanel({ report }: { report: DriftReport }) {
+  const totals = report.steps.reduce(
+    (acc, step) => ({
+      added: acc.added + step.added.length,
+      removed: acc.removed + step.removed.length,
+      changed: acc.changed + step.changed.length,
+    }),
+    { added: 0, removed: 0, changed: 0 }
+  );
+
+  return (
+    <Card className="bg-slate-900/60 border-gray-800 overflow-hidden">
+      <CardHeader className="py-3 px-4 border-b border-gray-800 flex flex-row items-center justify-between space-y-0 gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <ScanSearch className="h-4 w-4 text-amber-400 flex-none" />
+          <CardTitle className="text-sm text-white tracking-widest uppercase">DOM Drift</CardTitle>
+          <span className="text-xs text-gray-500 truncate">
+            since the passing run of {new Date(report.baselineRunAt).toLocaleString()}
+          </span>
+        </div>
+        <div className="flex items-center gap-2 flex-none text-[11px] font-mono">
+          <span className="text-green-300">+{totals.added}</span>
+          <span className="text-red-300">−{totals.removed}</span>
+          <span className="text-amber-300">~{totals.changed}</span>
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-0 max-h-[320px] overflow-y-auto">
+        {report.steps.length > 0 ? (
+          <div className="divide-y divide-gray-800">
+            {report.steps.map((step) => (
+              <StepDriftRow key={`${step.iteration ?? 0}:${step.stepNumber}:${step.descriptor}`} step={step} />
+            ))}
+          </div>
+        ) : (
+          <p className="px-4 py-4 text-xs text-gray-500">
+            No structural changes on the pages the latest run visited.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function StepDriftRow({ step }: { step: StepDrift }) {
+  const [open, setOpen] = useState(false);
+  const urlChanged = step.baselineUrl !== step.url;
+
+  return (
+    <div className="px-4 py-2.5 text-xs">
+      <button
+        type="button"
+        onClick={() => setOpen((o) => !o)}
+        className="flex w-full items-center gap-2 text-left"
+      >
+        {open ? (
+          <ChevronDown className="h-3.5 w-3.5 text-gray-500 flex-none" />
+        ) : (
+          <ChevronRight className="h-3.5 w-3.5 text-gray-500 flex-none" />
+        )}
+        <span className="font-mono text-gray-500 uppercase flex-none">
+          Step {step.stepNumber}
+          {step.iteration !== null && ` · row ${step.iteration}`}
+        </span>
+        <span className="text-gray-200 truncate">{step.descriptor}</span>
+        <span className="ml-auto flex items-center gap-2 font-mono flex-none">
+          {step.added.length > 0 && <span className="text-green-300">+{step.added.length}</span>}
+          {step.removed.length > 0 && <span className="text-red-300">−{step.removed.length}</span>}
+          {step.changed.length > 0 && <span className="text-amber-300">~{step.changed.length}</span>}
+        </span>
+      </button>
+
+      {open && (
+        <div className="mt-2 ml-5 space-y-1.5 font-mono">
+          {urlChanged && (
+            <div className="text-gray-400 break-all">
+              url: <span className="text-red-200 line-through">{step.baselineUrl}</span> →{" "}
+              <span className="text-green-200">{step.url}</span>
+            </div>
+          )}
+          {step.removed.map((label, i) => (
+            <div key={`r${i}`} className="text-red-300 break-all">
+              − {label}
+            </div>
+          ))}
+          {step.added.map((label, i) => (
+            <div key={`a${i}`} className="text-green-300 break-all">
+              + {label}
+            </div>
+          ))}
+          {step.changed.map((change, i) => (
+            <div key={`c${i}`} className="space-y-0.5">
+              <div className="text-amber-300 break-all">~ {change.element}</div>
+              <div className="flex flex-wrap gap-1.5 pl-3">
+                {change.changes.map((c) => (
+                  <Badge
+                    key={c.field}
+                    variant="outline"
+                    className={cn(
+                      "font-mono text-[10px] normal-case border-gray-700 text-gray-300 max-w-full",
+                      c.field === "position" && "text-gray-400"
+                    )}
+                    title={`${c.from || "∅"} → ${c.to || "∅"}`}
+                  >
+                    <span className="text-gray-500 mr-1">{FIELD_LABELS[c.field] ?? c.field}</span>
+                    <span className="truncate">
+                      {c.from || "∅"} → {c.to || "∅"}
+                    </span>
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useQuery, getFlows, deleteFlow } from "wasp/client/operations";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../../shared/components/ui/dialog";
+import { Workflow, Loader2, Trash2, AlertCircle, ChevronDown, ChevronRight } from "lucide-react";
+
+type FlowsDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+type FlowStep = {
+  id: number;
+  descriptor: string;
+  expectedAction: string;
+  expectedValue?: string;
+};
+
+export function FlowsDialog({ open, onOpenChange }: FlowsDialogProps) {
+  const { data: flows, isLoading, refetch } = useQuery(getFlows, undefined, { enabled: open });
+
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDelete = async (id: string, name: string) => {
+    if (!confirm(`Delete flow "${name}" and the selectors learned inside it?`)) return;
+    setDeleting(id);
+    setError(null);
+    try {
+      await deleteFlow({ id });
+      await refetch();
+    } catch (err: any) {
+      setError(err.message || "Failed to delete flow");
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] p-0 overflow-hidden">
+        <div className="h-1 bg-gradient-to-r from-blue-600 via-purple-600 to-indigo-600" />
+
+        <div className="px-6 pt-6 pb-6 space-y-5">
+          <DialogHeader>
+            <div className="flex items-center gap-3">
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-gradient-to-br from-blue-600 to-purple-600 text-white shadow-md">
+                <Workflow className="h-5 w-5" />
+              </div>
+              <div>
+                <DialogTitle className="text-xl">Flows</DialogTitle>
+                <DialogDescription className="text-sm">
+                  Reusable step sequences. Save a suite&apos;s plan as a flow from its plan editor, then
+                  include it in any other plan with a <code className="text-gray-900">flow</code> step.
+                  Healed selectors are shared by every suite using the flow.
+                </DialogDescription>
+              </div>
+            </div>
+          </DialogHeader>
+
+          <div className="rounded-lg border divide-y max-h-[320px] overflow-y-auto">
+            {isLoading ? (
+              <div className="flex items-center gap-2 p-4 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading...
+              </div>
+            ) : flows && flows.length > 0 ? (
+              flows.map((flow) => {
+                const steps = (flow.steps as unknown as FlowStep[]) ?? [];
+                const isExpanded = expanded === flow.id;
+                return (
+                  <div key={flow.id} className="text-sm">
+                    <div className="flex items-center gap-3 px-4 py-2.5">
+                      <button
+                        type="button"
+                        onClick={() => setExpanded(isExpanded ? null : flow.id)}
+                        className="flex items-center gap-2 flex-1 min-w-0 text-left"
+                      >
+                        {isExpanded ? (
+                          <ChevronDown className="h-3.5 w-3.5 text-gray-400 flex-none" />
+                        ) : (
+                          <ChevronRight className="h-3.5 w-3.5 text-gray-400 flex-none" />
+                        )}
+                        <span className="font-medium text-gray-900 truncate">{flow.name}</span>
+                        <span className="text-xs text-muted-foreground flex-none">
+                          {steps.length} step{steps.length === 1 ? "" : "s"}
+                        </span>
+                      </button>
+                      <span className="text-xs text-muted-foreground">
+                        updated {new Date(flow.updatedAt).toLocaleDateString()}
+                      </span>
+                      <button
+                        type="button"
+                        title="Delete flow"
+                        onClick={() => handleDelete(flow.id, flow.name)}
+                        disabled={deleting === flow.id}
+                        className="text-red-400 hover:text-red-600 disabled:opacity-40"
+                      >
+                        {deleting === flow.id ? (
+                          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                        ) : (
+                          <Trash2 className="h-3.5 w-3.5" />
+                        )}
+                      </button>
+                    </div>
+                    {isExpanded && (
+                      <ol className="px-10 pb-3 space-y-1 text-xs text-gray-600">
+                        {flow.description && <p className="italic text-muted-foreground">{flow.description}</p>}
+                        {steps.map((step) => (
+                          <li key={step.id} className="flex gap-2">
+                            <span className="font-mono text-gray-400 w-5 flex-none">{step.id}.</span>
+                            <span className="font-mono uppercase text-[10px] text-purple-600 w-14 flex-none">
+                              {step.expectedAction}
+                            </span>
+                            <span className="truncate">{step.descriptor}</span>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                  </div>
+                );
+              })
+            ) : (
+              <p className="p-4 text-sm text-muted-foreground">
+                No flows yet. Open a suite with an approved plan and use &quot;Save as flow&quot;.
+              </p>
+            )}
+          </div>
+
+          {error && (
+            <div className="flex items-start gap-2 rounded-md bg-red-50 p-3 text-sm text-red-800 border border-red-200">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-none" />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
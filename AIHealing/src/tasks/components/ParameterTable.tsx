@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { type TestIteration } from "wasp/entities";
+import { saveTestParameters } from "wasp/client/operations";
+import { Button } from "../../shared/components/ui/button";
+import { Badge } from "../../shared/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "../../shared/components/ui/card";
+import { Textarea } from "../../shared/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../shared/components/ui/select";
+import { Table as TableIcon, Loader2, Pencil, CheckCircle2, X } from "lucide-react";
+import { cn } from "../../lib/utils";
+
+type ParameterRow = Record<string, string>;
+type ParameterFormat = "csv" | "json";
+
+const FORMAT_PLACEHOLDERS: Record<ParameterFormat, string> = {
+  csv: "term,minPrice\nheadphones,20\n\"usb-c cable\",5",
+  json: '[\n  { "term": "headphones", "minPrice": "20" },\n  { "term": "usb-c cable", "minPrice": "5" }\n]',
+};
+
+const ITERATION_STATUS_STYLES: Record<string, string> = {
+  PASSED: "bg-green-500/15 border-green-400/40 text-green-200",
+  FAILED: "bg-red-500/15 border-red-400/40 text-red-200",
+  STOPPED: "bg-gray-500/15 border-gray-400/40 text-gray-300",
+};
+
+interface ParameterTableProps {
+  testSuiteId: string;
+  parameters: unknown; // TestSuite.parameters (Json)
+  iterations: TestIteration[] | undefined;
+  disabled: boolean; // true while the suite is running
+  onSaved: () => void;
+}
+
+export function ParameterTable({
+  testSuiteId,
+  parameters,
+  iterations,
+  disabled,
+  onSaved,
+}: ParameterTableProps) {
+  const rows = (Array.isArray(parameters) ? parameters : []) as ParameterRow[];
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const resultsByIndex = new Map((iterations ?? []).map((it) => [it.index, it]));
+
+  const [editing, setEditing] = useState(false);
+  const [format, setFormat] = useState<ParameterFormat>("json");
+  const [text, setText] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleEdit = () => {
+    setFormat("json");
+    setText(rows.length > 0 ? JSON.stringify(rows, null, 2) : "");
+    setError(null);
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveTestParameters({ testSuiteId, format, data: text });
+      setEditing(false);
+      onSaved();
+    } catch (err: any) {
+      setError(err.message || "Failed to save parameters");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-slate-900/60 border-gray-800 overflow-hidden">
+      <CardHeader className="py-3 px-4 border-b border-gray-800 flex flex-row items-center justify-between space-y-0 gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <TableIcon className="h-4 w-4 text-blue-400 flex-none" />
+          <CardTitle className="text-sm text-white tracking-widest uppercase">Parameters</CardTitle>
+          <span className="text-xs text-gray-500">
+            {rows.length > 0
+              ? `${rows.length} row${rows.length === 1 ? "" : "s"} · one run per row`
+              : "Single run — add rows to run the plan once per data set"}
+          </span>
+        </div>
+
+        <div className="flex items-center gap-2 flex-none">
+          {editing ? (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setEditing(false)}
+                disabled={isSaving}
+                className="h-8 gap-1.5 text-xs text-gray-400 hover:text-gray-200 hover:bg-gray-800"
+              >
+                <X className="h-3.5 w-3.5" />
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleSave}
+                disabled={isSaving || disabled}
+                className="h-8 gap-1.5 text-xs bg-green-600 hover:bg-green-700 text-white"
+              >
+                {isSaving ? (
+                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <CheckCircle2 className="h-3.5 w-3.5" />
+                )}
+                Save
+              </Button>
+            </>
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleEdit}
+              disabled={disabled}
+              className="h-8 gap-1.5 text-xs text-gray-300 hover:text-white hover:bg-gray-800"
+            >
+              <Pencil className="h-3.5 w-3.5" />
+              Edit
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-0 max-h-[320px] overflow-y-auto">
+        {error && (
+          <div className="px-4 py-2 text-xs text-red-300 bg-red-950/40 border-b border-red-900/50">
+            {error}
+          </div>
+        )}
+
+        {editing ? (
+          <div className="p-4 space-y-2">
+            <div className="flex items-center gap-2 text-xs text-gray-400">
+              <span>Format</span>
+              <Select value={format} onValueChange={(v) => setFormat(v as ParameterFormat)}>
+                <SelectTrigger className="h-8 w-24 bg-[#0c0c0c] border-gray-800 text-gray-200 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="json">JSON</SelectItem>
+                  <SelectItem value="csv">CSV</SelectItem>
+                </SelectContent>
+              </Select>
+              <span className="text-gray-500">
+                Reference columns as <code className="text-gray-300">{"{{column}}"}</code> in the goal or step
+                values. Leave empty for a single run.
+              </span>
+            </div>
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={FORMAT_PLACEHOLDERS[format]}
+              rows={8}
+              className="bg-[#0c0c0c] border-gray-800 text-gray-200 placeholder:text-gray-600 text-xs font-mono"
+            />
+          </div>
+        ) : rows.length > 0 ? (
+          <table className="w-full text-xs">
+            <thead className="text-[11px] uppercase tracking-wider text-gray-500">
+              <tr className="border-b border-gray-800">
+                <th className="px-4 py-2 text-left font-medium w-10">#</th>
+                {columns.map((col) => (
+                  <th key={col} className="px-4 py-2 text-left font-medium font-mono normal-case">
+                    {col}
+                  </th>
+                ))}
+                <th className="px-4 py-2 text-left font-medium">Last run</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-800">
+              {rows.map((row, i) => {
+                const result = resultsByIndex.get(i + 1);
+                return (
+                  <tr key={i} className="text-gray-200">
+                    <td className="px-4 py-2 font-mono text-gray-500">{i + 1}</td>
+                    {columns.map((col) => (
+                      <td key={col} className="px-4 py-2 font-mono truncate max-w-[200px]" title={row[col]}>
+                        {row[col] ?? ""}
+                      </td>
+                    ))}
+                    <td className="px-4 py-2">
+                      {result ? (
+                        <div className="flex items-center gap-2">
+                          <Badge
+                            variant="outline"
+                            className={cn(
+                              "font-mono text-[10px] uppercase tracking-wider",
+                              ITERATION_STATUS_STYLES[result.status]
+                            )}
+                          >
+                            {result.status}
+                          </Badge>
+                          <span className="text-gray-500 tabular-nums">
+                            {result.successSteps}/{result.totalSteps} steps
+                            {result.healedSteps > 0 && ` · ${result.healedSteps} healed`}
+                            {result.suspiciousSteps > 0 && ` · ${result.suspiciousSteps} suspicious`}
+                          </span>
+                          {result.errorMessage && (
+                            <span className="text-red-300/80 truncate max-w-[220px]" title={result.errorMessage}>
+                              {result.errorMessage}
+                            </span>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-gray-600">—</span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        ) : (
+          <p className="px-4 py-4 text-xs text-gray-500">
+            No parameter rows. Paste a CSV or JSON table to run the same plan with different search terms,
+            credentials or form data.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
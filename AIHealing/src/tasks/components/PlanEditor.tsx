@@ -0,0 +1,701 @@
+import { Fragment, useState } from "react";
+import { type TestPlan } from "wasp/entities";
+import { useQuery, draftTestPlan, saveTestPlan, getFlows, saveFlow } from "wasp/client/operations";
+import { Button } from "../../shared/components/ui/button";
+import { Badge } from "../../shared/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "../../shared/components/ui/card";
+import { Input } from "../../shared/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../../shared/components/ui/select";
+import {
+  ListOrdered,
+  Loader2,
+  Wand2,
+  Pencil,
+  ArrowUp,
+  ArrowDown,
+  Trash2,
+  Plus,
+  CheckCircle2,
+  X,
+  Globe,
+  Workflow,
+} from "lucide-react";
+import { cn } from "../../lib/utils";
+
+// Mirrors PLAN_ACTIONS in agent/planner.ts (server-only module)
+const PLAN_ACTIONS = [
+  "click",
+  "type",
+  "select",
+  "wait",
+  "navigate",
+  "verify",
+  "hover",
+  "dblclick",
+  "rightclick",
+  "press",
+  "scroll",
+  "drag",
+  "check",
+  "uncheck",
+  "clear",
+  "focus",
+  "upload",
+  "flow",
+] as const;
+type PlanAction = (typeof PLAN_ACTIONS)[number];
+
+// Actions whose step is meaningless without a value
+const VALUE_REQUIRED: PlanAction[] = ["type", "select", "navigate", "press", "drag", "upload", "flow"];
+
+// Value hints for actions whose value has a special format
+const VALUE_HINTS: Partial<Record<PlanAction, string>> = {
+  press: "Key, e.g. Control+A",
+  drag: "Drop target or dx,dy",
+  upload: "Fixture file, e.g. cv.pdf",
+};
+
+// Mirrors ASSERTION_TYPES / VALUE_ASSERTIONS in agent/assertions.ts
+const ASSERTION_LABELS = {
+  textIncludes: "page text includes",
+  urlMatches: "URL matches",
+  titleMatches: "title matches",
+  visible: "element visible",
+  hidden: "element hidden",
+  absent: "element absent",
+  checked: "element checked",
+  unchecked: "element unchecked",
+  disabled: "element disabled",
+  enabled: "element enabled",
+  valueEquals: "input value equals",
+  attributeEquals: "attribute equals",
+  textMatches: "element text matches",
+  count: "element count",
+} as const;
+type AssertionType = keyof typeof ASSERTION_LABELS;
+const VALUE_ASSERTIONS: AssertionType[] = [
+  "textIncludes",
+  "urlMatches",
+  "titleMatches",
+  "valueEquals",
+  "attributeEquals",
+  "textMatches",
+  "count",
+];
+const ASSERTION_HINTS: Partial<Record<AssertionType, string>> = {
+  urlMatches: "/checkout or /regex/",
+  titleMatches: "Order placed or /regex/",
+  textMatches: "Total: or /regex/",
+  count: "3 or >=1",
+};
+
+// Mirrors CONDITION_TYPES in agent/planner.ts
+const CONDITION_LABELS = {
+  urlContains: "URL contains",
+  textVisible: "Text visible",
+} as const;
+type ConditionType = keyof typeof CONDITION_LABELS;
+
+type PlanStepDraft = {
+  key: number; // local React key — ids are re-assigned on save
+  descriptor: string;
+  expectedAction: PlanAction;
+  expectedValue: string;
+  optional: boolean;
+  conditionType: ConditionType | "always";
+  conditionValue: string;
+  assertionType: AssertionType;
+  assertionAttribute: string;
+};
+
+type StoredPlanStep = {
+  id: number;
+  descriptor: string;
+  expectedAction: PlanAction;
+  expectedValue?: string;
+  phase?: number;
+  optional?: boolean;
+  condition?: { type: ConditionType; value: string };
+  assertion?: { type: AssertionType; attribute?: string };
+};
+
+type StoredPlanPhase = { index: number; url: string; startStep: number };
+
+let nextKey = 1;
+
+const toDrafts = (steps: StoredPlanStep[]): PlanStepDraft[] =>
+  steps.map((s) => ({
+    key: nextKey++,
+    descriptor: s.descriptor,
+    expectedAction: s.expectedAction,
+    expectedValue: s.expectedValue ?? "",
+    optional: s.optional ?? false,
+    conditionType: s.condition?.type ?? "always",
+    conditionValue: s.condition?.value ?? "",
+    assertionType: s.assertion?.type ?? "textIncludes",
+    assertionAttribute: s.assertion?.attribute ?? "",
+  }));
+
+const valueRequired = (s: PlanStepDraft) =>
+  VALUE_REQUIRED.includes(s.expectedAction) ||
+  (s.expectedAction === "verify" && VALUE_ASSERTIONS.includes(s.assertionType));
+
+const draftAssertion = (s: PlanStepDraft) =>
+  s.expectedAction === "verify"
+    ? {
+        type: s.assertionType,
+        attribute: s.assertionType === "attributeEquals" ? s.assertionAttribute : undefined,
+      }
+    : undefined;
+
+interface PlanEditorProps {
+  testSuiteId: string;
+  plan: TestPlan | null | undefined;
+  goal: string;
+  disabled: boolean; // true while the suite is running
+  onSaved: () => void;
+}
+
+export function PlanEditor({ testSuiteId, plan, goal, disabled, onSaved }: PlanEditorProps) {
+  const [draft, setDraft] = useState<PlanStepDraft[] | null>(null);
+  const [draftMeta, setDraftMeta] = useState<{
+    reasoning: string;
+    model: string;
+    complete: boolean;
+  } | null>(null);
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSavingFlow, setIsSavingFlow] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { data: flows, refetch: refetchFlows } = useQuery(getFlows);
+
+  const storedSteps = ((plan?.steps as unknown as StoredPlanStep[]) ?? []).slice();
+  const storedPhases = (plan?.phases as unknown as StoredPlanPhase[] | null) ?? [];
+  const phaseStarts = new Map(storedPhases.map((ph) => [ph.startStep, ph]));
+  const isEditing = draft !== null;
+
+  const handleDraft = async () => {
+    setIsDrafting(true);
+    setError(null);
+    try {
+      const result = await draftTestPlan({ testSuiteId });
+      setDraft(toDrafts(result.steps as StoredPlanStep[]));
+      setDraftMeta({
+        reasoning: result.reasoning,
+        model: result.model,
+        complete: result.complete ?? true,
+      });
+    } catch (err: any) {
+      setError(err.message || "Failed to draft a plan");
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  const handleEdit = () => {
+    setDraft(toDrafts(storedSteps));
+    setDraftMeta(
+      plan ? { reasoning: plan.reasoning ?? "", model: plan.model, complete: plan.complete } : null
+    );
+    setError(null);
+  };
+
+  const handleDiscard = () => {
+    setDraft(null);
+    setDraftMeta(null);
+    setError(null);
+  };
+
+  const handleApprove = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveTestPlan({
+        testSuiteId,
+        steps: draft.map((s) => ({
+          descriptor: s.descriptor,
+          expectedAction: s.expectedAction,
+          expectedValue: s.expectedValue || undefined,
+          optional: s.optional || undefined,
+          condition:
+            s.conditionType !== "always"
+              ? { type: s.conditionType, value: s.conditionValue }
+              : undefined,
+          assertion: draftAssertion(s),
+        })),
+        reasoning: draftMeta?.reasoning,
+        model: draftMeta?.model,
+        complete: draftMeta?.complete ?? true,
+      });
+      setDraft(null);
+      setDraftMeta(null);
+      onSaved();
+    } catch (err: any) {
+      setError(err.message || "Failed to save the plan");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Store the current plan as a reusable sub-flow other suites can include
+  const handleSaveAsFlow = async () => {
+    const name = window.prompt("Flow name (saving an existing name replaces it)", "")?.trim();
+    if (!name) return;
+    setIsSavingFlow(true);
+    setError(null);
+    try {
+      await saveFlow({
+        name,
+        description: goal,
+        steps: storedSteps.map((s) => ({
+          descriptor: s.descriptor,
+          expectedAction: s.expectedAction,
+          expectedValue: s.expectedValue,
+          optional: s.optional,
+          condition: s.condition,
+          assertion: s.assertion,
+        })),
+      });
+      await refetchFlows();
+    } catch (err: any) {
+      setError(err.message || "Failed to save the flow");
+    } finally {
+      setIsSavingFlow(false);
+    }
+  };
+
+  const updateStep = (key: number, patch: Partial<PlanStepDraft>) =>
+    setDraft((d) => d && d.map((s) => (s.key === key ? { ...s, ...patch } : s)));
+
+  const moveStep = (index: number, delta: -1 | 1) =>
+    setDraft((d) => {
+      if (!d) return d;
+      const target = index + delta;
+      if (target < 0 || target >= d.length) return d;
+      const next = d.slice();
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+
+  const removeStep = (key: number) => setDraft((d) => d && d.filter((s) => s.key !== key));
+
+  const addStep = () =>
+    setDraft((d) => [
+      ...(d ?? []),
+      {
+        key: nextKey++,
+        descriptor: "",
+        expectedAction: "click",
+        expectedValue: "",
+        optional: false,
+        conditionType: "always",
+        conditionValue: "",
+        assertionType: "textIncludes",
+        assertionAttribute: "",
+      },
+    ]);
+
+  const draftValid =
+    !!draft &&
+    draft.length > 0 &&
+    draft.every(
+      (s) =>
+        s.descriptor.trim().length > 0 &&
+        (!valueRequired(s) || s.expectedValue.trim().length > 0) &&
+        (s.conditionType === "always" || s.conditionValue.trim().length > 0) &&
+        (draftAssertion(s)?.type !== "attributeEquals" || s.assertionAttribute.trim().length > 0)
+    );
+
+  return (
+    <Card className="bg-slate-900/60 border-gray-800 overflow-hidden">
+      <CardHeader className="py-3 px-4 border-b border-gray-800 flex flex-row items-center justify-between space-y-0 gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <ListOrdered className="h-4 w-4 text-blue-400 flex-none" />
+          <CardTitle className="text-sm text-white tracking-widest uppercase">Test Plan</CardTitle>
+          {plan && !isEditing && (
+            <Badge
+              variant="outline"
+              className="bg-blue-500/15 border-blue-400/40 text-blue-200 font-mono text-[10px] uppercase tracking-wider"
+            >
+              v{plan.version} · {plan.source === "EDITED" ? "edited" : plan.model}
+            </Badge>
+          )}
+          {plan && !isEditing && plan.goal !== goal && (
+            <span className="text-[11px] text-amber-300">Goal changed — next run will re-plan</span>
+          )}
+          {isEditing && (
+            <Badge
+              variant="outline"
+              className="bg-amber-500/15 border-amber-400/40 text-amber-200 font-mono text-[10px] uppercase tracking-wider"
+            >
+              Unsaved draft
+            </Badge>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2 flex-none">
+          {isEditing ? (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleDiscard}
+                disabled={isSaving}
+                className="h-8 gap-1.5 text-xs text-gray-400 hover:text-gray-200 hover:bg-gray-800"
+              >
+                <X className="h-3.5 w-3.5" />
+                Discard
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleApprove}
+                disabled={!draftValid || isSaving || disabled}
+                className="h-8 gap-1.5 text-xs bg-green-600 hover:bg-green-700 text-white"
+              >
+                {isSaving ? (
+                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <CheckCircle2 className="h-3.5 w-3.5" />
+                )}
+                Approve plan
+              </Button>
+            </>
+          ) : (
+            <>
+              {plan && storedSteps.length > 0 && !storedSteps.some((s) => s.expectedAction === "flow") && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleSaveAsFlow}
+                  disabled={isSavingFlow}
+                  className="h-8 gap-1.5 text-xs text-gray-300 hover:text-white hover:bg-gray-800"
+                >
+                  {isSavingFlow ? (
+                    <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                  ) : (
+                    <Workflow className="h-3.5 w-3.5" />
+                  )}
+                  Save as flow
+                </Button>
+              )}
+              {plan && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleEdit}
+                  disabled={disabled}
+                  className="h-8 gap-1.5 text-xs text-gray-300 hover:text-white hover:bg-gray-800"
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                  Edit
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleDraft}
+                disabled={disabled || isDrafting}
+                className="h-8 gap-1.5 text-xs text-gray-300 hover:text-white hover:bg-gray-800"
+              >
+                {isDrafting ? (
+                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <Wand2 className="h-3.5 w-3.5" />
+                )}
+                {isDrafting ? "Planning..." : "Plan only"}
+              </Button>
+            </>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-0 max-h-[360px] overflow-y-auto">
+        {error && (
+          <div className="px-4 py-2 text-xs text-red-300 bg-red-950/40 border-b border-red-900/50">
+            {error}
+          </div>
+        )}
+
+        {isEditing ? (
+          <div className="divide-y divide-gray-800">
+            {draftMeta?.reasoning && (
+              <p className="px-4 py-2 text-xs text-gray-400 italic">{draftMeta.reasoning}</p>
+            )}
+            {draftMeta && !draftMeta.complete && <IncompleteNotice />}
+            {draft.map((step, i) => (
+              <div key={step.key} className="px-4 py-2 space-y-1.5">
+                <div className="flex items-center gap-2">
+                  <span className="text-[11px] font-mono text-gray-500 w-6 flex-none">{i + 1}.</span>
+                  <Select
+                    value={step.expectedAction}
+                    onValueChange={(v) => updateStep(step.key, { expectedAction: v as PlanAction })}
+                  >
+                    <SelectTrigger className="h-8 w-28 flex-none bg-[#0c0c0c] border-gray-800 text-gray-200 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PLAN_ACTIONS.map((a) => (
+                        <SelectItem key={a} value={a}>
+                          {a}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder="Describe the user intent, e.g. Click the Search button"
+                    value={step.descriptor}
+                    onChange={(e) => updateStep(step.key, { descriptor: e.target.value })}
+                    className="h-8 flex-1 bg-[#0c0c0c] border-gray-800 text-gray-200 placeholder:text-gray-600 text-xs"
+                  />
+                  {step.expectedAction === "flow" ? (
+                    <Select
+                      value={step.expectedValue || undefined}
+                      onValueChange={(v) => updateStep(step.key, { expectedValue: v })}
+                    >
+                      <SelectTrigger
+                        className={cn(
+                          "h-8 w-40 flex-none bg-[#0c0c0c] border-gray-800 text-gray-200 text-xs font-mono",
+                          !step.expectedValue.trim() && "border-amber-500/60"
+                        )}
+                      >
+                        <SelectValue placeholder={flows?.length ? "Pick a flow" : "No flows saved"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(flows ?? []).map((f) => (
+                          <SelectItem key={f.id} value={f.name}>
+                            {f.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Input
+                      placeholder={
+                        (step.expectedAction === "verify" ? ASSERTION_HINTS[step.assertionType] : undefined) ??
+                        VALUE_HINTS[step.expectedAction] ??
+                        (valueRequired(step) ? "Value (required)" : "Value")
+                      }
+                      value={step.expectedValue}
+                      onChange={(e) => updateStep(step.key, { expectedValue: e.target.value })}
+                      className={cn(
+                        "h-8 w-40 flex-none bg-[#0c0c0c] border-gray-800 text-gray-200 placeholder:text-gray-600 text-xs font-mono",
+                        valueRequired(step) && !step.expectedValue.trim() && "border-amber-500/60"
+                      )}
+                    />
+                  )}
+                  <div className="flex items-center flex-none">
+                    <IconButton label="Move up" onClick={() => moveStep(i, -1)} disabled={i === 0}>
+                      <ArrowUp className="h-3.5 w-3.5" />
+                    </IconButton>
+                    <IconButton label="Move down" onClick={() => moveStep(i, 1)} disabled={i === draft.length - 1}>
+                      <ArrowDown className="h-3.5 w-3.5" />
+                    </IconButton>
+                    <IconButton label="Delete step" onClick={() => removeStep(step.key)}>
+                      <Trash2 className="h-3.5 w-3.5 text-red-400" />
+                    </IconButton>
+                  </div>
+                </div>
+                <div className="pl-8 flex items-center gap-2 text-[11px] text-gray-400">
+                  <label className="flex items-center gap-1.5 cursor-pointer select-none">
+                    <input
+                      type="checkbox"
+                      checked={step.optional}
+                      onChange={(e) => updateStep(step.key, { optional: e.target.checked })}
+                      className="h-3 w-3 accent-blue-500"
+                    />
+                    Optional
+                  </label>
+                  <span className="text-gray-600">·</span>
+                  <span>Run</span>
+                  <Select
+                    value={step.conditionType}
+                    onValueChange={(v) =>
+                      updateStep(step.key, { conditionType: v as PlanStepDraft["conditionType"] })
+                    }
+                  >
+                    <SelectTrigger className="h-7 w-40 flex-none bg-[#0c0c0c] border-gray-800 text-gray-300 text-[11px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="always">always</SelectItem>
+                      {(Object.keys(CONDITION_LABELS) as ConditionType[]).map((c) => (
+                        <SelectItem key={c} value={c}>
+                          only if {CONDITION_LABELS[c].toLowerCase()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {step.conditionType !== "always" && (
+                    <Input
+                      placeholder={step.conditionType === "urlContains" ? "/login" : "We use cookies"}
+                      value={step.conditionValue}
+                      onChange={(e) => updateStep(step.key, { conditionValue: e.target.value })}
+                      className={cn(
+                        "h-7 w-48 bg-[#0c0c0c] border-gray-800 text-gray-200 placeholder:text-gray-600 text-[11px] font-mono",
+                        !step.conditionValue.trim() && "border-amber-500/60"
+                      )}
+                    />
+                  )}
+                  {step.expectedAction === "verify" && (
+                    <>
+                      <span className="text-gray-600">·</span>
+                      <span>Check</span>
+                      <Select
+                        value={step.assertionType}
+                        onValueChange={(v) => updateStep(step.key, { assertionType: v as AssertionType })}
+                      >
+                        <SelectTrigger className="h-7 w-44 flex-none bg-[#0c0c0c] border-gray-800 text-gray-300 text-[11px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(ASSERTION_LABELS) as AssertionType[]).map((a) => (
+                            <SelectItem key={a} value={a}>
+                              {ASSERTION_LABELS[a]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {step.assertionType === "attributeEquals" && (
+                        <Input
+                          placeholder="aria-expanded"
+                          value={step.assertionAttribute}
+                          onChange={(e) => updateStep(step.key, { assertionAttribute: e.target.value })}
+                          className={cn(
+                            "h-7 w-36 bg-[#0c0c0c] border-gray-800 text-gray-200 placeholder:text-gray-600 text-[11px] font-mono",
+                            !step.assertionAttribute.trim() && "border-amber-500/60"
+                          )}
+                        />
+                      )}
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+            <div className="px-4 py-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={addStep}
+                className="h-8 gap-1.5 text-xs text-blue-300 hover:text-blue-200 hover:bg-blue-950/30"
+              >
+                <Plus className="h-3.5 w-3.5" />
+                Add step
+              </Button>
+            </div>
+          </div>
+        ) : storedSteps.length > 0 ? (
+          <>
+            {plan && !plan.complete && <IncompleteNotice />}
+            <ol className="divide-y divide-gray-800">
+              {storedSteps.map((step) => (
+                <Fragment key={step.id}>
+                  {phaseStarts.has(step.id) && storedPhases.length > 1 && (
+                    <PhaseHeader phase={phaseStarts.get(step.id)!} />
+                  )}
+                  <li className="px-4 py-2 flex items-center gap-3 text-xs">
+                    <span className="font-mono text-gray-500 w-6 flex-none">{step.id}.</span>
+                    <span className="font-mono uppercase text-[10px] text-purple-300 w-16 flex-none">
+                      {step.expectedAction}
+                    </span>
+                    {step.assertion && (
+                      <span className="text-[10px] text-emerald-300 flex-none">
+                        {ASSERTION_LABELS[step.assertion.type] ?? step.assertion.type}
+                        {step.assertion.attribute && ` ${step.assertion.attribute}`}
+                      </span>
+                    )}
+                    <span className="text-gray-200 flex-1 truncate" title={step.descriptor}>
+                      {step.descriptor}
+                    </span>
+                    {step.expectedValue &&
+                      (step.expectedAction === "flow" ? (
+                        <span className="flex items-center gap-1 text-purple-200 truncate max-w-[200px]">
+                          <Workflow className="h-3 w-3 flex-none" />
+                          {step.expectedValue}
+                        </span>
+                      ) : (
+                        <code className="text-gray-400 truncate max-w-[200px]">{step.expectedValue}</code>
+                      ))}
+                    {step.condition && (
+                      <span
+                        className="text-[10px] text-sky-300 truncate max-w-[180px]"
+                        title={step.condition.value}
+                      >
+                        if {CONDITION_LABELS[step.condition.type]?.toLowerCase()} &quot;{step.condition.value}&quot;
+                      </span>
+                    )}
+                    {step.optional && (
+                      <span className="text-[10px] uppercase tracking-wider text-gray-500">optional</span>
+                    )}
+                  </li>
+                </Fragment>
+              ))}
+            </ol>
+          </>
+        ) : (
+          <p className="px-4 py-4 text-xs text-gray-500">
+            No plan yet. Use &quot;Plan only&quot; to review the steps before the first run, or just run the
+            agent and it will plan automatically.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PhaseHeader({ phase }: { phase: StoredPlanPhase }) {
+  return (
+    <li className="px-4 py-1.5 flex items-center gap-2 bg-gray-900/60 text-[11px] text-gray-400">
+      <Globe className="h-3 w-3 text-blue-400" />
+      <span className="font-medium text-gray-300">Page {phase.index}</span>
+      <span className="font-mono truncate" title={phase.url}>
+        {phase.url}
+      </span>
+    </li>
+  );
+}
+
+function IncompleteNotice() {
+  return (
+    <p className="px-4 py-2 text-xs text-amber-300/90 bg-amber-950/20 border-b border-gray-800">
+      Only the first page is planned. Steps for later pages are planned during the run as the
+      agent reaches them.
+    </p>
+  );
+}
+
+function IconButton({
+  label,
+  onClick,
+  disabled = false,
+  children,
+}: {
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      title={label}
+      aria-label={label}
+      onClick={onClick}
+      disabled={disabled}
+      className="inline-flex h-7 w-7 items-center justify-center rounded text-gray-400 hover:text-white hover:bg-gray-800 disabled:opacity-30 disabled:pointer-events-none"
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { replayRunArchive } from "wasp/client/operations";
+import { Button } from "../../shared/components/ui/button";
+import { Badge } from "../../shared/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "../../shared/components/ui/card";
+import { History, Loader2, PlayCircle } from "lucide-react";
+import { cn } from "../../lib/utils";
+
+type RunArchiveSummary = {
+  archiveId: string;
+  runId: string;
+  iteration: number | null;
+  goal: string;
+  model: string;
+  createdAt: string;
+  snapshots: number;
+  decisions: number;
+};
+
+type ReplayEntry = {
+  seq: number;
+  kind: string;
+  stepNumber: number | null;
+  snapshot: string;
+  url: string;
+  recorded: string;
+  replayed: string;
+  changed: boolean;
+  error?: string;
+};
+
+type ReplayReport = {
+  archiveId: string;
+  model: string;
+  entries: ReplayEntry[];
+  changedCount: number;
+};
+
+interface ReplayPanelProps {
+  testSuiteId: string;
+  archives: RunArchiveSummary[];
+}
+
+export function ReplayPanel({ testSuiteId, archives }: ReplayPanelProps) {
+  const [replaying, setReplaying] = useState<string | null>(null);
+  const [report, setReport] = useState<ReplayReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReplay = async (archiveId: string) => {
+    setReplaying(archiveId);
+    setError(null);
+    setReport(null);
+    try {
+      setReport(await replayRunArchive({ testSuiteId, archiveId }));
+    } catch (err: any) {
+      setError(err.message || "Replay failed");
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  return (
+    <Card className="bg-slate-900/60 border-gray-800 overflow-hidden">
+      <CardHeader className="py-3 px-4 border-b border-gray-800 flex flex-row items-center justify-between space-y-0 gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <History className="h-4 w-4 text-blue-400 flex-none" />
+          <CardTitle className="text-sm text-white tracking-widest uppercase">Run Archive</CardTitle>
+          <span className="text-xs text-gray-500 truncate">
+            Replay recorded planner / healer decisions offline against the captured pages
+          </span>
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-0 max-h-[420px] overflow-y-auto">
+        {error && (
+          <div className="px-4 py-2 text-xs text-red-300 bg-red-950/40 border-b border-red-900/50">{error}</div>
+        )}
+
+        <div className="divide-y divide-gray-800">
+          {archives.map((archive) => (
+            <div key={archive.archiveId} className="flex items-center gap-3 px-4 py-2 text-xs">
+              <span className="text-gray-300 tabular-nums">{new Date(archive.createdAt).toLocaleString()}</span>
+              {archive.iteration !== null && <span className="text-gray-500">row {archive.iteration}</span>}
+              <span className="text-gray-500">
+                {archive.snapshots} snapshot{archive.snapshots === 1 ? "" : "s"} · {archive.decisions} decision
+                {archive.decisions === 1 ? "" : "s"} · {archive.model}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleReplay(archive.archiveId)}
+                disabled={replaying !== null || archive.decisions === 0}
+                className="ml-auto h-7 gap-1.5 text-xs text-gray-300 hover:text-white hover:bg-gray-800"
+              >
+                {replaying === archive.archiveId ? (
+                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <PlayCircle className="h-3.5 w-3.5" />
+                )}
+                Replay
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {report && (
+          <div className="border-t border-gray-800">
+            <div className="px-4 py-2 text-xs text-gray-400 bg-black/20">
+              Replayed {report.entries.length} decision{report.entries.length === 1 ? "" : "s"} with{" "}
+              <span className="text-gray-200">{report.model}</span> —{" "}
+              <span className={report.changedCount > 0 ? "text-amber-300" : "text-green-300"}>
+                {report.changedCount} changed
+              </span>
+            </div>
+            <div className="divide-y divide-gray-800">
+              {report.entries.map((entry) => (
+                <div key={entry.seq} className="px-4 py-2.5 text-xs">
+                  <div className="flex items-center gap-2">
+                    <Badge
+                      variant="outline"
+                      className={cn(
+                        "font-mono text-[10px] uppercase tracking-wider",
+                        entry.changed
+                          ? "bg-amber-500/15 border-amber-400/40 text-amber-200"
+                          : "bg-green-500/15 border-green-400/40 text-green-200"
+                      )}
+                    >
+                      {entry.changed ? "changed" : "same"}
+                    </Badge>
+                    <span className="font-mono text-gray-400 uppercase">{entry.kind}</span>
+                    {entry.stepNumber !== null && <span className="text-gray-500">step {entry.stepNumber}</span>}
+                    <span className="text-gray-600 truncate" title={entry.url}>
+                      {entry.url}
+                    </span>
+                  </div>
+                  {entry.error ? (
+                    <p className="mt-1.5 text-red-300">{entry.error}</p>
+                  ) : (
+                    entry.changed && (
+                      <div className="mt-1.5 grid grid-cols-1 md:grid-cols-2 gap-2 font-mono">
+                        <pre className="whitespace-pre-wrap break-words text-red-200/80">{entry.recorded}</pre>
+                        <pre className="whitespace-pre-wrap break-words text-green-200">{entry.replayed}</pre>
+                      </div>
+                    )
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { saveRequestRules } from "wasp/client/operations";
+import { Button } from "../../shared/components/ui/button";
+import { Badge } from "../../shared/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "../../shared/components/ui/card";
+import { Textarea } from "../../shared/components/ui/textarea";
+import { Network, Loader2, Pencil, CheckCircle2, X } from "lucide-react";
+import { cn } from "../../lib/utils";
+
+type RequestRuleAction = "stub" | "delay" | "block" | "fail";
+
+interface RequestRule {
+  url: string;
+  method?: string;
+  action: RequestRuleAction;
+  fixture?: string;
+  status?: number;
+  contentType?: string;
+  delayMs?: number;
+}
+
+const RULES_PLACEHOLDER = `[
+  { "url": "*/api/cart*", "method": "GET", "action": "stub", "fixture": "cart-empty.json" },
+  { "url": "*/api/search*", "action": "delay", "delayMs": 3000 },
+  { "url": "*google-analytics.com*", "action": "block" },
+  { "url": "/\\\\/api\\\\/(orders|invoices)/", "action": "fail", "status": 503 }
+]`;
+
+const ACTION_STYLES: Record<RequestRuleAction, string> = {
+  stub: "bg-blue-500/15 border-blue-400/40 text-blue-200",
+  delay: "bg-amber-500/15 border-amber-400/40 text-amber-200",
+  block: "bg-gray-500/15 border-gray-400/40 text-gray-300",
+  fail: "bg-red-500/15 border-red-400/40 text-red-200",
+};
+
+interface RequestRulesPanelProps {
+  testSuiteId: string;
+  rules: unknown; // TestSuite.requestRules (Json)
+  disabled: boolean; // true while the suite is running
+  onSaved: () => void;
+}
+
+export function RequestRulesPanel({ testSuiteId, rules, disabled, onSaved }: RequestRulesPanelProps) {
+  const list = (Array.isArray(rules) ? rules : []) as RequestRule[];
+
+  const [editing, setEditing] = useState(false);
+  const [text, setText] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleEdit = () => {
+    setText(list.length > 0 ? JSON.stringify(list, null, 2) : "");
+    setError(null);
+    setEditing(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveRequestRules({ testSuiteId, data: text });
+      setEditing(false);
+      onSaved();
+    } catch (err: any) {
+      setError(err.message || "Failed to save request rules");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-slate-900/60 border-gray-800 overflow-hidden">
+      <CardHeader className="py-3 px-4 border-b border-gray-800 flex flex-row items-center justify-between space-y-0 gap-3">
+        <div className="flex items-center gap-3 min-w-0">
+          <Network className="h-4 w-4 text-blue-400 flex-none" />
+          <CardTitle className="text-sm text-white tracking-widest uppercase">Request Rules</CardTitle>
+          <span className="text-xs text-gray-500">
+            {list.length > 0
+              ? `${list.length} rule${list.length === 1 ? "" : "s"} · first match wins`
+              : "Live network — add rules to stub, delay, block or fail requests"}
+          </span>
+        </div>
+
+        <div className="flex items-center gap-2 flex-none">
+          {editing ? (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setEditing(false)}
+                disabled={isSaving}
+                className="h-8 gap-1.5 text-xs text-gray-400 hover:text-gray-200 hover:bg-gray-800"
+              >
+                <X className="h-3.5 w-3.5" />
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleSave}
+                disabled={isSaving || disabled}
+                className="h-8 gap-1.5 text-xs bg-green-600 hover:bg-green-700 text-white"
+              >
+                {isSaving ? (
+                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <CheckCircle2 className="h-3.5 w-3.5" />
+                )}
+                Save
+              </Button>
+            </>
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleEdit}
+              disabled={disabled}
+              className="h-8 gap-1.5 text-xs text-gray-300 hover:text-white hover:bg-gray-800"
+            >
+              <Pencil className="h-3.5 w-3.5" />
+              Edit
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-0 max-h-[320px] overflow-y-auto">
+        {error && (
+          <div className="px-4 py-2 text-xs text-red-300 bg-red-950/40 border-b border-red-900/50">
+            {error}
+          </div>
+        )}
+
+        {editing ? (
+          <div className="p-4 space-y-2">
+            <p className="text-xs text-gray-500">
+              JSON array, checked in order. <code className="text-gray-300">url</code> is a glob over the full URL
+              (<code className="text-gray-300">*</code> = anything) or <code className="text-gray-300">/regex/</code>.
+              Stub bodies are files in the fixture directory. Leave empty to use the live network.
+            </p>
+            <Textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={RULES_PLACEHOLDER}
+              rows={8}
+              className="bg-[#0c0c0c] border-gray-800 text-gray-200 placeholder:text-gray-600 text-xs font-mono"
+            />
+          </div>
+        ) : list.length > 0 ? (
+          <table className="w-full text-xs">
+            <thead className="text-[11px] uppercase tracking-wider text-gray-500">
+              <tr className="border-b border-gray-800">
+                <th className="px-4 py-2 text-left font-medium w-10">#</th>
+                <th className="px-4 py-2 text-left font-medium">Action</th>
+                <th className="px-4 py-2 text-left font-medium">Method</th>
+                <th className="px-4 py-2 text-left font-medium">URL</th>
+                <th className="px-4 py-2 text-left font-medium">Response</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-800">
+              {list.map((rule, i) => (
+                <tr key={i} className="text-gray-200">
+                  <td className="px-4 py-2 font-mono text-gray-500">{i + 1}</td>
+                  <td className="px-4 py-2">
+                    <Badge
+                      variant="outline"
+                      className={cn("font-mono text-[10px] uppercase tracking-wider", ACTION_STYLES[rule.action])}
+                    >
+                      {rule.action}
+                    </Badge>
+                  </td>
+                  <td className="px-4 py-2 font-mono text-gray-400">{rule.method ?? "any"}</td>
+                  <td className="px-4 py-2 font-mono truncate max-w-[320px]" title={rule.url}>
+                    {rule.url}
+                  </td>
+                  <td className="px-4 py-2 font-mono text-gray-400">{describeResponse(rule)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="px-4 py-4 text-xs text-gray-500">
+            No request rules. Stub flaky APIs with fixture files, add latency, block third-party trackers or
+            force error statuses to test error screens.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function describeResponse(rule: RequestRule): string {
+  switch (rule.action) {
+    case "stub":
+      return `${rule.status ?? 200} · ${rule.fixture}`;
+    case "fail":
+      return `${rule.status ?? 500}${rule.fixture ? ` · ${rule.fixture}` : ""}`;
+    case "delay":
+      return `+${rule.delayMs}ms`;
+    case "block":
+      return "aborted";
+  }
+}
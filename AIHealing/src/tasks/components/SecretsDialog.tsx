@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useQuery, getSecrets, saveSecret, deleteSecret } from "wasp/client/operations";
+import { Button } from "../../shared/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "../../shared/components/ui/dialog";
+import { Input } from "../../shared/components/ui/input";
+import { Label } from "../../shared/components/ui/label";
+import { KeyRound, Loader2, Plus, Trash2, AlertCircle, Copy } from "lucide-react";
+
+type SecretsDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+export function SecretsDialog({ open, onOpenChange }: SecretsDialogProps) {
+  const { data: secrets, isLoading, refetch } = useQuery(getSecrets, undefined, { enabled: open });
+
+  const [name, setName] = useState("");
+  const [value, setValue] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [deleting, setDeleting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    try {
+      await saveSecret({ name: name.trim(), value });
+      setName("");
+      setValue("");
+      await refetch();
+    } catch (err: any) {
+      setError(err.message || "Failed to save secret");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (secretName: string) => {
+    if (!confirm(`Delete secret "${secretName}"? Suites that reference it will fail to start.`)) return;
+    setDeleting(secretName);
+    setError(null);
+    try {
+      await deleteSecret({ name: secretName });
+      await refetch();
+    } catch (err: any) {
+      setError(err.message || "Failed to delete secret");
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] p-0 overflow-hidden">
+        <div className="h-1 bg-gradient-to-r from-blue-600 via-purple-600 to-indigo-600" />
+
+        <div className="px-6 pt-6 pb-6 space-y-5">
+          <DialogHeader>
+            <div className="flex items-center gap-3">
+              <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-gradient-to-br from-blue-600 to-purple-600 text-white shadow-md">
+                <KeyRound className="h-5 w-5" />
+              </div>
+              <div>
+                <DialogTitle className="text-xl">Secrets</DialogTitle>
+                <DialogDescription className="text-sm">
+                  Reference as <code className="text-gray-900">{"{{secret.NAME}}"}</code> in a goal. The AI only
+                  ever sees the placeholder; values are encrypted and masked in logs and scripts.
+                </DialogDescription>
+              </div>
+            </div>
+          </DialogHeader>
+
+          <div className="rounded-lg border divide-y max-h-[240px] overflow-y-auto">
+            {isLoading ? (
+              <div className="flex items-center gap-2 p-4 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading...
+              </div>
+            ) : secrets && secrets.length > 0 ? (
+              secrets.map((secret) => (
+                <div key={secret.name} className="flex items-center gap-3 px-4 py-2.5 text-sm">
+                  <code className="font-mono text-gray-900 flex-1 truncate">{`{{secret.${secret.name}}}`}</code>
+                  <span className="text-xs text-muted-foreground">
+                    updated {new Date(secret.updatedAt).toLocaleDateString()}
+                  </span>
+                  <button
+                    type="button"
+                    title="Copy placeholder"
+                    onClick={() => navigator.clipboard?.writeText(`{{secret.${secret.name}}}`)}
+                    className="text-gray-400 hover:text-gray-700"
+                  >
+                    <Copy className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    type="button"
+                    title="Delete secret"
+                    onClick={() => handleDelete(secret.name)}
+                    disabled={deleting === secret.name}
+                    className="text-red-400 hover:text-red-600 disabled:opacity-40"
+                  >
+                    {deleting === secret.name ? (
+                      <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-3.5 w-3.5" />
+                    )}
+                  </button>
+                </div>
+              ))
+            ) : (
+              <p className="p-4 text-sm text-muted-foreground">No secrets yet.</p>
+            )}
+          </div>
+
+          <form onSubmit={handleSave} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+            <div className="grid gap-1.5">
+              <Label htmlFor="secretName">Name</Label>
+              <Input
+                id="secretName"
+                placeholder="TEST_PASSWORD"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="font-mono"
+              />
+            </div>
+            <div className="grid gap-1.5">
+              <Label htmlFor="secretValue">Value</Label>
+              <Input
+                id="secretValue"
+                type="password"
+                autoComplete="new-password"
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+              />
+            </div>
+            <Button type="submit" disabled={isSaving || !name.trim() || !value} className="gap-2">
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              Save
+            </Button>
+          </form>
+          <p className="text-xs text-muted-foreground -mt-3">
+            Saving an existing name replaces its value.
+          </p>
+
+          {error && (
+            <div className="flex items-start gap-2 rounded-md bg-red-50 p-3 text-sm text-red-800 border border-red-200">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-none" />
+              <span>{error}</span>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,7 +7,13 @@
 import type {
   TestSuite,
   User,
-  ExecutionLog
+  ExecutionLog,
+  TestPlan,
+  PlanRevision,
+  TestIteration,
+  UserSecret,
+  Flow,
+  StepFingerprint
 } from "wasp/entities";
 import type {
   GetTestSuites,
@@ -15,17 +21,83 @@ import type {
   GetExecutionLogs,
   GetTestSuite,
   GetHealingEvents,
+  GetTestPlan,
+  GetPlanRevisions,
+  GetTestIterations,
+  GetSecrets,
+  GetFlows,
+  GetDriftReport,
+  GetRunArchives,
+  GetHealingReviews,
   CreateTestSuite,
   RunTestSuite,
   StopTestSuite,
+  DraftTestPlan,
+  SaveTestPlan,
+  SaveTestParameters,
+  SaveRequestRules,
+  SaveSecret,
+  DeleteSecret,
+  SaveFlow,
+  DeleteFlow,
+  ReplayRunArchive,
+  ApproveHeal,
+  RejectHeal,
 } from "wasp/server/operations";
 import { HttpError } from "wasp/server";
+import { randomUUID } from "crypto";
 import puppeteer from "puppeteer";
 import type { Browser } from "puppeteer";
 // MIGRATED: the Wasp action now uses the Plan-then-Execute agent.
 // The legacy `runAgentLoop` is preserved (commented out) in agent/index.ts.
-import { runPlanExecuteAgent } from "./agent/planExecute";
-import { generateFinalScript } from "./agent/generator";
+import {
+  runPlanExecuteAgent,
+  draftPlan,
+  PLAN_ACTIONS,
+  VALUE_REQUIRED_ACTIONS,
+  CONDITION_TYPES,
+  type PlanResult,
+  type PlanStep,
+  type PlanPhase,
+  type FlowDefinition,
+} from "./agent/planExecute";
+import { DEFAULT_OPTIONS, generateFinalScript } from "./agent/generator";
+import { isValidFixtureName, parseKeyChord, splitFixtureNames } from "./agent/actor";
+import { isLocatorStrategy, LOCATOR_STRATEGIES } from "./agent/locators";
+import { DIALOG_ACTIONS, formatPageEvent, type DialogAction } from "./agent/tabs";
+import { parseRequestRules, type RequestRule } from "./agent/network";
+import { healingTiers, type HealingThresholds } from "./agent/healer";
+import { DEFAULT_REVIEW_THRESHOLD, type HealReview } from "./agent/review";
+import { clearGoldenStates, flowNamespace, saveGoldenState } from "./agent/vectorDB";
+import { generateActionEmbedding } from "./agent/embeddings";
+import { isSupportedModel, SUPPORTED_MODELS, type Action } from "./agent/thinker";
+import { formatAssertionResult, parseAssertion, validateAssertion } from "./agent/assertions";
+import {
+  fillPlaceholders,
+  findPlaceholders,
+  parseParameterTable,
+  type ParameterFormat,
+  type ParameterRow,
+} from "./agent/parameters";
+import {
+  decryptSecret,
+  encryptSecret,
+  findSecretNames,
+  isValidSecretName,
+  maskSecrets,
+  type SecretValues,
+} from "./agent/secrets";
+import { diffFingerprints, hasDrift, type PageDrift, type PageFingerprint } from "./agent/drift";
+import { formatStability } from "./agent/observer";
+import {
+  isValidArchiveId,
+  listRunArchives,
+  openRunArchive,
+  pruneRunArchives,
+  type RunArchiveSummary,
+} from "./agent/archive";
+import { replayRun, type ReplayReport } from "./agent/replay";
+import type { AgentResult } from "./agent/index";
 
 // ============================================================================
 // RUNTIME REGISTRY (module-level, not persisted)
@@ -62,6 +134,64 @@ type CreateTestSuiteInput = {
   model?: string;
   headless?: boolean;
   timeout?: number;
+  maxPlanSteps?: number;
+  promptTokenBudget?: number;
+  readyCheck?: string;
+  locatorStrategies?: string[];
+  dialogPolicy?: string;
+  dialogAnswer?: string;
+  healingThresholds?: HealingThresholds; // tier name → minimum confidence (0-1)
+  reviewThreshold?: number; // heals below this confidence are held for review (0-1)
+};
+
+type RunTestSuiteInput = {
+  testSuiteId: string;
+  // Force the Planner to produce a fresh plan version instead of reusing
+  // the stored one.
+  replan?: boolean;
+};
+
+type ReviewHealInput = {
+  healingEventId: string;
+};
+
+type SaveTestPlanInput = {
+  testSuiteId: string;
+  steps: Omit<PlanStep, "id">[]; // ids are re-assigned from array order
+  reasoning?: string;
+  model?: string; // model of the draft this plan was edited from
+  complete?: boolean; // false → later pages are still planned during the run
+};
+
+type SaveTestParametersInput = {
+  testSuiteId: string;
+  format: ParameterFormat;
+  data: string; // raw CSV / JSON as pasted; empty clears the table
+};
+
+type SaveRequestRulesInput = {
+  testSuiteId: string;
+  data: string; // JSON rule list as pasted; empty clears the rules
+};
+
+type SaveSecretInput = {
+  name: string;
+  value: string;
+};
+
+// Secrets are write-only: the API only ever exposes their names
+type SecretSummary = Pick<UserSecret, "name" | "createdAt" | "updatedAt">;
+
+type ReplayRunArchiveInput = {
+  testSuiteId: string;
+  archiveId: string;
+  model?: string; // Defaults to the suite's model
+};
+
+type SaveFlowInput = {
+  name: string;
+  description?: string;
+  steps: Omit<PlanStep, "id">[]; // ids are re-assigned from array order
 };
 
 type TestSuiteStats = {
@@ -248,6 +378,119 @@ export const getHealingEvents: GetHealingEvents<{ testSuiteId: string }, Healing
   return rows;
 };
 
+/**
+ * Get the low-confidence heals waiting for review, oldest first, with the
+ * old and new element side by side. The old element's crop comes from the
+ * last step that used the old selector (absent for selectors learned before
+ * crops were recorded).
+ */
+type ReviewElement = {
+  selector: string;
+  selectorType: string;
+  tagName: string;
+  text?: string;
+  attributes: Record<string, string>;
+  crop: string | null; // JPEG data URL
+};
+
+type HealingReviewRow = {
+  id: string;
+  stepNumber: number;
+  iteration: number | null;
+  descriptor: string;
+  action: string;
+  confidence: number;
+  strategy: string;
+  timestamp: Date;
+  previous: ReviewElement;
+  next: ReviewElement;
+};
+
+export const getHealingReviews: GetHealingReviews<{ testSuiteId: string }, HealingReviewRow[]> = async (
+  args,
+  context
+) => {
+  if (!context.user) {
+    throw new HttpError(401, "Unauthorized - Please log in");
+  }
+
+  const testSuite = await context.entities.TestSuite.findUnique({
+    where: { id: args.testSuiteId },
+  });
+  if (!testSuite || testSuite.userId !== context.user.id) {
+    throw new HttpError(403, "Forbidden or not found");
+  }
+
+  const events = await context.entities.HealingEvent.findMany({
+    where: { reviewStatus: "PENDING", step: { testSuiteId: testSuite.id } },
+    include: { step: true },
+    orderBy: { timestamp: "asc" },
+  });
+
+  // Crops of the old elements in one query, newest first; each review takes
+  // the latest one taken before its own step
+  const previousSelectors = events
+    .map((ev) => ((ev.metadata as any)?.review as HealReview | undefined)?.previous.selector)
+    .filter((selector): selector is string => !!selector);
+  const previousSteps =
+    previousSelectors.length > 0
+      ? await context.entities.Step.findMany({
+          where: {
+            testSuiteId: testSuite.id,
+            selector: { in: [...new Set(previousSelectors)] },
+            screenshot: { not: null },
+          },
+          select: { selector: true, screenshot: true, executedAt: true },
+          orderBy: { executedAt: "desc" },
+        })
+      : [];
+
+  const rows: HealingReviewRow[] = [];
+  for (const ev of events) {
+    const review = (ev.metadata as any)?.review as HealReview | undefined;
+    if (!review) continue;
+
+    const previousStep = previousSteps.find(
+      (step) => step.selector === review.previous.selector && step.executedAt < ev.step.executedAt
+    );
+    const { metadata } = review.previous;
+    const { element } = review.next;
+
+    rows.push({
+      id: ev.id,
+      stepNumber: ev.step.stepNumber,
+      iteration: ev.step.iteration,
+      descriptor: review.descriptor,
+      action: ev.step.action,
+      confidence: ev.confidence,
+      strategy: ev.strategy,
+      timestamp: ev.timestamp,
+      previous: {
+        selector: review.previous.selector,
+        selectorType: review.previous.selectorType,
+        tagName: metadata.tagName,
+        text: metadata.text,
+        attributes: Object.fromEntries(
+          (["role", "type", "placeholder"] as const)
+            .filter((key) => metadata[key])
+            .map((key) => [key, metadata[key]!])
+        ),
+        crop: previousStep?.screenshot ?? null,
+      },
+      next: {
+        selector: review.next.selector,
+        selectorType: review.next.selectorType,
+        tagName: element.tagName,
+        text: element.text,
+        attributes: element.attributes,
+        crop: ev.step.screenshot,
+      },
+    });
+  }
+
+  return rows;
+};
+
 /**
  * Get execution logs for a specific test suite
  */
@@ -279,6 +522,211 @@ export const getExecutionLogs: GetExecutionLogs<{ testSuiteId: string }, Executi
   return logs;
 };
 
+/**
+ * Get the latest stored plan for a test suite (null if never planned)
+ */
+export const getTestPlan: GetTestPlan<{ testSuiteId: string }, TestPlan | null> = async (
+  args,
+  context
+) => {
+  if (!context.user) {
+    throw new HttpError(401, "Unauthorized - Please log in");
+  }
+
+  const testSuite = await context.entities.TestSuite.findUnique({
+    where: { id: args.testSuiteId },
+  });
+
+  if (!testSuite || testSuite.userId !== context.user.id) {
+    throw new HttpError(403, "Forbidden or not found");
+  }
+
+  return await context.entities.TestPlan.findFirst({
+    where: { testSuiteId: args.testSuiteId },
+    orderBy: { version: "desc" },
+  });
+};
+
+/**
+ * Get the adaptive re-plans recorded for a test suite (newest first)
+ */
+export const getPlanRevisions: GetPlanRevisions<{ testSuiteId: string }, PlanRevision[]> = async (
+  args,
+  context
+) => {
+  if (!context.user) {
+    throw new HttpError(401, "Unauthorized - Please log in");
+  }
+
+  const testSuite = await context.entities.TestSuite.findUnique({
+    where: { id: args.testSuiteId },
+  });
+
+  if (!testSuite || testSuite.userId !== context.user.id) {
+    throw new HttpError(403, "Forbidden or not found");
+  }
+
+  return await context.entities.PlanRevision.findMany({
+    where: { testSuiteId: args.testSuiteId },
+    orderBy: { createdAt: "desc" },
+    take: 20,
+  });
+};
+
+/**
+ * Get per-row results of the latest data-driven run
+ */
+export const getTestIterations: GetTestIterations<{ testSuiteId: string }, TestIteration[]> = async (
+  args,
+  context
+) => {
+  if (!context.user) {
+    throw new HttpError(401, "Unauthorized - Please log in");
+  }
+
+  const testSuite = await context.entities.TestSuite.findUnique({
+    where: { id: args.testSuiteId },
+  });
+
+  if (!testSuite || testSuite.userId !== context.user.id) {
+    throw new HttpError(403, "Forbidden or not found");
+  }
+
+  return await context.entities.TestIteration.findMany({
+    where: { testSuiteId: args.testSuiteId },
+    orderBy: { index: "asc" },
+  });
+};
+
+/**
+ * Diff the page fingerprints of the latest run against the last passing run.
+ *
+ * Steps are paired by (iteration, stepNumber, descriptor); only steps whose
+ * page changed are returned. Null when there is no earlier passing run.
+ */
+type DriftReport = {
+  baselineRunAt: Date;
+  currentRunAt: Date;
+  steps: (PageDrift & {
+    stepNumber: number;
+    iteration: number | null;
+    descriptor: string;
+    baselineUrl: string;
+    url: string;
+  })[];
+};
+
+export const getDriftReport: GetDriftReport<{ testSuiteId: string }, DriftReport | null> = async (
+  args,
+  context
+) => {
+  if (!context.user) {
+    throw new HttpError(401, "Unauthorized - Please log in");
+  }
+
+  const testSuite = await context.entities.TestSuite.findUnique({
+    where: { id: args.testSuiteId },
+  });
+  if (!testSuite || testSuite.userId !== context.user.id) {
+    throw new HttpError(403, "Forbidden or not found");
+  }
+
+  const latest = await context.entities.StepFingerprint.findFirst({
+    where: { testSuiteId: args.testSuiteId },
+    orderBy: { createdAt: "desc" },
+  });
+  if (!latest) return null;
+
+  const baseline = await context.entities.StepFingerprint.findFirst({
+    where: { testSuiteId: args.testSuiteId, runPassed: true, runId: { not: latest.runId } },
+    orderBy: { createdAt: "desc" },
+  });
+  if (!baseline) return null;
+
+  const [currentRows, baselineRows]: StepFingerprint[][] = await Promise.all(
+    [latest.runId, baseline.runId].map((runId) =>
+      context.entities.StepFingerprint.findMany({ where: { runId }, orderBy: { createdAt: "asc" } })
+    )
+  );
+
+  const stepKey = (row: StepFingerprint) => `${row.iteration ?? 0}:${row.stepNumber}:${row.descriptor}`;
+  const baselineByKey = new Map(baselineRows.map((row) => [stepKey(row), row]));
+
+  const steps: DriftReport["steps"] = [];
+  for (const row of currentRows) {
+    const previous = baselineByKey.get(stepKey(row));
+    if (!previous) continue;
+
+    const drift = diffFingerprints(toPageFingerprint(previous), toPageFingerprint(row));
+    if (!hasDrift(drift) && previous.url === row.url) continue;
+
+    steps.push({
+      stepNumber: row.stepNumber,
+      iteration: row.iteration,
+      descriptor: row.descriptor,
+      baselineUrl: previous.url,
+      url: row.url,
+      ...drift,
+    });
+  }
+
+  return {
+    baselineRunAt: baseline.createdAt,
+    currentRunAt: latest.createdAt,
+    steps,
+  };
+};
+
+/**
+ * List the archived runs (snapshots + decisions) that can be replayed offline
+ */
+export const getRunArchives: GetRunArchives<{ testSuiteId: string }, RunArchiveSummary[]> = async (
+  args,
+  context
+) => {
+  if (!context.user) {
+    throw new HttpError(401, "Unauthorized - Please log in");
+  }
+
+  const testSuite = await context.entities.TestSuite.findUnique({
+    where: { id: args.testSuiteId },
+  });
+  if (!testSuite || testSuite.userId !== context.user.id) {
+    throw new HttpError(403, "Forbidden or not found");
+  }
+
+  return await listRunArchives(args.testSuiteId);
+};
+
+/**
+ * List the names of the user's secrets (values are never returned)
+ */
+export const getSecrets: GetSecrets<void, SecretSummary[]> = async (_args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, "Unauthorized - Please log in");
+  }
+
+  return await context.entities.UserSecret.findMany({
+    where: { userId: context.user.id },
+    select: { name: true, createdAt: true, updatedAt: true },
+    orderBy: { name: "asc" },
+  });
+};
+
+/**
+ * List the user's reusable sub-flows
+ */
+export const getFlows: GetFlows<void, Flow[]> = async (_args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, "Unauthorized - Please log in");
+  }
+
+  return await context.entities.Flow.findMany({
+    where: { userId: context.user.id },
+    orderBy: { name: "asc" },
+  });
+};
+
 // ============================================================================
 // ACTIONS (Write Operations)
 // ============================================================================
@@ -310,6 +758,68 @@ export const createTestSuite: CreateTestSuite<CreateTestSuiteInput, TestSuite> =
     throw new HttpError(400, "Invalid URL format");
   }
 
+  if (args.maxPlanSteps !== undefined && (args.maxPlanSteps < 1 || args.maxPlanSteps > 50)) {
+    throw new HttpError(400, "Max plan length must be between 1 and 50 steps");
+  }
+
+  if (
+    args.promptTokenBudget !== undefined &&
+    (args.promptTokenBudget < 500 || args.promptTokenBudget > 20000)
+  ) {
+    throw new HttpError(400, "Prompt token budget must be between 500 and 20000 tokens");
+  }
+
+  if (args.readyCheck && args.readyCheck.length > 500) {
+    throw new HttpError(400, "Ready check must be at most 500 characters");
+  }
+  if (args.readyCheck?.trim()) {
+    try {
+      // Compiled, never run: only the syntax is checked here
+      new Function(`return (${args.readyCheck});`);
+    } catch (err: any) {
+      throw new HttpError(400, `Ready check is not a valid JavaScript expression: ${err.message}`);
+    }
+  }
+
+  const locatorStrategies = args.locatorStrategies ?? [];
+  const unknownLocator = locatorStrategies.find((s) => !isLocatorStrategy(s));
+  if (unknownLocator !== undefined) {
+    throw new HttpError(
+      400,
+      `Unknown locator strategy "${unknownLocator}" (use ${LOCATOR_STRATEGIES.join(", ")})`
+    );
+  }
+  if (new Set(locatorStrategies).size !== locatorStrategies.length) {
+    throw new HttpError(400, "Each locator strategy may appear only once");
+  }
+
+  const dialogPolicy = args.dialogPolicy ?? "accept";
+  if (!DIALOG_ACTIONS.includes(dialogPolicy as DialogAction)) {
+    throw new HttpError(400, `Unknown dialog policy "${dialogPolicy}" (use ${DIALOG_ACTIONS.join(", ")})`);
+  }
+  if (dialogPolicy === "answer" && !args.dialogAnswer) {
+    throw new HttpError(400, "Dialog policy \"answer\" needs the text to answer prompts with");
+  }
+  if (args.dialogAnswer && args.dialogAnswer.length > 500) {
+    throw new HttpError(400, "Dialog answer must be at most 500 characters");
+  }
+
+  const tierNames = healingTiers().map((t) => t.name);
+  const healingThresholds = args.healingThresholds ?? {};
+  for (const [tier, threshold] of Object.entries(healingThresholds)) {
+    if (!tierNames.includes(tier)) {
+      throw new HttpError(400, `Unknown healing tier "${tier}" (use ${tierNames.join(", ")})`);
+    }
+    if (typeof threshold !== "number" || threshold < 0 || threshold > 1) {
+      throw new HttpError(400, `Healing threshold for "${tier}" must be between 0 and 1`);
+    }
+  }
+
+  const reviewThreshold = args.reviewThreshold ?? DEFAULT_REVIEW_THRESHOLD;
+  if (typeof reviewThreshold !== "number" || reviewThreshold < 0 || reviewThreshold > 1) {
+    throw new HttpError(400, "Review threshold must be between 0 and 1");
+  }
+
   // Create the test suite
   const testSuite = await context.entities.TestSuite.create({
     data: {
@@ -318,12 +828,21 @@ export const createTestSuite: CreateTestSuite<CreateTestSuiteInput, TestSuite> =
       model: args.model || "gemini-flash",
       headless: args.headless !== undefined ? args.headless : true,
       timeout: args.timeout || 30000,
+      maxPlanSteps: args.maxPlanSteps || 20,
+      promptTokenBudget: args.promptTokenBudget || 2500,
+      readyCheck: args.readyCheck?.trim() || null,
+      locatorStrategies,
+      dialogPolicy,
+      dialogAnswer: dialogPolicy === "answer" ? args.dialogAnswer : null,
+      healingThresholds: Object.keys(healingThresholds).length > 0 ? (healingThresholds as any) : null,
+      reviewThreshold,
       status: "IDLE",
       userId: context.user.id,
       totalSteps: 0,
       successSteps: 0,
       failedSteps: 0,
       healedSteps: 0,
+      suspiciousSteps: 0,
       totalTokensUsed: 0,
       estimatedCost: 0.0,
     },
@@ -336,7 +855,7 @@ export const createTestSuite: CreateTestSuite<CreateTestSuiteInput, TestSuite> =
  * Run a test suite (triggers the AI agent loop)
  * Includes script generation after successful execution
  */
-export const runTestSuite: RunTestSuite<{ testSuiteId: string }, TestSuite> = async (
+export const runTestSuite: RunTestSuite<RunTestSuiteInput, TestSuite> = async (
   args,
   context
 ) => {
@@ -365,6 +884,45 @@ export const runTestSuite: RunTestSuite<{ testSuiteId: string }, TestSuite> = as
     throw new HttpError(400, "Test suite is already running");
   }
 
+  const flows = (
+    await context.entities.Flow.findMany({ where: { userId: context.user.id } })
+  ).map(toFlowDefinition);
+
+  // Reuse the stored plan unless the user asked for a re-plan or the goal
+  // text has changed since it was generated.
+  const latestPlan = await context.entities.TestPlan.findFirst({
+    where: { testSuiteId: testSuite.id },
+    orderBy: { version: "desc" },
+  });
+  const storedPlan =
+    latestPlan && !args.replan && latestPlan.goal === testSuite.goal
+      ? toPlanResult(latestPlan)
+      : undefined;
+
+  // Decrypt the referenced secrets up front so a missing one fails before
+  // the browser starts
+  const secretNames = referencedSecretNames(testSuite, storedPlan, flows);
+  const secrets = decryptSecrets(
+    secretNames.length > 0
+      ? await context.entities.UserSecret.findMany({ where: { userId: context.user.id, name: { in: secretNames } } })
+      : []
+  );
+  const missingSecrets = secretNames.filter((name) => !(name in secrets));
+  if (missingSecrets.length > 0) {
+    throw new HttpError(
+      400,
+      `Undefined secret(s) in the goal, plan, flows or parameters: ${missingSecrets
+        .map((n) => `{{secret.${n}}}`)
+        .join(", ")}`
+    );
+  }
+
+  // Heal candidates reviewers rejected, for this suite and the flows it may use
+  const blockedCandidates = await context.entities.HealingBlock.findMany({
+    where: { scope: { in: [testSuite.id, ...flows.map((f) => flowNamespace(f.id))] } },
+    select: { scope: true, descriptor: true, selector: true },
+  });
+
   // Update status to RUNNING
   await context.entities.TestSuite.update({
     where: {
@@ -383,144 +941,222 @@ export const runTestSuite: RunTestSuite<{ testSuiteId: string }, TestSuite> = as
   console.log(`🌐 Start URL: ${testSuite.startUrl}`);
   console.log(`🤖 Model: ${testSuite.model}`);
 
-
+  console.log(
+    storedPlan
+      ? `📋 Plan: reusing v${latestPlan!.version}`
+      : `📋 Plan: generating a new version${args.replan ? " (re-plan requested)" : ""}`
+  );
+
+  // Data-driven suites execute the same plan once per parameter row
+  const parameterRows = (testSuite.parameters as unknown as ParameterRow[] | null) ?? [];
+  const requestRules = (testSuite.requestRules as unknown as RequestRule[] | null) ?? [];
+  const iterations: (ParameterRow | undefined)[] = parameterRows.length > 0 ? parameterRows : [undefined];
+  if (parameterRows.length > 0) {
+    console.log(`🧮 Data-driven: ${parameterRows.length} parameter row(s)`);
+  }
 
   // Launch Puppeteer
   const browser = await puppeteer.launch({
     headless: testSuite.headless
   });
-  const page = await browser.newPage();
 
   // Register this run so stopTestSuite can cancel it
   RUNNING_SUITES.set(testSuite.id, { browser, cancelled: false });
 
-  let result;
-  let script = "";
+  let plan = storedPlan;
+  let planVersion: number | null = storedPlan ? latestPlan!.version : null;
+  const totals = {
+    totalSteps: 0,
+    successSteps: 0,
+    failedSteps: 0,
+    healedSteps: 0,
+    suspiciousSteps: 0,
+    executionTime: 0,
+    estimatedCost: 0,
+  };
+  let allPassed = true;
+  let pendingReviews = 0;
+  // Groups this run's page fingerprints for the drift report
+  const runId = randomUUID();
 
   try {
-    // Execute agent — Plan-then-Execute architecture
-    // (Planner LLM → stable descriptors → RAG cache lookup → LLM healing on drift)
-    result = await runPlanExecuteAgent(page, {
-      goal: testSuite.goal,
-      startUrl: testSuite.startUrl,
-      maxSteps: 50,
-      timeout: testSuite.timeout,
-      aiModel: {
-        model: testSuite.model as any,
-        apiKey: process.env.GEMINI_API_KEY || ""
-      },
-      testSuiteId: testSuite.id,
-      embeddingConfig: {
-        provider: "gemini",
-        apiKey: process.env.GEMINI_API_KEY || ""
-      },
-      shouldCancel: () => shouldCancel(testSuite.id)
-    });
+    // Iteration results describe the latest run only
+    await context.entities.TestIteration.deleteMany({ where: { testSuiteId: testSuite.id } });
 
-    // Generate script
-    script = generateFinalScript(
-      testSuite.goal,
-      testSuite.startUrl,
-      result.logs
-    );
+    for (let n = 0; n < iterations.length; n++) {
+      if (shouldCancel(testSuite.id)) break;
 
-    // Save to database (Assuming GeneratedScript entity exists, otherwise skip/ignore error)
-    try {
-      await (context.entities as any).GeneratedScript?.create({
-        data: {
+      const row = iterations[n];
+      const iteration = row ? n + 1 : null;
+      if (row) {
+        console.log(`\n🧮 Iteration ${n + 1}/${iterations.length}: ${JSON.stringify(row)}`);
+      }
+
+      // Fresh tab per iteration; close whatever the previous one left open
+      for (const openPage of await browser.pages()) {
+        try { await openPage.close(); } catch { /* already closed */ }
+      }
+      const page = await browser.newPage();
+
+      // Execute agent — Plan-then-Execute architecture
+      // (Planner LLM → stable descriptors → RAG cache lookup → LLM healing on drift)
+      const result = await runPlanExecuteAgent(page, {
+        goal: testSuite.goal,
+        startUrl: testSuite.startUrl,
+        maxSteps: 50,
+        timeout: testSuite.timeout,
+        aiModel: {
+          model: testSuite.model as any,
+          apiKey: process.env.GEMINI_API_KEY || "",
+          promptTokenBudget: testSuite.promptTokenBudget,
+          rankingEmbeddings: { provider: "gemini", apiKey: process.env.GEMINI_API_KEY || "" }
+        },
+        testSuiteId: testSuite.id,
+        embeddingConfig: {
+          provider: "gemini",
+          apiKey: process.env.GEMINI_API_KEY || ""
+        },
+        shouldCancel: () => shouldCancel(testSuite.id),
+        maxPlanLength: testSuite.maxPlanSteps,
+        plan,
+        parameters: row,
+        secrets,
+        flows,
+        readyCheck: testSuite.readyCheck ?? undefined,
+        locatorStrategies:
+          testSuite.locatorStrategies.length > 0
+            ? testSuite.locatorStrategies.filter(isLocatorStrategy)
+            : undefined,
+        dialogPolicy: {
+          action: testSuite.dialogPolicy as DialogAction,
+          answer: testSuite.dialogAnswer ?? undefined,
+        },
+        requestRules,
+        healingThresholds: (testSuite.healingThresholds as unknown as HealingThresholds | null) ?? undefined,
+        reviewThreshold: testSuite.reviewThreshold,
+        blockedCandidates,
+        archive: openRunArchive({
           testSuiteId: testSuite.id,
-          scriptName: `${testSuite.id}_healed.js`,
-          scriptContent: script,
-          scriptType: "basic",
-          totalSteps: result.totalSteps,
-          healedSteps: result.healedSteps,
-          healingRate: result.totalSteps > 0 ? result.healedSteps / result.totalSteps : 0
+          runId,
+          iteration,
+          goal: testSuite.goal,
+          startUrl: testSuite.startUrl,
+          model: testSuite.model,
+        }),
+        // Later iterations execute the plan the first one produced
+        onPlanCreated: async (created) => {
+          plan = created;
+          planVersion = (latestPlan?.version ?? 0) + 1;
+          await context.entities.TestPlan.create({
+            data: {
+              testSuiteId: testSuite.id,
+              version: planVersion,
+              goal: testSuite.goal,
+              steps: created.steps as any,
+              phases: (created.phases ?? null) as any,
+              complete: created.complete ?? true,
+              reasoning: created.reasoning,
+              model: created.model,
+            },
+          });
+        },
+        // Incremental planning appends page phases to the version being run
+        onPlanExtended: async (extended) => {
+          plan = extended;
+          if (planVersion === null) return;
+          await context.entities.TestPlan.update({
+            where: { testSuiteId_version: { testSuiteId: testSuite.id, version: planVersion } },
+            data: {
+              steps: extended.steps as any,
+              phases: (extended.phases ?? null) as any,
+              complete: extended.complete ?? true,
+            },
+          });
         }
       });
-    } catch(dbErr) { console.log("Skipped saving generated script record", dbErr); }
-
-    // Update test suite
-    await context.entities.TestSuite.update({
-      where: { id: testSuite.id },
-      data: {
-        status: result.success ? "PASSED" : "FAILED",
-        endedAt: new Date(),
-        totalSteps: result.totalSteps,
-        successSteps: result.successfulSteps,
-        failedSteps: result.failedSteps,
-        healedSteps: result.healedSteps,
-        executionTime: result.executionTimeMs,
-        estimatedCost: result.totalCost
-      }
-    });
 
-    // Persist Step + HealingEvent rows so the UI can show the healing trail.
-    // We create one Step per StepLog that the agent emitted (skip the
-    // goal-achieved sentinel which has no action), then attach a HealingEvent
-    // for any step where healing was attempted.
-    for (const log of result.logs) {
-      if (!log.action) continue; // skip "goal achieved" / "no action" markers
+      // Generate script
+      const script = generateFinalScript(
+        fillPlaceholders(testSuite.goal, row),
+        testSuite.startUrl,
+        result.logs,
+        { ...DEFAULT_OPTIONS, requestRules }
+      );
 
-      let stepRow;
+      // Save to database (Assuming GeneratedScript entity exists, otherwise skip/ignore error)
       try {
-        stepRow = await context.entities.Step.create({
+        await (context.entities as any).GeneratedScript?.create({
           data: {
             testSuiteId: testSuite.id,
-            stepNumber: log.stepNumber,
-            action: log.action.type?.toUpperCase?.() || "ACTION",
-            selector: log.selectorUsed || log.healing.oldSelector || "",
-            value: (log.action as any).value || null,
-            goldenState: { description: log.action.description, selectorType: log.selectorType ?? null } as any,
-            status: log.healing.successful
-              ? "HEALED"
-              : log.result?.success
-                ? "SUCCESS"
-                : log.result
-                  ? "FAILED"
-                  : "PENDING",
-            confidence: log.healing.confidence ?? 1.0,
-            reasoning: log.reasoning?.slice(0, 500),
-            errorMessage: log.result && !log.result.success ? (log.result as any).error || null : null,
-            executionTime: (log.result as any)?.executionTimeMs ?? null,
-          },
+            scriptName: iteration ? `${testSuite.id}_row${iteration}_healed.js` : `${testSuite.id}_healed.js`,
+            scriptContent: maskSecrets(script, secrets),
+            scriptType: "basic",
+            totalSteps: result.totalSteps,
+            healedSteps: result.healedSteps,
+            healingRate: result.totalSteps > 0 ? result.healedSteps / result.totalSteps : 0
+          }
         });
-      } catch (stepErr) {
-        console.warn("Failed to persist Step row", stepErr);
-        continue;
-      }
+      } catch(dbErr) { console.log("Skipped saving generated script record", dbErr); }
 
-      if (log.healing.attempted && log.healing.oldSelector) {
+      await persistRunResult(context, testSuite.id, runId, result, planVersion, iteration, secrets);
+
+      if (row) {
         try {
-          const strategy =
-            log.healing.method === "vector-db"
-              ? "RAG_VECTOR"
-              : log.healing.method === "text-similarity"
-                ? "TEXT_SIMILARITY"
-                : log.healing.method === "structural-similarity"
-                  ? "STRUCTURAL"
-                  : log.healing.method === "exact-match"
-                    ? "EXACT_TEXT"
-                    : "MANUAL_OVERRIDE";
-
-          await context.entities.HealingEvent.create({
+          await context.entities.TestIteration.create({
             data: {
-              stepId: stepRow.id,
-              oldSelector: log.healing.oldSelector,
-              newSelector: log.healing.newSelector || log.healing.oldSelector,
-              confidence: log.healing.confidence ?? 0,
-              matchedOn: (log.healing.matchedOn || {}) as any,
-              strategy,
-              wasSuccessful: log.healing.successful,
-              requiresManualReview: !log.healing.successful,
+              testSuiteId: testSuite.id,
+              index: iteration!,
+              parameters: row as any,
+              status: result.success ? "PASSED" : shouldCancel(testSuite.id) ? "STOPPED" : "FAILED",
+              totalSteps: result.totalSteps,
+              successSteps: result.successfulSteps,
+              failedSteps: result.failedSteps,
+              healedSteps: result.healedSteps,
+              skippedSteps: result.skippedSteps ?? 0,
+              suspiciousSteps: result.suspiciousSteps ?? 0,
+              errorMessage: maskSecrets(
+                result.error ?? (result.success ? null : result.logs[result.logs.length - 1]?.reasoning ?? null),
+                secrets
+              ),
+              executionTime: result.executionTimeMs,
             },
           });
-        } catch (heErr) {
-          console.warn("Failed to persist HealingEvent row", heErr);
+        } catch (itErr) {
+          console.warn("Failed to persist TestIteration row", itErr);
         }
       }
+
+      totals.totalSteps += result.totalSteps;
+      totals.successSteps += result.successfulSteps;
+      totals.failedSteps += result.failedSteps;
+      totals.healedSteps += result.healedSteps;
+      totals.suspiciousSteps += result.suspiciousSteps ?? 0;
+      totals.executionTime += result.executionTimeMs;
+      totals.estimatedCost += result.totalCost;
+      allPassed = allPassed && result.success;
+      pendingReviews += result.reviewSteps ?? 0;
     }
 
-  } catch (error: any) {
+    // Update test suite (totals across iterations for data-driven suites)
+    await context.entities.TestSuite.update({
+      where: { id: testSuite.id },
+      data: {
+        // A passing run that relied on low-confidence heals waits for a reviewer
+        status: allPassed ? (pendingReviews > 0 ? "NEEDS_REVIEW" : "PASSED") : "FAILED",
+        endedAt: new Date(),
+        // Every step went through, but some changed nothing on the page
+        errorMessage:
+          !allPassed && !shouldCancel(testSuite.id) && totals.failedSteps === 0 && totals.suspiciousSteps > 0
+            ? `${totals.suspiciousSteps} step(s) had no observable effect — see the suspicious steps`
+            : null,
+        ...totals,
+      }
+    });
+
+    await recordDriftBaseline(context, testSuite.id, runId, allPassed);
+    await pruneRunArchives(testSuite.id);
+
+  } catch (error: any) {
     console.error("Agent Loop Error: ", error);
     const wasCancelled = shouldCancel(testSuite.id);
     await context.entities.TestSuite.update({
@@ -528,7 +1164,7 @@ export const runTestSuite: RunTestSuite<{ testSuiteId: string }, TestSuite> = as
       data: {
         status: wasCancelled ? "STOPPED" : "FAILED",
         endedAt: new Date(),
-        errorMessage: wasCancelled ? "Stopped by user" : error.message
+        errorMessage: wasCancelled ? "Stopped by user" : maskSecrets(error.message ?? null, secrets)
       }
     });
   } finally {
@@ -549,6 +1185,340 @@ export const runTestSuite: RunTestSuite<{ testSuiteId: string }, TestSuite> = as
   }) as TestSuite;
 };
 
+/**
+ * Draft a plan without executing it (plan-only mode)
+ *
+ * Opens the start page, runs the Planner and returns the steps to the UI for
+ * review. Nothing is persisted until the user approves via saveTestPlan.
+ */
+export const draftTestPlan: DraftTestPlan<{ testSuiteId: string }, PlanResult> = async (
+  args,
+  context
+) => {
+  if (!context.user) {
+    throw new HttpError(401, "Unauthorized - Please log in");
+  }
+
+  const testSuite = await context.entities.TestSuite.findUnique({
+    where: { id: args.testSuiteId },
+  });
+
+  if (!testSuite) {
+    throw new HttpError(404, "Test suite not found");
+  }
+
+  if (testSuite.userId !== context.user.id) {
+    throw new HttpError(403, "Forbidden - You don't own this test suite");
+  }
+
+  if (testSuite.status === "RUNNING") {
+    throw new HttpError(400, "Test suite is running — stop it before drafting a plan");
+  }
+
+  const flows = (
+    await context.entities.Flow.findMany({ where: { userId: context.user.id } })
+  ).map(toFlowDefinition);
+
+  const browser = await puppeteer.launch({ headless: testSuite.headless });
+  try {
+    const page = await browser.newPage();
+    const plan = await draftPlan(page, {
+      goal: testSuite.goal,
+      startUrl: testSuite.startUrl,
+      timeout: testSuite.timeout,
+      maxPlanLength: testSuite.maxPlanSteps,
+      flows,
+      readyCheck: testSuite.readyCheck ?? undefined,
+      aiModel: {
+        model: testSuite.model as any,
+        apiKey: process.env.GEMINI_API_KEY || "",
+        promptTokenBudget: testSuite.promptTokenBudget,
+        rankingEmbeddings: { provider: "gemini", apiKey: process.env.GEMINI_API_KEY || "" }
+      },
+    });
+
+    if (plan.steps.length === 0) {
+      throw new HttpError(502, plan.reasoning || "Planner returned an empty plan");
+    }
+
+    return plan;
+  } finally {
+    try { await browser.close(); } catch { /* already closed */ }
+  }
+};
+
+/**
+ * Approve a reviewed/edited plan
+ *
+ * Stores the steps as the next TestPlan version; subsequent runs execute it
+ * verbatim instead of re-planning.
+ */
+export const saveTestPlan: SaveTestPlan<SaveTestPlanInput, TestPlan> = async (
+  args,
+  context
+) => {
+  if (!context.user) {
+    throw new HttpError(401, "Unauthorized - Please log in");
+  }
+
+  const testSuite = await context.entities.TestSuite.findUnique({
+    where: { id: args.testSuiteId },
+  });
+
+  if (!testSuite) {
+    throw new HttpError(404, "Test suite not found");
+  }
+
+  if (testSuite.userId !== context.user.id) {
+    throw new HttpError(403, "Forbidden - You don't own this test suite");
+  }
+
+  if (testSuite.status === "RUNNING") {
+    throw new HttpError(400, "Test suite is running — wait for it to finish before changing the plan");
+  }
+
+  const steps = validatePlanSteps(args.steps);
+
+  // Every referenced sub-flow must exist (they are resolved by name at run time)
+  const flowNames = steps.filter((s) => s.expectedAction === "flow").map((s) => s.expectedValue!);
+  if (flowNames.length > 0) {
+    const existing = await context.entities.Flow.findMany({
+      where: { userId: context.user.id, name: { in: flowNames } },
+      select: { name: true },
+    });
+    const unknown = flowNames.filter((name) => !existing.some((f) => f.name === name));
+    if (unknown.length > 0) {
+      throw new HttpError(400, `Unknown flow(s): ${[...new Set(unknown)].join(", ")}`);
+    }
+  }
+
+  const latestPlan = await context.entities.TestPlan.findFirst({
+    where: { testSuiteId: testSuite.id },
+    orderBy: { version: "desc" },
+  });
+
+  return await context.entities.TestPlan.create({
+    data: {
+      testSuiteId: testSuite.id,
+      version: (latestPlan?.version ?? 0) + 1,
+      goal: testSuite.goal,
+      steps: steps as any,
+      complete: args.complete ?? true,
+      reasoning: args.reasoning?.trim() || "Reviewed and approved in the plan editor.",
+      model: args.model || latestPlan?.model || "manual",
+      source: "EDITED",
+    },
+  });
+};
+
+/**
+ * Attach (or clear) the data-driven parameter table of a test suite
+ */
+export const saveTestParameters: SaveTestParameters<SaveTestParametersInput, TestSuite> = async (
+  args,
+  context
+) => {
+  if (!context.user) {
+    throw new HttpError(401, "Unauthorized - Please log in");
+  }
+
+  const testSuite = await context.entities.TestSuite.findUnique({
+    where: { id: args.testSuiteId },
+  });
+
+  if (!testSuite) {
+    throw new HttpError(404, "Test suite not found");
+  }
+
+  if (testSuite.userId !== context.user.id) {
+    throw new HttpError(403, "Forbidden - You don't own this test suite");
+  }
+
+  if (testSuite.status === "RUNNING") {
+    throw new HttpError(400, "Test suite is running — wait for it to finish before changing parameters");
+  }
+
+  let rows: ParameterRow[];
+  try {
+    rows = parseParameterTable(args.format, args.data ?? "");
+  } catch (err: any) {
+    throw new HttpError(400, err.message);
+  }
+
+  // Every placeholder in the goal must be filled by every row
+  const missing = findPlaceholders(testSuite.goal).filter((name) =>
+    rows.some((row) => !Object.prototype.hasOwnProperty.call(row, name))
+  );
+  if (rows.length > 0 && missing.length > 0) {
+    throw new HttpError(400, `Missing column(s) used in the goal: ${missing.map((m) => `{{${m}}}`).join(", ")}`);
+  }
+
+  return await context.entities.TestSuite.update({
+    where: { id: testSuite.id },
+    data: { parameters: rows.length > 0 ? (rows as any) : null },
+  });
+};
+
+/**
+ * Attach (or clear) the request interception rules of a test suite
+ */
+export const saveRequestRules: SaveRequestRules<SaveRequestRulesInput, TestSuite> = async (
+  args,
+  context
+) => {
+  if (!context.user) {
+    throw new HttpError(401, "Unauthorized - Please log in");
+  }
+
+  const testSuite = await context.entities.TestSuite.findUnique({
+    where: { id: args.testSuiteId },
+  });
+
+  if (!testSuite) {
+    throw new HttpError(404, "Test suite not found");
+  }
+
+  if (testSuite.userId !== context.user.id) {
+    throw new HttpError(403, "Forbidden - You don't own this test suite");
+  }
+
+  if (testSuite.status === "RUNNING") {
+    throw new HttpError(400, "Test suite is running — wait for it to finish before changing request rules");
+  }
+
+  let rules: RequestRule[];
+  try {
+    rules = parseRequestRules(args.data ?? "");
+  } catch (err: any) {
+    throw new HttpError(400, err.message);
+  }
+
+  return await context.entities.TestSuite.update({
+    where: { id: testSuite.id },
+    data: { requestRules: rules.length > 0 ? (rules as any) : null },
+  });
+};
+
+/**
+ * Create or replace one of the user's secrets
+ */
+export const saveSecret: SaveSecret<SaveSecretInput, SecretSummary> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, "Unauthorized - Please log in");
+  }
+
+  const name = (args.name || "").trim();
+  if (!isValidSecretName(name)) {
+    throw new HttpError(400, "Secret names must start with a letter and contain only letters, digits, _ or -");
+  }
+  if (!args.value) {
+    throw new HttpError(400, "Secret value is required");
+  }
+
+  let encryptedValue: string;
+  try {
+    encryptedValue = encryptSecret(args.value);
+  } catch (err: any) {
+    throw new HttpError(500, `Secrets are not configured on the server: ${err.message}`);
+  }
+
+  return await context.entities.UserSecret.upsert({
+    where: { userId_name: { userId: context.user.id, name } },
+    create: { userId: context.user.id, name, encryptedValue },
+    update: { encryptedValue },
+    select: { name: true, createdAt: true, updatedAt: true },
+  });
+};
+
+/**
+ * Delete one of the user's secrets
+ */
+export const deleteSecret: DeleteSecret<{ name: string }, void> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, "Unauthorized - Please log in");
+  }
+
+  const { count } = await context.entities.UserSecret.deleteMany({
+    where: { userId: context.user.id, name: args.name },
+  });
+  if (count === 0) {
+    throw new HttpError(404, "Secret not found");
+  }
+};
+
+/**
+ * Create or replace a reusable sub-flow
+ *
+ * Saving an existing name replaces its steps; every suite that includes the
+ * flow picks up the change on its next run.
+ */
+export const saveFlow: SaveFlow<SaveFlowInput, Flow> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, "Unauthorized - Please log in");
+  }
+
+  const name = (args.name || "").trim();
+  if (!name) {
+    throw new HttpError(400, "Flow name is required");
+  }
+
+  const steps = validatePlanSteps(args.steps);
+  if (steps.some((s) => s.expectedAction === "flow")) {
+    throw new HttpError(400, "Flows cannot include other flows");
+  }
+
+  const description = args.description?.trim() || null;
+  return await context.entities.Flow.upsert({
+    where: { userId_name: { userId: context.user.id, name } },
+    create: { userId: context.user.id, name, description, steps: steps as any },
+    update: { description, steps: steps as any },
+  });
+};
+
+/**
+ * Delete one of the user's sub-flows, with the selectors learned inside it.
+ * Refused while a suite's latest plan still runs the flow — it would fail
+ * there at run time.
+ */
+export const deleteFlow: DeleteFlow<{ id: string }, void> = async (args, context) => {
+  if (!context.user) {
+    throw new HttpError(401, "Unauthorized - Please log in");
+  }
+
+  const flow = await context.entities.Flow.findFirst({
+    where: { id: args.id, userId: context.user.id },
+  });
+  if (!flow) {
+    throw new HttpError(404, "Flow not found");
+  }
+
+  // Newest first, so the first plan seen per suite is its latest
+  const plans = await context.entities.TestPlan.findMany({
+    where: { testSuite: { userId: context.user.id } },
+    orderBy: { version: "desc" },
+    include: { testSuite: { select: { goal: true } } },
+  });
+  const seen = new Set<string>();
+  const usedBy: string[] = [];
+  for (const plan of plans) {
+    if (seen.has(plan.testSuiteId)) continue;
+    seen.add(plan.testSuiteId);
+    const steps = toPlanResult(plan).steps;
+    if (steps.some((s) => s.expectedAction === "flow" && s.expectedValue === flow.name)) {
+      usedBy.push(`"${plan.testSuite.goal.slice(0, 60)}"`);
+    }
+  }
+  if (usedBy.length > 0) {
+    throw new HttpError(
+      400,
+      `Flow "${flow.name}" is used by the plan of ${usedBy.length} suite(s): ${usedBy.join(", ")} — remove it from those plans first`
+    );
+  }
+
+  await context.entities.Flow.delete({ where: { id: flow.id } });
+  await clearGoldenStates(flowNamespace(flow.id));
+};
+
 /**
  * Stop a currently running test suite
  *
@@ -608,3 +1578,610 @@ export const stopTestSuite: StopTestSuite<{ testSuiteId: string }, TestSuite> =
     where: { id: args.testSuiteId },
   }) as TestSuite;
 };
+
+/**
+ * Replay an archived run's Planner / Healer decisions against its stored
+ * snapshots (no browser) and report which decisions come out differently
+ * with the current prompts and model.
+ */
+export const replayRunArchive: ReplayRunArchive<ReplayRunArchiveInput, ReplayReport> = async (
+  args,
+  context
+) => {
+  if (!context.user) {
+    throw new HttpError(401, "Unauthorized - Please log in");
+  }
+
+  const testSuite = await context.entities.TestSuite.findUnique({
+    where: { id: args.testSuiteId },
+  });
+
+  if (!testSuite) {
+    throw new HttpError(404, "Test suite not found");
+  }
+
+  if (testSuite.userId !== context.user.id) {
+    throw new HttpError(403, "Forbidden - You don't own this test suite");
+  }
+
+  if (!isValidArchiveId(args.archiveId)) {
+    throw new HttpError(400, "Invalid archive id");
+  }
+
+  const model = args.model || testSuite.model;
+  if (!isSupportedModel(model)) {
+    throw new HttpError(400, `Unknown model "${model}" (use ${SUPPORTED_MODELS.join(", ")})`);
+  }
+
+  const archives = await listRunArchives(testSuite.id);
+  if (!archives.some((a) => a.archiveId === args.archiveId)) {
+    throw new HttpError(404, "Archived run not found");
+  }
+
+  try {
+    return await replayRun(testSuite.id, args.archiveId, {
+      model,
+      apiKey: process.env.GEMINI_API_KEY || "",
+      promptTokenBudget: testSuite.promptTokenBudget,
+      rankingEmbeddings: { provider: "gemini", apiKey: process.env.GEMINI_API_KEY || "" },
+    });
+  } catch (err: any) {
+    console.error("Replay failed:", err);
+    throw new HttpError(500, `Replay failed: ${err.message}`);
+  }
+};
+
+/**
+ * Approve a low-confidence heal: the healed element becomes the golden state
+ * for its descriptor. The suite leaves NEEDS_REVIEW once nothing is pending.
+ */
+export const approveHeal: ApproveHeal<ReviewHealInput, TestSuite> = async (args, context) => {
+  const { event, testSuite, review } = await findPendingReview(context, args.healingEventId);
+
+  let saved: boolean;
+  try {
+    const embedding = await generateActionEmbedding(
+      { type: review.expectedAction, description: review.descriptor } as Action,
+      { provider: "gemini", apiKey: process.env.GEMINI_API_KEY || "" }
+    );
+    saved = await saveGoldenState(
+      review.scope,
+      review.descriptor,
+      review.next.selector,
+      review.next.selectorType,
+      review.next.element,
+      embedding
+    );
+  } catch (err: any) {
+    console.error("Approving heal failed:", err);
+    throw new HttpError(500, `Could not update the golden state: ${err.message}`);
+  }
+  // The heal stays PENDING so it can be approved again
+  if (!saved) throw new HttpError(500, "Could not update the golden state: the vector DB write failed");
+
+  await context.entities.HealingEvent.update({
+    where: { id: event.id },
+    data: {
+      reviewStatus: "APPROVED",
+      reviewedAt: new Date(),
+      manuallyConfirmed: true,
+      requiresManualReview: false,
+    },
+  });
+  console.log(`✅ Heal approved for "${review.descriptor}": ${review.next.selector}`);
+
+  const stillPending = await context.entities.HealingEvent.count({
+    where: { reviewStatus: "PENDING", step: { testSuiteId: testSuite.id } },
+  });
+  if (stillPending > 0 || testSuite.status !== "NEEDS_REVIEW") return testSuite;
+
+  return await context.entities.TestSuite.update({
+    where: { id: testSuite.id },
+    data: { status: "PASSED" },
+  });
+};
+
+/**
+ * Reject a low-confidence heal: the healed element is blocked, so later heals
+ * for the descriptor skip it. The golden state needs no restore — a held heal
+ * never replaced the old selector. A suite waiting for review fails — its run
+ * relied on the wrong element.
+ */
+export const rejectHeal: RejectHeal<ReviewHealInput, TestSuite> = async (args, context) => {
+  const { event, testSuite, review } = await findPendingReview(context, args.healingEventId);
+
+  await context.entities.HealingBlock.upsert({
+    where: {
+      scope_descriptor_selector: {
+        scope: review.scope,
+        descriptor: review.descriptor,
+        selector: review.next.selector,
+      },
+    },
+    create: {
+      testSuiteId: testSuite.id,
+      scope: review.scope,
+      descriptor: review.descriptor,
+      selector: review.next.selector,
+    },
+    update: {},
+  });
+  await context.entities.HealingEvent.update({
+    where: { id: event.id },
+    data: {
+      reviewStatus: "REJECTED",
+      reviewedAt: new Date(),
+      manuallyConfirmed: false,
+      requiresManualReview: false,
+    },
+  });
+  console.log(`🚫 Heal rejected for "${review.descriptor}": ${review.next.selector} blocked`);
+
+  if (testSuite.status !== "NEEDS_REVIEW") return testSuite;
+
+  return await context.entities.TestSuite.update({
+    where: { id: testSuite.id },
+    data: {
+      status: "FAILED",
+      errorMessage: `Heal rejected in review: step ${event.step.stepNumber} "${review.descriptor}" used the wrong element`,
+    },
+  });
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Load a heal still waiting for review, checking the caller owns its suite
+ */
+async function findPendingReview(
+  context: Parameters<ApproveHeal<ReviewHealInput, TestSuite>>[1],
+  healingEventId: string
+) {
+  if (!context.user) {
+    throw new HttpError(401, "Unauthorized - Please log in");
+  }
+
+  const event = await context.entities.HealingEvent.findUnique({
+    where: { id: healingEventId },
+    include: { step: { include: { testSuite: true } } },
+  });
+
+  if (!event) {
+    throw new HttpError(404, "Healing event not found");
+  }
+
+  const { testSuite } = event.step;
+  if (testSuite.userId !== context.user.id) {
+    throw new HttpError(403, "Forbidden - You don't own this test suite");
+  }
+
+  const review = (event.metadata as any)?.review as HealReview | undefined;
+  if (event.reviewStatus !== "PENDING" || !review) {
+    throw new HttpError(400, "This heal is not waiting for review");
+  }
+
+  if (testSuite.status === "RUNNING") {
+    throw new HttpError(400, "Wait for the running test to finish before reviewing");
+  }
+
+  return { event, testSuite, review };
+}
+
+/**
+ * Validate steps coming from the plan editor and re-number them 1..n
+ */
+function validatePlanSteps(steps: Omit<PlanStep, "id">[] | undefined): PlanStep[] {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    throw new HttpError(400, "A plan needs at least one step");
+  }
+
+  return steps.map((step, idx) => {
+    const n = idx + 1;
+    const descriptor = (step?.descriptor || "").trim();
+    if (!descriptor) {
+      throw new HttpError(400, `Step ${n}: descriptor is required`);
+    }
+    if (!PLAN_ACTIONS.includes(step.expectedAction)) {
+      throw new HttpError(400, `Step ${n}: unknown action "${step.expectedAction}"`);
+    }
+    const expectedValue = step.expectedValue?.trim() || undefined;
+    if (VALUE_REQUIRED_ACTIONS.includes(step.expectedAction) && !expectedValue) {
+      throw new HttpError(400, `Step ${n}: "${step.expectedAction}" needs a value`);
+    }
+    // Values with {{placeholders}} are only known per data row — checked at run time
+    if (expectedValue && findPlaceholders(expectedValue).length === 0) {
+      if (step.expectedAction === "press") {
+        try {
+          parseKeyChord(expectedValue);
+        } catch (err: any) {
+          throw new HttpError(400, `Step ${n}: ${err.message}`);
+        }
+      }
+      if (step.expectedAction === "upload") {
+        const invalid = splitFixtureNames(expectedValue).find((name) => !isValidFixtureName(name));
+        if (invalid !== undefined) {
+          throw new HttpError(400, `Step ${n}: fixture "${invalid}" must be a file name inside the fixture directory`);
+        }
+      }
+    }
+    const condition = step.condition?.value?.trim()
+      ? { type: step.condition.type, value: step.condition.value.trim() }
+      : undefined;
+    if (condition && !CONDITION_TYPES.includes(condition.type)) {
+      throw new HttpError(400, `Step ${n}: unknown condition "${condition.type}"`);
+    }
+    if (step.expectedAction === "verify" && step.assertion && !parseAssertion(step.assertion)) {
+      throw new HttpError(400, `Step ${n}: unknown assertion "${step.assertion.type}"`);
+    }
+    const assertion = step.expectedAction === "verify" ? parseAssertion(step.assertion) : undefined;
+    const assertionProblem = assertion && validateAssertion(assertion, expectedValue);
+    if (assertionProblem) {
+      throw new HttpError(400, `Step ${n}: ${assertionProblem}`);
+    }
+    return {
+      id: n,
+      descriptor,
+      expectedAction: step.expectedAction,
+      expectedValue,
+      optional: step.optional === true || undefined,
+      condition,
+      assertion,
+    };
+  });
+}
+
+/**
+ * Persist Step + HealingEvent + PlanRevision + StepFingerprint rows, plus a
+ * log line per step on how the page settled, for one agent run (one per
+ * iteration of a data-driven suite)
+ */
+async function persistRunResult(
+  context: Parameters<RunTestSuite<RunTestSuiteInput, TestSuite>>[1],
+  testSuiteId: string,
+  runId: string,
+  result: AgentResult,
+  planVersion: number | null,
+  iteration: number | null,
+  secrets: SecretValues
+): Promise<void> {
+  // Step + HealingEvent rows so the UI can show the healing trail.
+  // We create one Step per StepLog that the agent emitted (skip the
+  // goal-achieved sentinel which has no action), then attach a HealingEvent
+  // for any step where healing was attempted.
+  for (const log of result.logs) {
+    if (!log.action) continue; // skip "goal achieved" / "no action" markers
+
+    let stepRow;
+    try {
+      stepRow = await context.entities.Step.create({
+        data: {
+          testSuiteId,
+          stepNumber: log.stepNumber,
+          iteration,
+          action: log.action.type?.toUpperCase?.() || "ACTION",
+          selector: maskSecrets(log.selectorUsed || log.healing.oldSelector || "", secrets),
+          value: maskSecrets((log.action as any).value || null, secrets),
+          goldenState: { description: log.action.description, selectorType: log.selectorType ?? null } as any,
+          status: log.skipped
+            ? "SKIPPED"
+            : log.suspicious
+              ? "SUSPICIOUS"
+              : log.healing.successful
+                ? "HEALED"
+                : log.result?.success
+                  ? "SUCCESS"
+                  : log.result
+                    ? "FAILED"
+                    : "PENDING",
+          confidence: log.healing.confidence ?? 1.0,
+          reasoning: maskSecrets(log.reasoning, secrets)?.slice(0, 500),
+          errorMessage: maskSecrets(
+            log.result && !log.result.success ? (log.result as any).error || null : null,
+            secrets
+          ),
+          executionTime: (log.result as any)?.executionTimeMs ?? null,
+          assertion: log.result?.assertion
+            ? JSON.parse(maskSecrets(JSON.stringify(log.result.assertion), secrets))
+            : undefined,
+          effect: (log.result?.effect as any) ?? undefined,
+          screenshot: log.elementCrop ?? null,
+        },
+      });
+    } catch (stepErr) {
+      console.warn("Failed to persist Step row", stepErr);
+      continue;
+    }
+
+    if (log.healing.attempted && log.healing.oldSelector) {
+      try {
+        // Winning tier: "text-similarity" → TEXT_SIMILARITY, "llm" → LLM
+        const strategy =
+          log.healing.method && log.healing.method !== "failed"
+            ? log.healing.method.toUpperCase().replace(/-/g, "_")
+            : "MANUAL_OVERRIDE";
+        const oldSelector = maskSecrets(log.healing.oldSelector, secrets);
+        const newSelector = maskSecrets(log.healing.newSelector || log.healing.oldSelector, secrets);
+        // Only a heal the run went on with, and that had an effect, is worth a reviewer's time
+        const review: HealReview | undefined =
+          log.healing.review && log.result?.success && log.suspicious !== true
+            ? JSON.parse(maskSecrets(JSON.stringify(log.healing.review), secrets))
+            : undefined;
+
+        if (review) {
+          // The same heal held again replaces the one still waiting
+          await context.entities.HealingEvent.updateMany({
+            where: { reviewStatus: "PENDING", oldSelector, newSelector, step: { testSuiteId } },
+            data: { reviewStatus: "SUPERSEDED", requiresManualReview: false },
+          });
+        }
+
+        await context.entities.HealingEvent.create({
+          data: {
+            stepId: stepRow.id,
+            oldSelector,
+            newSelector,
+            confidence: log.healing.confidence ?? 0,
+            matchedOn: (log.healing.matchedOn || {}) as any,
+            strategy,
+            wasSuccessful: log.healing.successful,
+            requiresManualReview: !log.healing.successful || !!review,
+            reviewStatus: review ? "PENDING" : null,
+            metadata:
+              log.healing.attempts || review
+                ? ({ attempts: log.healing.attempts, review } as any)
+                : undefined,
+          },
+        });
+
+        if (review) {
+          await context.entities.ExecutionLog.create({
+            data: {
+              testSuiteId,
+              level: "WARN",
+              message: `🕵️ Step ${log.stepNumber}: heal ${oldSelector} → ${newSelector} (${(
+                (log.healing.confidence ?? 0) * 100
+              ).toFixed(0)}%) held for review`,
+              context: { stepNumber: log.stepNumber, iteration, stepId: stepRow.id } as any,
+              timestamp: log.timestamp,
+            },
+          });
+        }
+      } catch (heErr) {
+        console.warn("Failed to persist HealingEvent row", heErr);
+      }
+    }
+
+    if (log.result?.assertion) {
+      try {
+        await context.entities.ExecutionLog.create({
+          data: {
+            testSuiteId,
+            level: log.result.assertion.passed ? "INFO" : "ERROR",
+            message: maskSecrets(
+              `🔎 Step ${log.stepNumber}: ${formatAssertionResult(log.result.assertion)}`,
+              secrets
+            ),
+            context: { stepNumber: log.stepNumber, iteration, stepId: stepRow.id } as any,
+            timestamp: log.timestamp,
+          },
+        });
+      } catch (alErr) {
+        console.warn("Failed to persist assertion log", alErr);
+      }
+    }
+
+    if (log.suspicious) {
+      try {
+        await context.entities.ExecutionLog.create({
+          data: {
+            testSuiteId,
+            level: "WARN",
+            message: `⚠️ Step ${log.stepNumber}: ${log.action.type} had no observable effect — ${log.result?.effect?.detail ?? "unknown"}`,
+            context: { stepNumber: log.stepNumber, iteration, stepId: stepRow.id } as any,
+            timestamp: log.timestamp,
+          },
+        });
+      } catch (elErr) {
+        console.warn("Failed to persist effect log", elErr);
+      }
+    }
+
+    for (const event of log.events ?? []) {
+      try {
+        await context.entities.ExecutionLog.create({
+          data: {
+            testSuiteId,
+            level: "INFO",
+            message: maskSecrets(
+              `${event.type === "dialog" ? "💬" : "🗂️"} Step ${log.stepNumber}: ${formatPageEvent(event)}`,
+              secrets
+            ),
+            context: {
+              stepNumber: log.stepNumber,
+              iteration,
+              stepId: stepRow.id,
+              event: JSON.parse(maskSecrets(JSON.stringify(event), secrets)),
+            } as any,
+            timestamp: event.timestamp,
+          },
+        });
+      } catch (evErr) {
+        console.warn("Failed to persist page event log", evErr);
+      }
+    }
+
+    if (log.stability) {
+      try {
+        await context.entities.ExecutionLog.create({
+          data: {
+            testSuiteId,
+            level: log.stability.stable ? "DEBUG" : "WARN",
+            message: `⏳ Step ${log.stepNumber}: page ${formatStability(log.stability)} — ${log.stability.reason}`,
+            context: { stepNumber: log.stepNumber, iteration, ...log.stability } as any,
+            timestamp: log.timestamp,
+          },
+        });
+      } catch (slErr) {
+        console.warn("Failed to persist stability log", slErr);
+      }
+    }
+
+    if (log.pageFingerprint) {
+      try {
+        await context.entities.StepFingerprint.create({
+          data: {
+            testSuiteId,
+            runId,
+            stepNumber: log.stepNumber,
+            iteration,
+            descriptor: log.action.description,
+            url: maskSecrets(log.pageFingerprint.url, secrets),
+            elements: log.pageFingerprint.elements as any,
+          },
+        });
+      } catch (fpErr) {
+        console.warn("Failed to persist StepFingerprint row", fpErr);
+      }
+    }
+  }
+
+  // One summary line: how many requests each suite request rule handled
+  if (result.requestRuleHits && result.requestRuleHits.length > 0) {
+    try {
+      await context.entities.ExecutionLog.create({
+        data: {
+          testSuiteId,
+          level: "INFO",
+          message: `🕸️ Request rules: ${result.requestRuleHits
+            .map((hit) => `#${hit.rule} ${hit.count}×`)
+            .join(", ")} matched`,
+          context: { iteration, hits: result.requestRuleHits } as any,
+        },
+      });
+    } catch (nlErr) {
+      console.warn("Failed to persist request rule log", nlErr);
+    }
+  }
+
+  // Persist adaptive re-plans so the UI can explain why the plan changed
+  for (const replan of result.replans ?? []) {
+    try {
+      await context.entities.PlanRevision.create({
+        data: {
+          testSuiteId,
+          planVersion,
+          atStep: replan.atStep,
+          reason: replan.reason,
+          pageUrl: replan.pageUrl,
+          previousSteps: replan.previousTail as any,
+          revisedSteps: replan.revisedTail as any,
+          reasoning: replan.reasoning,
+          model: replan.model,
+        },
+      });
+    } catch (prErr) {
+      console.warn("Failed to persist PlanRevision row", prErr);
+    }
+  }
+}
+
+/**
+ * Mark a passing run as the next drift baseline and drop fingerprints of every
+ * run except this one and the passing run it is compared against
+ */
+async function recordDriftBaseline(
+  context: Parameters<RunTestSuite<RunTestSuiteInput, TestSuite>>[1],
+  testSuiteId: string,
+  runId: string,
+  passed: boolean
+): Promise<void> {
+  try {
+    if (passed) {
+      await context.entities.StepFingerprint.updateMany({
+        where: { runId },
+        data: { runPassed: true },
+      });
+    }
+
+    const lastPassing = await context.entities.StepFingerprint.findFirst({
+      where: { testSuiteId, runPassed: true, runId: { not: runId } },
+      orderBy: { createdAt: "desc" },
+    });
+    const keep = lastPassing ? [runId, lastPassing.runId] : [runId];
+
+    await context.entities.StepFingerprint.deleteMany({
+      where: { testSuiteId, runId: { notIn: keep } },
+    });
+  } catch (fpErr) {
+    console.warn("Failed to update drift fingerprints", fpErr);
+  }
+}
+
+/**
+ * Convert a StepFingerprint row back into the drift module's shape
+ */
+function toPageFingerprint(row: StepFingerprint): PageFingerprint {
+  return {
+    url: row.url,
+    elements: (row.elements as unknown as PageFingerprint["elements"]) ?? [],
+  };
+}
+
+/**
+ * Names of the secrets a suite can reach: its goal, parameter values, the
+ * plan's steps and the flows they expand. Without a complete plan the
+ * Planner may still pick any flow, so every flow counts.
+ */
+function referencedSecretNames(
+  testSuite: TestSuite,
+  plan: PlanResult | undefined,
+  flows: FlowDefinition[]
+): string[] {
+  const flowNames = (plan?.steps ?? []).filter((s) => s.expectedAction === "flow").map((s) => s.expectedValue);
+  const reachableFlows =
+    plan && (plan.complete ?? true) ? flows.filter((f) => flowNames.includes(f.name)) : flows;
+  return findSecretNames(
+    testSuite.goal,
+    JSON.stringify(testSuite.parameters ?? []),
+    JSON.stringify(plan?.steps ?? []),
+    JSON.stringify(reachableFlows.map((f) => f.steps))
+  );
+}
+
+/**
+ * Decrypt the user's secrets into a NAME → value map (server memory only)
+ */
+function decryptSecrets(rows: UserSecret[]): SecretValues {
+  try {
+    return Object.fromEntries(rows.map((row) => [row.name, decryptSecret(row.encryptedValue)]));
+  } catch (err: any) {
+    throw new HttpError(500, `Could not decrypt secrets — check SECRETS_ENCRYPTION_KEY (${err.message})`);
+  }
+}
+
+/**
+ * Convert a Flow row into the shape the Planner / executor expect
+ */
+function toFlowDefinition(row: Flow): FlowDefinition {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    steps: (row.steps as unknown as PlanStep[]) ?? [],
+  };
+}
+
+/**
+ * Convert a persisted TestPlan row back into the Planner's PlanResult shape
+ */
+function toPlanResult(row: TestPlan): PlanResult {
+  return {
+    steps: (row.steps as unknown as PlanStep[]) ?? [],
+    reasoning: row.reasoning ?? "",
+    model: row.model,
+    phases: (row.phases as unknown as PlanPhase[] | null) ?? undefined,
+    complete: row.complete,
+  };
+}